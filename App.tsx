@@ -1,18 +1,78 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-import { mean, median, standardDeviation, min, max, sampleCorrelation } from 'simple-statistics';
-import { MultivariateLinearRegression } from 'ml-regression';
+import type { WorkBook } from 'xlsx';
 import Markdown from 'react-markdown';
 
-import { getDatasetInsights, getVariableSuggestions } from './services/geminiService';
-import type { DataRow, DataSet, DescriptiveStats, CorrelationMatrix, ModelResults, TrainedModel } from './types';
+import { getDatasetInsights, getVariableSuggestions, loadAiConfig, saveAiConfig, DEFAULT_AI_CONFIGS, AI_PROVIDER_LABELS } from './services/aiService';
+import type { DatasetContext } from './services/aiCommon';
+import { DEFAULT_PRIVACY_POLICY, MAX_SAMPLE_ROWS } from './services/privacyService';
+import { selectCompleteRows, selectCompleteRowIndices, COVARIANCE_LABELS } from './services/regressionService';
+import { MODEL_LABELS, LAMBDA_CV_FOLDS, LEADERBOARD_CONFIGS, isPenalized, isRobust } from './services/modelService';
+import { TrainingError } from './services/trainingService';
+import { parseDelimitedText, FileParseError, DATA_FILE_ACCEPT } from './services/fileService';
+import {
+    readDataSourceInWorker, computeStatisticsInWorker, trainModelInWorker, compareModelsInWorker, trainSegmentsInWorker,
+    computeCollinearityInWorker, ComputationCancelledError
+} from './services/computeClient';
+import type { ComputeOptions } from './services/computeClient';
+import type { DatasetStatistics } from './services/computeTasks';
+import { inferSchema, applySchema } from './services/schemaService';
+import { sortByDate } from './services/timeSeriesService';
+import { predictWithIntervals, categoricalInputLevels } from './services/predictionService';
+import type { TrainingRequest, TrainingOutcome } from './services/trainingService';
+import type { LoadedModel } from './services/modelArtifactService';
+import { loadExperimentRuns, saveExperimentRun, deleteExperimentRun, createExperimentRun, MAX_EXPERIMENT_RUNS } from './services/experimentService';
+import type { ExperimentRun } from './services/experimentService';
+import { trainingInputStats, defaultInputs, findExtrapolations } from './services/scenarioService';
+import type { Scenario } from './services/scenarioService';
+import { filterRowIndices, createFilterId } from './services/filterService';
+import { segmentColumns } from './services/segmentService';
+import type { SegmentResult } from './services/segmentService';
+import {
+    applyFeatureSteps, applyFeatureStepsToRow, requiredInputColumns, dependentStepIds, insertFeatureStep, imputedColumns,
+    dateInputColumns, derivedColumnSources
+} from './services/featureService';
+import type {
+    DataRow, DataSet, ModelResults, TrainedModel,
+    ValidationConfig, ValidationMode, RegressionMetrics, FoldMetrics, ExclusionRecord, PredictionRecord,
+    FeatureStep, ModelConfig, ModelType, IntervalPrediction, ColumnSchema, TimeSeriesConfig, VariableSuggestion,
+    AiProviderConfig, AiPrivacyPolicy, DescriptiveStats, CovarianceType, FilterCondition, TaskProgress,
+    CollinearityReport as CollinearityResult
+} from './types';
 import { 
     UploadCloudIcon, BarChartIcon, BrainCircuitIcon, TargetIcon,
     ClipboardListIcon, FileCheckIcon, FilterXIcon, SlidersHorizontalIcon,
     GitForkIcon, ClipboardCheckIcon, ShieldCheckIcon, LightbulbIcon,
     CheckCircle2Icon, CircleDotIcon, CircleIcon
 } from './components/icons';
+import { RegressionSummary } from './components/RegressionSummary';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { CollinearityReport } from './components/CollinearityReport';
+import { OutlierPanel } from './components/OutlierPanel';
+import { InfluencePanel } from './components/InfluencePanel';
+import { FeatureBuilder } from './components/FeatureBuilder';
+import { ModelLeaderboard } from './components/ModelLeaderboard';
+import { VariableSelection } from './components/VariableSelection';
+import { BatchScoring } from './components/BatchScoring';
+import { AiProviderSettings } from './components/AiProviderSettings';
+import { AiPrivacyPanel } from './components/AiPrivacyPanel';
+import { InterpretationPanel } from './components/InterpretationPanel';
+import { ExperimentHistory } from './components/ExperimentHistory';
+import { ScenarioPlanner } from './components/ScenarioPlanner';
+import { GoalSeeker } from './components/GoalSeeker';
+import { FilterBuilder } from './components/FilterBuilder';
+import { SegmentModels } from './components/SegmentModels';
+import { ModelExportButton, ModelImportButton } from './components/ModelFileControls';
+import { DataQualityReport } from './components/DataQualityReport';
+import { SchemaEditor } from './components/SchemaEditor';
+import { SheetPicker } from './components/SheetPicker';
+import { ExportableChart, CorrelationHeatmap } from './components/Charts';
+import { DistributionGallery, ScatterMatrixPanel } from './components/DataCharts';
+import { ModelCharts } from './components/ModelCharts';
+import { TimeSeriesPanel } from './components/TimeSeriesPanel';
+import { ForecastPanel } from './components/ForecastPanel';
+import { ReportExport } from './components/ReportExport';
+import { TaskProgressBar } from './components/TaskProgressBar';
+import type { LeaderboardEntry } from './components/ModelLeaderboard';
 
 const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
     <div className="bg-slate-800/50 rounded-xl shadow-lg border border-slate-700 overflow-hidden mb-8 animate-fade-in">
@@ -26,73 +86,69 @@ const Section: React.FC<{ title: string; icon: React.ReactNode; children: React.
     </div>
 );
 
-const FileUpload: React.FC<{ onFileParsed: (dataSet: DataSet) => void; setIsLoading: (loading: boolean) => void }> = ({ onFileParsed, setIsLoading }) => {
+const FileUpload: React.FC<{ onFileRead: (rows: DataRow[], fileName: string, warnings: string[]) => void }> = ({ onFileRead }) => {
     const [dragActive, setDragActive] = useState(false);
+    // Set while a file is read in the compute worker; aborting it cancels the read.
+    const [reading, setReading] = useState<AbortController | null>(null);
+    const [readProgress, setReadProgress] = useState<TaskProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [workbook, setWorkbook] = useState<{ workbook: WorkBook; fileName: string } | null>(null);
+    const [pastedText, setPastedText] = useState('');
 
-    const handleFile = useCallback((file: File) => {
-        setIsLoading(true);
-        if (file.name.endsWith('.csv')) {
-            Papa.parse(file, {
-                header: true,
-                skipEmptyLines: true,
-                complete: (results) => {
-                    processParsedData(results.data as DataRow[]);
-                },
-                error: (err) => {
-                    alert('Error al parsear CSV: ' + err.message);
-                    setIsLoading(false);
-                }
-            });
-        } else if (file.name.endsWith('.xlsx')) {
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                try {
-                    const data = new Uint8Array(e.target?.result as ArrayBuffer);
-                    const workbook = XLSX.read(data, { type: 'array' });
-                    const sheetName = workbook.SheetNames[0];
-                    const worksheet = workbook.Sheets[sheetName];
-                    const jsonData = XLSX.utils.sheet_to_json(worksheet) as DataRow[];
-                    processParsedData(jsonData);
-                } catch (err) {
-                    alert('Error al leer el archivo Excel.');
-                    setIsLoading(false);
-                }
-            };
-            reader.readAsArrayBuffer(file);
-        } else {
-            alert('Formato de archivo no soportado. Por favor, sube un .csv o .xlsx');
-            setIsLoading(false);
-        }
-    }, [setIsLoading]);
-
-    const processParsedData = (data: DataRow[]) => {
-        if (data.length === 0) {
-            alert("El archivo está vacío o no tiene datos.");
-            setIsLoading(false);
+    const acceptRows = useCallback((rows: DataRow[], fileName: string, warnings: string[]) => {
+        if (rows.length === 0) {
+            setError('El archivo está vacío o no tiene datos.');
             return;
         }
-        const headers = Object.keys(data[0]);
-        const numericHeaders: string[] = [];
-        const processedData = data.map(row => {
-            const newRow: DataRow = {};
-            for (const key of headers) {
-                const value = parseFloat(String(row[key]));
-                if (!isNaN(value)) {
-                    newRow[key] = value;
-                    if (!numericHeaders.includes(key)) {
-                        numericHeaders.push(key);
-                    }
-                } else {
-                    newRow[key] = String(row[key]);
-                }
-            }
-            return newRow;
-        });
+        onFileRead(rows, fileName, warnings);
+    }, [onFileRead]);
+
+    const handleFile = useCallback((file: File) => {
+        const controller = new AbortController();
+        setReading(controller);
+        setReadProgress(null);
+        setError(null);
+        readDataSourceInWorker(file, { signal: controller.signal, onProgress: setReadProgress })
+            .then(source => {
+                if (source.kind === 'workbook') setWorkbook({ workbook: source.workbook, fileName: file.name });
+                else acceptRows(source.rows, file.name, source.warnings);
+            })
+            .catch(err => {
+                if (err instanceof ComputationCancelledError) return;
+                setError(err instanceof FileParseError ? err.message : 'Error al leer el archivo.');
+            })
+            .finally(() => setReading(null));
+    }, [acceptRows]);
 
-        onFileParsed({ data: processedData, headers, numericHeaders });
-        setIsLoading(false);
+    const handlePaste = () => {
+        setError(null);
+        try {
+            const { rows, warnings } = parseDelimitedText(pastedText);
+            acceptRows(rows, 'datos pegados', warnings);
+        } catch (err) {
+            setError(err instanceof FileParseError ? err.message : 'No se pudieron interpretar los datos pegados.');
+        }
     };
-    
+
+    if (reading) {
+        return (
+            <div className="flex flex-col justify-center h-64">
+                <TaskProgressBar progress={readProgress} onCancel={() => reading.abort()} />
+            </div>
+        );
+    }
+
+    if (workbook) {
+        return (
+            <SheetPicker
+                workbook={workbook.workbook}
+                fileName={workbook.fileName}
+                onConfirm={rows => { setWorkbook(null); acceptRows(rows, workbook.fileName, []); }}
+                onCancel={() => setWorkbook(null)}
+            />
+        );
+    }
+
     const handleDrag = (e: React.DragEvent) => {
         e.preventDefault();
         e.stopPropagation();
@@ -121,7 +177,7 @@ const FileUpload: React.FC<{ onFileParsed: (dataSet: DataSet) => void; setIsLoad
 
     return (
         <form id="form-file-upload" onDragEnter={handleDrag} onSubmit={(e) => e.preventDefault()} className="relative w-full">
-            <input type="file" id="input-file-upload" accept=".csv, .xlsx" className="hidden" onChange={handleChange} />
+            <input type="file" id="input-file-upload" accept={DATA_FILE_ACCEPT} className="hidden" onChange={handleChange} />
             <label 
                 htmlFor="input-file-upload" 
                 className={`flex flex-col items-center justify-center w-full h-64 border-2 border-dashed rounded-lg cursor-pointer transition-colors duration-300
@@ -132,76 +188,131 @@ const FileUpload: React.FC<{ onFileParsed: (dataSet: DataSet) => void; setIsLoad
                     <p className="mb-2 text-sm text-slate-400">
                         <span className="font-semibold text-cyan-400">Haz clic para subir</span> o arrastra y suelta
                     </p>
-                    <p className="text-xs text-slate-500">CSV o XLSX</p>
+                    <p className="text-xs text-slate-500">CSV, TSV, XLSX, XLS o JSON</p>
                 </div>
             </label>
             {dragActive && <div className="absolute w-full h-full top-0 left-0" onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop}></div>}
+            {error && <p className="text-rose-400 mt-3 text-sm">{error}</p>}
+            <details className="mt-4 text-sm text-slate-400">
+                <summary className="cursor-pointer hover:text-slate-300">Pegar datos desde el portapapeles</summary>
+                <textarea
+                    value={pastedText}
+                    onChange={e => setPastedText(e.target.value)}
+                    rows={6}
+                    placeholder="Copia un rango de Excel o Google Sheets (con encabezados) y pégalo aquí"
+                    className="mt-2 w-full bg-slate-700 border border-slate-600 text-white text-xs font-mono rounded-lg focus:ring-cyan-500 focus:border-cyan-500 p-2"
+                />
+                <button type="button" onClick={handlePaste} disabled={pastedText.trim() === ''} className="mt-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Usar datos pegados
+                </button>
+            </details>
         </form>
     );
 };
 
 interface AnalysisDisplayProps {
   dataSet: DataSet;
-  onVariableSuggestions: (suggestions: { dependentVar: string; independentVars: string[] }) => void;
+  rowIndices: number[];
+  exclusions: ExclusionRecord[];
+  onExcludeRows: (rowIndices: number[], reason: string) => void;
+  onRestoreRows: (rowIndices: number[]) => void;
+  onVariableSuggestions: (suggestions: VariableSuggestion) => void;
+  insights: string;
+  onInsightsChange: (insights: string) => void;
+  aiConfig: AiProviderConfig;
+  aiRemember: boolean;
+  onAiConfigChange: (config: AiProviderConfig) => void;
+  onAiRememberChange: (remember: boolean) => void;
+  privacyPolicy: AiPrivacyPolicy;
+  onPrivacyPolicyChange: (policy: AiPrivacyPolicy) => void;
+  /** Steps that built the dataset's derived columns; these inherit the privacy rules of their sources. */
+  featureSteps: FeatureStep[];
 }
 
-const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ dataSet, onVariableSuggestions }) => {
+const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ dataSet, rowIndices, exclusions, onExcludeRows, onRestoreRows, onVariableSuggestions, insights, onInsightsChange,
+    aiConfig, aiRemember, onAiConfigChange, onAiRememberChange, privacyPolicy, onPrivacyPolicyChange, featureSteps
+}) => {
     const { data, numericHeaders } = dataSet;
-    const [insights, setInsights] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [isSuggesting, setIsSuggesting] = useState(false);
     const [suggestionError, setSuggestionError] = useState<string | null>(null);
+    const [insightsFallback, setInsightsFallback] = useState<string | null>(null);
+    const [insightsError, setInsightsError] = useState<string | null>(null);
+    const [suggestionFallback, setSuggestionFallback] = useState<string | null>(null);
 
-    const stats = useMemo<DescriptiveStats>(() => {
-        const descStats: DescriptiveStats = {};
-        numericHeaders.forEach(header => {
-            const values = data.map(row => row[header] as number).filter(v => v !== null && !isNaN(v));
-            if (values.length > 0) {
-                descStats[header] = {
-                    count: values.length,
-                    min: min(values),
-                    max: max(values),
-                    mean: mean(values),
-                    median: median(values),
-                    std: standardDeviation(values),
-                };
-            }
-        });
-        return descStats;
-    }, [data, numericHeaders]);
-
-    const correlationMatrix = useMemo<CorrelationMatrix>(() => {
-        const matrix: CorrelationMatrix = {};
-        numericHeaders.forEach(h1 => {
-            matrix[h1] = {};
-            numericHeaders.forEach(h2 => {
-                if (h1 === h2) {
-                    matrix[h1][h2] = 1;
-                } else if (matrix[h2] && typeof matrix[h2][h1] !== 'undefined') {
-                    matrix[h1][h2] = matrix[h2][h1];
-                } else {
-                    const v1 = data.map(row => row[h1] as number);
-                    const v2 = data.map(row => row[h2] as number);
-                    matrix[h1][h2] = sampleCorrelation(v1, v2);
-                }
-            });
-        });
-        return matrix;
-    }, [data, numericHeaders]);
+    // Statistics and the O(p²·n) correlation matrix are computed in the worker; null until they arrive.
+    const [statistics, setStatistics] = useState<DatasetStatistics | null>(null);
+    const [statisticsProgress, setStatisticsProgress] = useState<TaskProgress | null>(null);
+    const [statisticsJob, setStatisticsJob] = useState<AbortController | null>(null);
+    const [statisticsRun, setStatisticsRun] = useState(0);
+    // A real failure (the worker did not load, the task threw), as opposed to the user cancelling.
+    const [statisticsError, setStatisticsError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setStatistics(null);
+        setStatisticsProgress(null);
+        setStatisticsError(null);
+        setStatisticsJob(controller);
+        computeStatisticsInWorker(dataSet, { signal: controller.signal, onProgress: setStatisticsProgress })
+            .then(setStatistics)
+            .catch(error => {
+                if (error instanceof ComputationCancelledError) return;
+                console.error(error);
+                setStatisticsError(error instanceof Error ? error.message : 'Ocurrió un error desconocido.');
+            })
+            .finally(() => setStatisticsJob(prev => (prev === controller ? null : prev)));
+        return () => controller.abort();
+    }, [dataSet, statisticsRun]);
+
+    const stats = statistics?.stats ?? null;
+    const correlationMatrix = statistics?.correlation ?? null;
+
+    // Built whole here; the AI service filters it through the privacy policy before anything is sent.
+    const aiContext = useMemo((): DatasetContext | null => statistics && ({
+        headers: dataSet.headers,
+        numericHeaders,
+        rowCount: data.length,
+        stats: statistics.stats,
+        correlation: statistics.correlation,
+        sampleRows: data.slice(0, MAX_SAMPLE_ROWS),
+        derivedFrom: derivedColumnSources(featureSteps),
+    }), [dataSet.headers, numericHeaders, data, statistics, featureSteps]);
+
+    const statisticsPending = statisticsJob
+        ? <TaskProgressBar progress={statisticsProgress} onCancel={() => statisticsJob.abort()} />
+        : (
+            <p className={`text-sm ${statisticsError ? 'text-rose-400' : 'text-slate-400'}`}>
+                {statisticsError ? `No se pudieron calcular las estadísticas: ${statisticsError}` : 'Cálculo cancelado.'}{' '}
+                <button onClick={() => setStatisticsRun(run => run + 1)} className="text-cyan-400 hover:text-cyan-300 font-semibold">Calcular de nuevo</button>
+            </p>
+        );
 
     const handleGenerateInsights = async () => {
+        if (!aiContext) return;
         setIsLoading(true);
-        const analysis = await getDatasetInsights(dataSet.headers, stats, data.slice(0, 5));
-        setInsights(analysis);
-        setIsLoading(false);
+        setInsightsError(null);
+        setInsightsFallback(null);
+        try {
+            const result = await getDatasetInsights(aiConfig, privacyPolicy, aiContext);
+            onInsightsChange(result.value);
+            setInsightsFallback(result.fallbackReason);
+        } catch(error) {
+            setInsightsError(error instanceof Error ? error.message : 'Ocurrió un error desconocido.');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     const handleSuggestVariables = async () => {
+        if (!aiContext) return;
         setIsSuggesting(true);
         setSuggestionError(null);
+        setSuggestionFallback(null);
         try {
-            const suggestions = await getVariableSuggestions(dataSet.headers, data);
-            onVariableSuggestions(suggestions);
+            const result = await getVariableSuggestions(aiConfig, privacyPolicy, aiContext);
+            onVariableSuggestions(result.value);
+            setSuggestionFallback(result.fallbackReason);
         } catch(error) {
             setSuggestionError(error instanceof Error ? error.message : 'Ocurrió un error desconocido.');
         } finally {
@@ -209,19 +320,16 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ dataSet, onVariableSu
         }
     };
 
-    const getCorrelationColor = (value: number) => {
-        if (isNaN(value)) return 'bg-slate-700';
-        const alpha = Math.abs(value);
-        if (value > 0) return `rgba(56, 189, 248, ${alpha})`; // sky-500
-        return `rgba(251, 113, 133, ${alpha})`; // rose-500
-    };
-
     return (
         <>
             <h3 className="text-lg font-semibold mb-4 text-slate-300">Resumen del Dataset</h3>
             <p className="mb-4 text-slate-400">Total de registros: {data.length}, Total de columnas: {dataSet.headers.length}</p>
             
+            <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Calidad de los Datos</h3>
+            <DataQualityReport dataSet={dataSet} />
+
             <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Estadísticas Descriptivas</h3>
+            {!stats ? statisticsPending : (
             <div className="overflow-x-auto">
                 <table className="w-full text-sm text-left text-slate-400">
                     <thead className="text-xs text-slate-300 uppercase bg-slate-700">
@@ -240,39 +348,44 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ dataSet, onVariableSu
                     </tbody>
                 </table>
             </div>
+            )}
+
+            <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Detección de Outliers</h3>
+            <OutlierPanel
+                dataSet={dataSet}
+                rowIndices={rowIndices}
+                exclusions={exclusions}
+                onExcludeRows={onExcludeRows}
+                onRestoreRows={onRestoreRows}
+            />
+
+            <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Distribuciones</h3>
+            <DistributionGallery dataSet={dataSet} />
+
+            <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Matriz de Dispersión</h3>
+            <ScatterMatrixPanel dataSet={dataSet} />
 
             <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Matriz de Correlación</h3>
-            <div className="overflow-x-auto">
-                <table className="w-full text-sm text-left text-slate-400 border-collapse">
-                    <thead>
-                        <tr>
-                            <th className="p-2 border border-slate-600 bg-slate-700"></th>
-                            {numericHeaders.map(h => <th key={h} className="p-2 border border-slate-600 bg-slate-700 text-slate-300">{h}</th>)}
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {numericHeaders.map(h1 => (
-                            <tr key={h1}>
-                                <th className="p-2 border border-slate-600 bg-slate-700 text-slate-300">{h1}</th>
-                                {numericHeaders.map(h2 => (
-                                    <td key={`${h1}-${h2}`} className="p-2 border border-slate-600 text-center font-mono text-white" style={{ backgroundColor: getCorrelationColor(correlationMatrix[h1][h2])}}>
-                                        {correlationMatrix[h1][h2].toFixed(2)}
-                                    </td>
-                                ))}
-                            </tr>
-                        ))}
-                    </tbody>
-                </table>
-            </div>
+            {!correlationMatrix ? statisticsPending : (
+                <ExportableChart title="Mapa de calor" fileName="matriz_correlacion">
+                    <CorrelationHeatmap columns={numericHeaders} matrix={correlationMatrix} />
+                </ExportableChart>
+            )}
 
-            <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Análisis con IA de Gemini</h3>
+            <h3 className="text-lg font-semibold mt-6 mb-4 text-slate-300">Análisis con IA</h3>
+            <AiProviderSettings config={aiConfig} remember={aiRemember} onConfigChange={onAiConfigChange} onRememberChange={onAiRememberChange} />
+            {aiConfig.kind !== 'heuristic' && aiContext && <AiPrivacyPanel policy={privacyPolicy} context={aiContext} onPolicyChange={onPrivacyPolicyChange} />}
             <button 
                 onClick={handleGenerateInsights}
-                disabled={isLoading}
+                disabled={isLoading || !aiContext}
                 className="inline-flex items-center px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
                 {isLoading ? 'Generando...' : 'Generar Análisis'}
             </button>
             {isLoading && <div className="mt-4 text-center">Cargando análisis...</div>}
+            {insightsFallback && !isLoading && (
+                <p className="text-amber-400 mt-2 text-sm">{insightsFallback} Se muestra el análisis local.</p>
+            )}
+            {insightsError && <p className="text-rose-400 mt-2 text-sm">{insightsError}</p>}
             {insights && (
                 <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700 prose prose-invert prose-sm max-w-none">
                     <Markdown>{insights}</Markdown>
@@ -281,14 +394,15 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ dataSet, onVariableSu
             
             <h3 className="text-lg font-semibold mt-8 mb-4 text-slate-300">Asistente de Modelo con IA</h3>
             <p className="text-slate-400 mb-4">
-                Deja que Gemini analice tus columnas y sugiera automáticamente las variables dependientes e independientes para tu modelo de regresión.
+                El asistente analiza tus columnas con el proveedor elegido ({AI_PROVIDER_LABELS[aiConfig.kind]}) y sugiere automáticamente las variables dependientes e independientes para tu modelo de regresión.
             </p>
             <button 
                 onClick={handleSuggestVariables}
-                disabled={isSuggesting}
+                disabled={isSuggesting || !aiContext}
                 className="inline-flex items-center px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
                 {isSuggesting ? 'Sugiriendo...' : 'Sugerir Variables con IA'}
             </button>
+            {suggestionFallback && <p className="text-amber-400 mt-2 text-sm">{suggestionFallback} Se usaron las sugerencias locales.</p>}
             {suggestionError && <p className="text-rose-400 mt-2 text-sm">{suggestionError}</p>}
         </>
     );
@@ -296,13 +410,27 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ dataSet, onVariableSu
 
 interface ModelTrainerProps {
     dataSet: DataSet;
-    onModelTrain: (model: TrainedModel, results: ModelResults, independentVars: string[], dependentVar: string) => void;
-    suggestions: { dependentVar: string; independentVars: string[] } | null;
+    rowIndices: number[];
+    /** `segment` is the extra condition of a per-segment model. */
+    onModelTrain: (model: TrainedModel, results: ModelResults, independentVars: string[], dependentVar: string, segment?: FilterCondition) => void;
+    suggestions: VariableSuggestion | null;
+    /** Time-series mode: validation keeps the row order instead of shuffling. */
+    chronological: boolean;
 }
 
-const ModelTrainer: React.FC<ModelTrainerProps> = ({ dataSet, onModelTrain, suggestions }) => {
+const ModelTrainer: React.FC<ModelTrainerProps> = ({ dataSet, rowIndices, onModelTrain, suggestions, chronological }) => {
     const [dependentVar, setDependentVar] = useState<string>('');
     const [independentVars, setIndependentVars] = useState<string[]>([]);
+    const [validation, setValidation] = useState<ValidationConfig>({ mode: 'holdout', testRatio: 0.2, folds: 5, seed: 42 });
+    const [confidenceLevel, setConfidenceLevel] = useState(0.95);
+    const [modelConfig, setModelConfig] = useState<ModelConfig>({ type: 'ols', degree: 2, alpha: 0.5 });
+    const [weightColumn, setWeightColumn] = useState('');
+    const [covariance, setCovariance] = useState<CovarianceType>('classical');
+    const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[] | null>(null);
+    const [segmentColumn, setSegmentColumn] = useState('');
+    const [segments, setSegments] = useState<{ column: string; results: SegmentResult[] } | null>(null);
+    const [job, setJob] = useState<AbortController | null>(null);
+    const [jobProgress, setJobProgress] = useState<TaskProgress | null>(null);
 
     useEffect(() => {
         if (suggestions && dataSet.headers.includes(suggestions.dependentVar)) {
@@ -316,65 +444,82 @@ const ModelTrainer: React.FC<ModelTrainerProps> = ({ dataSet, onModelTrain, sugg
         }
     }, [suggestions, dataSet.headers, dataSet.numericHeaders]);
 
-    const handleTrainModel = () => {
-        if (!dependentVar || independentVars.length === 0) {
-            alert('Por favor, selecciona la variable dependiente y al menos una independiente.');
-            return;
-        }
-
-        const allVars = [dependentVar, ...independentVars];
-        const cleanData = dataSet.data.filter(row =>
-            allVars.every(v => typeof row[v] === 'number' && !isNaN(row[v] as number))
-        );
+    const buildTrainingRequest = (config: ModelConfig): TrainingRequest => ({
+        dataSet, rowIndices, dependentVar, independentVars, validation: { ...validation, chronological }, confidenceLevel, modelConfig: config,
+        weightColumn: weightColumn || null, covariance,
+    });
 
-        if (cleanData.length < independentVars.length + 2) {
-            alert('No hay suficientes datos limpios (numéricos y sin valores faltantes) para entrenar el modelo con las variables seleccionadas. Por favor, verifica tu archivo de datos.');
-            return;
-        }
-
-        const y = cleanData.map(row => row[dependentVar] as number);
-        const x = cleanData.map(row => independentVars.map(key => row[key] as number));
-        
+    // One training job at a time; aborting it terminates the worker.
+    const runJob = async (work: (options: ComputeOptions) => Promise<void>, failure: string) => {
+        const controller = new AbortController();
+        setJob(controller);
+        setJobProgress(null);
         try {
-            const model = new MultivariateLinearRegression(x, y);
-
-            if (model.weights.some(w => isNaN(w[0]))) {
-                 alert("Error al entrenar el modelo. Los coeficientes resultantes no son válidos (NaN). Esto puede deberse a una multicolinealidad perfecta (variables predictoras idénticas o muy correlacionadas).");
-                 return;
-            }
-            
-            const predictions = x.map(row => model.predict(row));
-            const yMean = mean(y);
-            const ssTotal = y.reduce((acc, val) => acc + Math.pow(val - yMean, 2), 0);
-
-            if (ssTotal === 0) {
-                alert("No se puede entrenar el modelo: la variable dependiente tiene varianza cero (todos los valores son iguales).");
+            await work({ signal: controller.signal, onProgress: setJobProgress });
+        } catch (error) {
+            if (error instanceof ComputationCancelledError) return;
+            if (error instanceof TrainingError) {
+                alert(error.message);
                 return;
             }
-            
-            const ssResidual = y.reduce((acc, val, i) => acc + Math.pow(val - predictions[i], 2), 0);
-            
-            const n = cleanData.length;
-            const k = independentVars.length;
-            
-            const rSquared = 1 - (ssResidual / ssTotal);
-            const rSquaredAdjusted = 1 - ((1 - rSquared) * (n - 1)) / (n - k - 1);
-            const rmse = Math.sqrt(ssResidual / n);
-
-            const results: ModelResults = {
-                coefficients: model.weights.slice(1).flat(),
-                intercept: model.weights[0][0],
-                rSquared,
-                rSquaredAdjusted,
-                rmse,
-            };
-            onModelTrain(model, results, independentVars, dependentVar);
-        } catch (error) {
-            alert("Ocurrió un error inesperado al entrenar el modelo. Revisa la consola para más detalles.");
+            alert(failure);
             console.error(error);
+        } finally {
+            setJob(null);
         }
     };
+
+    const handleTrainModel = () => runJob(async options => {
+        const { model, results } = await trainModelInWorker(buildTrainingRequest(modelConfig), options);
+        onModelTrain(model, results, independentVars, dependentVar);
+    }, "Ocurrió un error inesperado al entrenar el modelo. Revisa la consola para más detalles.");
+
+    const handleCompareModels = () => runJob(async options => {
+        const attempts = await compareModelsInWorker(LEADERBOARD_CONFIGS.map(buildTrainingRequest), options);
+        setLeaderboard(attempts.map((attempt, i) => ({ config: LEADERBOARD_CONFIGS[i], ...attempt })));
+    }, "Ocurrió un error inesperado al comparar los modelos. Revisa la consola para más detalles.");
+
+    const handleUseLeaderboardModel = (outcome: TrainingOutcome) => {
+        onModelTrain(outcome.model, outcome.results, independentVars, dependentVar);
+    };
+
+    const handleTrainSegments = () => runJob(async options => {
+        const column = segmentColumn;
+        setSegments({ column, results: await trainSegmentsInWorker(buildTrainingRequest(modelConfig), column, options) });
+    }, "Ocurrió un error inesperado al entrenar los segmentos. Revisa la consola para más detalles.");
+
+    const handleUseSegmentModel = (outcome: TrainingOutcome, level: string) => {
+        const segment: FilterCondition = { id: createFilterId(), column: segments?.column ?? segmentColumn, operator: 'is', value: level };
+        onModelTrain(outcome.model, outcome.results, independentVars, dependentVar, segment);
+    };
+
+    const segmentOptions = useMemo(() => segmentColumns(dataSet), [dataSet]);
     
+    useEffect(() => {
+        if (dependentVar && !dataSet.numericHeaders.includes(dependentVar)) {
+            setDependentVar('');
+        }
+        setIndependentVars(prev => prev.every(v => dataSet.numericHeaders.includes(v)) ? prev : prev.filter(v => dataSet.numericHeaders.includes(v)));
+        if (weightColumn && (weightColumn === dependentVar || !dataSet.numericHeaders.includes(weightColumn))) {
+            setWeightColumn('');
+        }
+    }, [dataSet.numericHeaders, dependentVar, weightColumn]);
+
+    const [collinearity, setCollinearity] = useState<CollinearityResult | null>(null);
+    useEffect(() => {
+        setCollinearity(null);
+        if (!dependentVar || independentVars.length < 2) return;
+        const rows = selectCompleteRows(dataSet.data, [dependentVar, ...independentVars]);
+        if (rows.length < independentVars.length + 2) return;
+        const controller = new AbortController();
+        computeCollinearityInWorker(rows.map(row => independentVars.map(key => row[key] as number)), independentVars, { signal: controller.signal })
+            .then(setCollinearity)
+            .catch(error => {
+                if (!(error instanceof ComputationCancelledError)) console.error(error);
+            });
+        return () => controller.abort();
+    }, [dataSet.data, dependentVar, independentVars]);
+
     const handleIndependentVarToggle = (varName: string) => {
         setIndependentVars(prev => 
             prev.includes(varName) ? prev.filter(v => v !== varName) : [...prev, varName]
@@ -382,6 +527,10 @@ const ModelTrainer: React.FC<ModelTrainerProps> = ({ dataSet, onModelTrain, sugg
     };
     
     const availableIndependentVars = dataSet.numericHeaders.filter(h => h !== dependentVar);
+    const droppedRows = useMemo(() => {
+        const columns = [dependentVar, ...independentVars, weightColumn].filter(Boolean);
+        return columns.length === 0 ? 0 : dataSet.data.length - selectCompleteRowIndices(dataSet.data, columns).length;
+    }, [dataSet.data, dependentVar, independentVars, weightColumn]);
 
     return (
         <>
@@ -405,31 +554,215 @@ const ModelTrainer: React.FC<ModelTrainerProps> = ({ dataSet, onModelTrain, sugg
                     </div>
                 </div>
             </div>
-            <button onClick={handleTrainModel} disabled={!dependentVar || independentVars.length === 0} className="w-full px-6 py-3 bg-cyan-600 hover:bg-cyan-700 text-white font-bold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
-                Entrenar Modelo de Regresión
-            </button>
+            {droppedRows > 0 && (
+                <p className="mb-6 -mt-3 text-amber-400 text-sm">
+                    {droppedRows} de {dataSet.data.length} filas ({((droppedRows / dataSet.data.length) * 100).toFixed(1)}%) tienen valores faltantes o no numéricos en las variables elegidas y se descartarán al entrenar. Puedes imputarlos en Ingeniería de Variables.
+                </p>
+            )}
+            {dependentVar && (
+                <VariableSelection
+                    key={dependentVar}
+                    dataSet={dataSet}
+                    dependentVar={dependentVar}
+                    candidates={availableIndependentVars}
+                    onApply={setIndependentVars}
+                />
+            )}
+            {collinearity && (
+                <CollinearityReport report={collinearity} onDropVariable={handleIndependentVarToggle} />
+            )}
+            <div className="mb-6">
+                <h3 className="mb-2 text-sm font-medium text-slate-300">3. División del Dataset</h3>
+                <div className="grid sm:grid-cols-3 gap-4 p-3 bg-slate-700/50 rounded-lg">
+                    <div>
+                        <label htmlFor="validation-mode" className="block mb-1 text-xs text-slate-400">Método de validación</label>
+                        <select id="validation-mode" value={validation.mode} onChange={e => setValidation(prev => ({ ...prev, mode: e.target.value as ValidationMode }))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2">
+                            <option value="holdout">{chronological ? 'Entrenamiento / Prueba (cronológica)' : 'Entrenamiento / Prueba'}</option>
+                            <option value="kfold">{chronological ? 'Ventana creciente (k cortes)' : 'Validación cruzada (k-fold)'}</option>
+                        </select>
+                    </div>
+                    {validation.mode === 'holdout' ? (
+                        <div>
+                            <label htmlFor="test-ratio" className="block mb-1 text-xs text-slate-400">Proporción de prueba: {Math.round(validation.testRatio * 100)}%</label>
+                            <input type="range" id="test-ratio" min={0.1} max={0.5} step={0.05} value={validation.testRatio} onChange={e => setValidation(prev => ({ ...prev, testRatio: parseFloat(e.target.value) }))} className="w-full accent-cyan-500" />
+                        </div>
+                    ) : (
+                        <div>
+                            <label htmlFor="k-folds" className="block mb-1 text-xs text-slate-400">Número de particiones (k)</label>
+                            <input type="number" id="k-folds" min={2} max={20} value={validation.folds} onChange={e => setValidation(prev => ({ ...prev, folds: parseInt(e.target.value, 10) || 2 }))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2" />
+                        </div>
+                    )}
+                    {chronological ? (
+                        <p className="text-xs text-slate-400 self-center">
+                            {validation.mode === 'holdout'
+                                ? 'Las filas más recientes forman el conjunto de prueba.'
+                                : 'Cada corte entrena con todo el pasado y prueba con el bloque siguiente.'}
+                        </p>
+                    ) : (
+                        <div>
+                            <label htmlFor="split-seed" className="block mb-1 text-xs text-slate-400">Semilla aleatoria</label>
+                            <input type="number" id="split-seed" value={validation.seed} onChange={e => setValidation(prev => ({ ...prev, seed: parseInt(e.target.value, 10) || 0 }))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2" />
+                        </div>
+                    )}
+                </div>
+            </div>
+            <div className="mb-6">
+                <label htmlFor="confidence-level" className="block mb-2 text-sm font-medium text-slate-300">4. Nivel de Confianza para Intervalos</label>
+                <select id="confidence-level" value={confidenceLevel} onChange={e => setConfidenceLevel(parseFloat(e.target.value))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full sm:w-48 p-2.5">
+                    <option value={0.9}>90%</option>
+                    <option value={0.95}>95%</option>
+                    <option value={0.99}>99%</option>
+                </select>
+            </div>
+            <div className="mb-6">
+                <h3 className="mb-2 text-sm font-medium text-slate-300">5. Tipo de Modelo</h3>
+                <div className="grid sm:grid-cols-3 gap-4 p-3 bg-slate-700/50 rounded-lg">
+                    <div>
+                        <label htmlFor="model-type" className="block mb-1 text-xs text-slate-400">Algoritmo</label>
+                        <select id="model-type" value={modelConfig.type} onChange={e => setModelConfig(prev => ({ ...prev, type: e.target.value as ModelType }))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2">
+                            {(Object.keys(MODEL_LABELS) as ModelType[]).map(type => <option key={type} value={type}>{MODEL_LABELS[type]}</option>)}
+                        </select>
+                    </div>
+                    {modelConfig.type === 'polynomial' && (
+                        <div>
+                            <label htmlFor="model-degree" className="block mb-1 text-xs text-slate-400">Grado del polinomio</label>
+                            <input type="number" id="model-degree" min={2} max={4} value={modelConfig.degree} onChange={e => setModelConfig(prev => ({ ...prev, degree: Math.min(4, Math.max(2, parseInt(e.target.value, 10) || 2)) }))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2" />
+                        </div>
+                    )}
+                    {modelConfig.type === 'elasticNet' && (
+                        <div>
+                            <label htmlFor="model-alpha" className="block mb-1 text-xs text-slate-400">Mezcla L1/L2 (α): {modelConfig.alpha.toFixed(2)}</label>
+                            <input type="range" id="model-alpha" min={0.05} max={0.95} step={0.05} value={modelConfig.alpha} onChange={e => setModelConfig(prev => ({ ...prev, alpha: parseFloat(e.target.value) }))} className="w-full accent-cyan-500" />
+                        </div>
+                    )}
+                    {isPenalized(modelConfig.type) && (
+                        <p className="text-xs text-slate-400 self-center">λ se elige por validación cruzada ({LAMBDA_CV_FOLDS} particiones) sobre el conjunto de entrenamiento.</p>
+                    )}
+                    {isRobust(modelConfig.type) && (
+                        <p className="text-xs text-slate-400 self-center">
+                            Mínimos cuadrados reponderados: las filas con residuos grandes (p. ej. picos de promoción) pierden peso
+                            {modelConfig.type === 'bisquare' ? ' y las extremas se ignoran' : ''}. Se muestra junto al ajuste MCO.
+                        </p>
+                    )}
+                </div>
+                <div className="grid sm:grid-cols-3 gap-4 p-3 mt-3 bg-slate-700/50 rounded-lg">
+                    <div>
+                        <label htmlFor="weight-column" className="block mb-1 text-xs text-slate-400">Pesos por fila (mínimos cuadrados ponderados)</label>
+                        <select id="weight-column" value={weightColumn} disabled={isPenalized(modelConfig.type)} onChange={e => setWeightColumn(e.target.value)} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2 disabled:opacity-50">
+                            <option value="">Sin pesos</option>
+                            {availableIndependentVars.map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="covariance-type" className="block mb-1 text-xs text-slate-400">Errores estándar</label>
+                        <select id="covariance-type" value={covariance} disabled={isPenalized(modelConfig.type)} onChange={e => setCovariance(e.target.value as CovarianceType)} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2 disabled:opacity-50">
+                            {(Object.keys(COVARIANCE_LABELS) as CovarianceType[]).map(type => <option key={type} value={type}>{COVARIANCE_LABELS[type]}</option>)}
+                        </select>
+                    </div>
+                    <p className="text-xs text-slate-400 self-center">
+                        Si la varianza crece con el tamaño de la tienda, pondera cada fila por el inverso de esa varianza (p. ej. 1/tamaño)
+                        o usa errores HC, que siguen siendo válidos con heterocedasticidad.
+                    </p>
+                </div>
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+                <button onClick={handleTrainModel} disabled={!dependentVar || independentVars.length === 0 || !!job} className="sm:col-span-2 w-full px-6 py-3 bg-cyan-600 hover:bg-cyan-700 text-white font-bold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Entrenar Modelo de Regresión
+                </button>
+                <button onClick={handleCompareModels} disabled={!dependentVar || independentVars.length === 0 || !!job} className="w-full px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Comparar Modelos
+                </button>
+            </div>
+            {job && <div className="mt-4"><TaskProgressBar progress={jobProgress} onCancel={() => job.abort()} /></div>}
+            {leaderboard && <ModelLeaderboard entries={leaderboard} onUseModel={handleUseLeaderboardModel} />}
+            {segmentOptions.length > 0 && (
+                <div className="mt-6">
+                    <h3 className="mb-2 text-sm font-medium text-slate-300">Modelos por Segmento (opcional)</h3>
+                    <div className="grid sm:grid-cols-3 gap-4 p-3 bg-slate-700/50 rounded-lg items-end">
+                        <div>
+                            <label htmlFor="segment-column" className="block mb-1 text-xs text-slate-400">Agrupar por</label>
+                            <select id="segment-column" value={segmentColumn} onChange={e => setSegmentColumn(e.target.value)} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2">
+                                <option value="">-- Región, línea de producto, etc. --</option>
+                                {segmentOptions.map(h => <option key={h} value={h}>{h}</option>)}
+                            </select>
+                        </div>
+                        <button onClick={handleTrainSegments} disabled={!segmentColumn || !dependentVar || independentVars.length === 0 || !!job} className="w-full px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            Entrenar un modelo por segmento
+                        </button>
+                        <p className="text-xs text-slate-400">Entrena el modelo elegido arriba por separado para cada valor de la columna.</p>
+                    </div>
+                    {segments && <SegmentModels column={segments.column} segments={segments.results} onUseModel={handleUseSegmentModel} />}
+                </div>
+            )}
         </>
     );
 };
 
-const Predictor: React.FC<{ model: TrainedModel; results: ModelResults; independentVars: string[]; dependentVar: string; }> = ({ model, results, independentVars, dependentVar }) => {
-    const [inputs, setInputs] = useState<Record<string, number>>(
-        independentVars.reduce((acc, v) => ({...acc, [v]: 0}), {})
+const metricLabels: { key: keyof RegressionMetrics; label: string }[] = [
+    { key: 'rSquared', label: 'R²' },
+    { key: 'rmse', label: 'RMSE' },
+    { key: 'mae', label: 'MAE' },
+    { key: 'mape', label: 'MAPE (%)' },
+];
+
+const formatMetric = (value: number) => isNaN(value) ? 'N/A' : value.toFixed(4);
+
+interface PredictorProps {
+    model: TrainedModel;
+    results: ModelResults;
+    independentVars: string[];
+    dependentVar: string;
+    featureSteps: FeatureStep[];
+    /** Training ranges of the raw inputs; empty for models saved without them. */
+    inputStats: DescriptiveStats;
+    onPrediction: (record: PredictionRecord) => void;
+    scenarios: Scenario[];
+    onScenariosChange: (scenarios: Scenario[]) => void;
+}
+
+const formatForecast = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const Predictor: React.FC<PredictorProps> = ({
+    model, results, independentVars, dependentVar, featureSteps, inputStats, onPrediction, scenarios, onScenariosChange
+}) => {
+    // Derived columns are computed from these raw inputs, so users type the original values.
+    const inputColumns = useMemo(() => requiredInputColumns(independentVars, featureSteps), [independentVars, featureSteps]);
+    const categoricalLevels = useMemo(() => categoricalInputLevels(featureSteps, inputColumns), [featureSteps, inputColumns]);
+    const imputed = useMemo(() => imputedColumns(featureSteps), [featureSteps]);
+    const dateInputs = useMemo(() => dateInputColumns(featureSteps), [featureSteps]);
+    // Numeric inputs start at their training mean rather than 0, which is often far outside the data.
+    const defaults = useMemo(
+        () => defaultInputs(inputColumns, inputStats, v => categoricalLevels[v]?.[0] ?? (dateInputs.includes(v) ? '' : 0)),
+        [inputColumns, inputStats, categoricalLevels, dateInputs]
+    );
+    const [inputs, setInputs] = useState<DataRow>(defaults);
+    const [prediction, setPrediction] = useState<IntervalPrediction | null>(null);
+    const scoring = useMemo(() => ({ model, inference: results.inference, independentVars, featureSteps }), [model, results.inference, independentVars, featureSteps]);
+    const extrapolations = useMemo(() => findExtrapolations(inputs, inputStats), [inputs, inputStats]);
+    // Inverse mode solves for inputs that reach a target; only plain numeric inputs can vary.
+    const [mode, setMode] = useState<'forward' | 'inverse'>('forward');
+    const goalColumns = useMemo(
+        () => inputColumns.filter(v => !categoricalLevels[v] && !dateInputs.includes(v)),
+        [inputColumns, categoricalLevels, dateInputs]
     );
-    const [prediction, setPrediction] = useState<number | null>(null);
 
     const handleInputChange = (varName: string, value: string) => {
-        setInputs(prev => ({ ...prev, [varName]: parseFloat(value) || 0 }));
+        // Imputed columns may be left blank; the stored imputation rule fills them in.
+        const blank = imputed.includes(varName) && value.trim() === '';
+        const text = blank || categoricalLevels[varName] || dateInputs.includes(varName);
+        setInputs(prev => ({ ...prev, [varName]: text ? value : parseFloat(value) || 0 }));
     };
 
     const handlePredict = () => {
-        const inputValues = independentVars.map(v => inputs[v]);
-        if (inputValues.some(isNaN)) {
+        const row = applyFeatureStepsToRow(inputs, featureSteps);
+        const inputValues = independentVars.map(v => row[v] as number);
+        if (inputValues.some(v => typeof v !== 'number' || isNaN(v))) {
             alert('Por favor, ingresa valores numéricos válidos.');
             return;
         }
-        const pred = model.predict(inputValues);
-        setPrediction(pred);
+        const result = predictWithIntervals(model, results.inference, inputValues);
+        setPrediction(result);
+        onPrediction({ ...result, dependentVar, inputs: { ...inputs }, madeAt: new Date().toISOString() });
     };
 
     return (
@@ -438,45 +771,184 @@ const Predictor: React.FC<{ model: TrainedModel; results: ModelResults; independ
             <div>
                 <h3 className="text-lg font-semibold mb-4 text-slate-300">Resultados del Modelo</h3>
                 <div className="space-y-3">
-                    <div className="flex justify-between p-3 bg-slate-700/50 rounded-lg"><span>R² (R-squared):</span> <span className="font-mono text-cyan-400">{results.rSquared.toFixed(4)}</span></div>
                     <div className="flex justify-between p-3 bg-slate-700/50 rounded-lg"><span>R² Ajustado:</span> <span className="font-mono text-cyan-400">{results.rSquaredAdjusted.toFixed(4)}</span></div>
-                    <div className="flex justify-between p-3 bg-slate-700/50 rounded-lg"><span>RMSE:</span> <span className="font-mono text-cyan-400">{results.rmse.toFixed(4)}</span></div>
                     <div className="flex justify-between p-3 bg-slate-700/50 rounded-lg"><span>Intercepto:</span> <span className="font-mono text-cyan-400">{results.intercept.toFixed(4)}</span></div>
                 </div>
-                <h4 className="text-md font-semibold mt-6 mb-2 text-slate-300">Coeficientes</h4>
-                <div className="space-y-2">
-                {independentVars.map((v, i) => (
-                    <div key={v} className="flex justify-between p-2 bg-slate-700/50 rounded"><span>{v}:</span> <span className="font-mono text-sky-400">{results.coefficients[i].toFixed(4)}</span></div>
-                ))}
+                <h4 className="text-md font-semibold mt-6 mb-2 text-slate-300">Evaluación ({results.validation.mode === 'holdout' ? `prueba ${Math.round(results.validation.testRatio * 100)}%` : `${results.validation.folds}-fold`}, {results.validation.chronological ? 'orden cronológico' : `semilla ${results.validation.seed}`})</h4>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left text-slate-400">
+                        <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                            <tr>
+                                <th scope="col" className="px-4 py-2">Métrica</th>
+                                <th scope="col" className="px-4 py-2">Entrenamiento (n={results.trainSize})</th>
+                                <th scope="col" className="px-4 py-2">{results.validation.mode === 'holdout' ? `Prueba (n=${results.testSize})` : 'Validación cruzada'}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {metricLabels.map(({ key, label }) => (
+                                <tr key={key} className="bg-slate-800 border-b border-slate-700">
+                                    <td className="px-4 py-2 font-medium text-slate-200">{label}</td>
+                                    <td className="px-4 py-2 font-mono text-cyan-400">{formatMetric(results.trainMetrics[key])}</td>
+                                    <td className="px-4 py-2 font-mono text-cyan-400">
+                                        {formatMetric(results.testMetrics[key])}
+                                        {results.foldSummary && <span className="text-slate-500"> ± {formatMetric(results.foldSummary.std[key])}</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
                 </div>
+                {results.folds.length > 0 && (
+                    <>
+                        <h4 className="text-md font-semibold mt-6 mb-2 text-slate-300">Resultados por Partición</h4>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-xs text-left text-slate-400">
+                                <thead className="text-slate-300 uppercase bg-slate-700">
+                                    <tr>
+                                        <th scope="col" className="px-3 py-2">Fold</th>
+                                        <th scope="col" className="px-3 py-2">n prueba</th>
+                                        {metricLabels.map(({ key, label }) => <th key={key} scope="col" className="px-3 py-2">{label}</th>)}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {results.folds.map(fold => (
+                                        <tr key={fold.fold} className="bg-slate-800 border-b border-slate-700">
+                                            <td className="px-3 py-2">{fold.fold}</td>
+                                            <td className="px-3 py-2">{fold.testSize}</td>
+                                            {metricLabels.map(({ key }) => <td key={key} className="px-3 py-2 font-mono">{formatMetric(fold[key])}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
             </div>
             <div>
                  <h3 className="text-lg font-semibold mb-4 text-slate-300">Realizar una Predicción</h3>
+                 {goalColumns.length > 0 && (
+                    <div className="flex mb-4 rounded-lg overflow-hidden border border-slate-600 text-sm font-semibold">
+                        {([['forward', 'Predecir'], ['inverse', 'Buscar objetivo']] as const).map(([value, label]) => (
+                            <button key={value} onClick={() => setMode(value)} className={`flex-1 px-4 py-2 ${mode === value ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                 )}
                  <div className="space-y-4 mb-4">
-                    {independentVars.map(v => (
+                    {inputColumns.map(v => (
                         <div key={v}>
                             <label htmlFor={`pred-${v}`} className="block mb-1 text-sm font-medium text-slate-400">{v}</label>
-                            <input
-                                type="number"
-                                id={`pred-${v}`}
-                                value={inputs[v]}
-                                onChange={(e) => handleInputChange(v, e.target.value)}
-                                className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5"
-                            />
+                            {categoricalLevels[v] ? (
+                                <select
+                                    id={`pred-${v}`}
+                                    value={String(inputs[v])}
+                                    onChange={(e) => handleInputChange(v, e.target.value)}
+                                    className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5"
+                                >
+                                    {imputed.includes(v) && <option value="">(imputar)</option>}
+                                    {categoricalLevels[v].map(level => <option key={level} value={level}>{level}</option>)}
+                                </select>
+                            ) : dateInputs.includes(v) ? (
+                                <input
+                                    type="date"
+                                    id={`pred-${v}`}
+                                    value={String(inputs[v])}
+                                    onChange={(e) => handleInputChange(v, e.target.value)}
+                                    className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5"
+                                />
+                            ) : (
+                                <>
+                                    <input
+                                        type="number"
+                                        id={`pred-${v}`}
+                                        value={inputs[v]}
+                                        min={inputStats[v]?.min}
+                                        max={inputStats[v]?.max}
+                                        placeholder={imputed.includes(v) ? 'Vacío = imputar' : undefined}
+                                        onChange={(e) => handleInputChange(v, e.target.value)}
+                                        className={`bg-slate-700 border text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5 ${extrapolations.some(e => e.column === v) ? 'border-amber-500' : 'border-slate-600'}`}
+                                    />
+                                    {inputStats[v] && inputStats[v].max > inputStats[v].min && (
+                                        <div className="flex items-center gap-2 mt-1">
+                                            <span className="text-xs text-slate-500 font-mono">{formatForecast(inputStats[v].min)}</span>
+                                            <input
+                                                type="range"
+                                                aria-label={`Sensibilidad de ${v}`}
+                                                min={inputStats[v].min}
+                                                max={inputStats[v].max}
+                                                step={(inputStats[v].max - inputStats[v].min) / 100}
+                                                value={typeof inputs[v] === 'number' ? Math.min(inputStats[v].max, Math.max(inputStats[v].min, inputs[v] as number)) : inputStats[v].mean}
+                                                onChange={(e) => handleInputChange(v, e.target.value)}
+                                                className="flex-1 accent-cyan-500"
+                                            />
+                                            <span className="text-xs text-slate-500 font-mono">{formatForecast(inputStats[v].max)}</span>
+                                        </div>
+                                    )}
+                                </>
+                            )}
                         </div>
                     ))}
                  </div>
-                 <button onClick={handlePredict} className="w-full px-6 py-3 bg-green-600 hover:bg-green-700 text-white font-bold rounded-lg shadow-md transition-colors duration-300">
-                    Predecir
-                </button>
-                {prediction !== null && (
-                    <div className="mt-6 text-center p-6 bg-slate-900/50 rounded-xl border border-green-500">
-                        <p className="text-lg text-slate-300">Predicción de <span className="font-bold text-green-400">{dependentVar}</span>:</p>
-                        <p className="text-4xl font-bold text-white mt-2">{prediction.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
-                    </div>
-                )}
+                 {mode === 'inverse' ? (
+                    <GoalSeeker inputs={inputs} columns={goalColumns} inputStats={inputStats} scoring={scoring} dependentVar={dependentVar} onApply={setInputs} />
+                 ) : (
+                 <>
+                     {extrapolations.length > 0 && (
+                        <div className="mb-4 p-3 rounded-lg border border-amber-500/60 bg-amber-900/10 text-sm text-amber-300">
+                            <p className="font-semibold">Extrapolación: hay valores fuera del rango de entrenamiento.</p>
+                            <ul className="list-disc list-inside text-xs mt-1">
+                                {extrapolations.map(e => (
+                                    <li key={e.column}>{e.column} = {formatForecast(e.value)} (observado: {formatForecast(e.min)} – {formatForecast(e.max)})</li>
+                                ))}
+                            </ul>
+                            <p className="text-xs text-amber-400/80 mt-1">El modelo no ha visto datos así; la predicción puede ser poco fiable.</p>
+                        </div>
+                     )}
+                     <button onClick={handlePredict} className="w-full px-6 py-3 bg-green-600 hover:bg-green-700 text-white font-bold rounded-lg shadow-md transition-colors duration-300">
+                        Predecir
+                    </button>
+                    {prediction !== null && (
+                        <div className="mt-6 text-center p-6 bg-slate-900/50 rounded-xl border border-green-500">
+                            <p className="text-lg text-slate-300">Predicción de <span className="font-bold text-green-400">{dependentVar}</span>:</p>
+                            <p className="text-4xl font-bold text-white mt-2">{formatForecast(prediction.value)}</p>
+                            {prediction.intervals ? (
+                                <div className="mt-4 grid grid-cols-2 gap-3 text-sm">
+                                    <div className="p-2 bg-slate-800 rounded-lg">
+                                        <p className="text-slate-400">IC {Math.round(prediction.intervals.confidenceLevel * 100)}% (media)</p>
+                                        <p className="font-mono text-cyan-400">[{formatForecast(prediction.intervals.confidence[0])}, {formatForecast(prediction.intervals.confidence[1])}]</p>
+                                    </div>
+                                    <div className="p-2 bg-slate-800 rounded-lg">
+                                        <p className="text-slate-400">IP {Math.round(prediction.intervals.confidenceLevel * 100)}% (nueva obs.)</p>
+                                        <p className="font-mono text-cyan-400">[{formatForecast(prediction.intervals.prediction[0])}, {formatForecast(prediction.intervals.prediction[1])}]</p>
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="mt-4 text-xs text-slate-500">Los modelos penalizados, ponderados y robustos no ofrecen intervalos analíticos.</p>
+                            )}
+                        </div>
+                    )}
+                 </>
+                 )}
             </div>
         </div>
+        <ScenarioPlanner
+            inputs={inputs}
+            defaults={defaults}
+            inputColumns={inputColumns}
+            inputStats={inputStats}
+            scoring={scoring}
+            dependentVar={dependentVar}
+            scenarios={scenarios}
+            onScenariosChange={onScenariosChange}
+            onLoadScenario={setInputs}
+        />
+        <BatchScoring
+            scoring={scoring}
+            inputColumns={inputColumns}
+            dependentVar={dependentVar}
+        />
+        <RegressionSummary results={results} dependentVar={dependentVar} />
         </>
     );
 };
@@ -550,19 +1022,175 @@ const WorkflowSidebar: React.FC<{ dataSet: DataSet | null, model: any | null }>
 };
 
 export default function App() {
-    const [isLoading, setIsLoading] = useState(false);
+    const [pendingUpload, setPendingUpload] = useState<{ rows: DataRow[]; fileName: string; schema: ColumnSchema[]; warnings: string[] } | null>(null);
     const [dataSet, setDataSet] = useState<DataSet | null>(null);
-    const [model, setModel] = useState<{ model: TrainedModel; results: ModelResults; independentVars: string[], dependentVar: string } | null>(null);
-    const [variableSuggestions, setVariableSuggestions] = useState<{ dependentVar: string; independentVars: string[] } | null>(null);
+    const [model, setModel] = useState<LoadedModel | null>(null);
+    const [variableSuggestions, setVariableSuggestions] = useState<VariableSuggestion | null>(null);
+    const [exclusions, setExclusions] = useState<ExclusionRecord[]>([]);
+    const [featureSteps, setFeatureSteps] = useState<FeatureStep[]>([]);
+    const [timeSeries, setTimeSeries] = useState<TimeSeriesConfig | null>(null);
+    const [undatedRows, setUndatedRows] = useState(0);
+    const [insights, setInsights] = useState('');
+    const [predictions, setPredictions] = useState<PredictionRecord[]>([]);
+    const [aiConfig, setAiConfig] = useState<AiProviderConfig>(() => loadAiConfig() ?? DEFAULT_AI_CONFIGS.heuristic);
+    const [aiRemember, setAiRemember] = useState(() => loadAiConfig() !== null);
+    const [privacyPolicy, setPrivacyPolicy] = useState<AiPrivacyPolicy>(DEFAULT_PRIVACY_POLICY);
+    const [experimentRuns, setExperimentRuns] = useState<ExperimentRun[]>([]);
+    const [scenarios, setScenarios] = useState<Scenario[]>([]);
+    const [filters, setFilters] = useState<FilterCondition[]>([]);
+
+    // The history is a convenience: if IndexedDB is unavailable, runs are kept for the session only.
+    useEffect(() => {
+        // Runs trained before the read finishes are already in state; stored ones are older, so they go first.
+        loadExperimentRuns()
+            .then(stored => setExperimentRuns(prev => {
+                const known = new Set(prev.map(run => run.id));
+                return [...stored.filter(run => !known.has(run.id)), ...prev];
+            }))
+            .catch(() => undefined);
+    }, []);
+
+    useEffect(() => {
+        saveAiConfig(aiConfig, aiRemember);
+    }, [aiConfig, aiRemember]);
 
-    const handleFileParsed = useCallback((newDataSet: DataSet) => {
+    const handleFileRead = useCallback((rows: DataRow[], fileName: string, warnings: string[]) => {
+        setPendingUpload({ rows, fileName, schema: inferSchema(rows), warnings });
+    }, []);
+
+    const handleSchemaConfirmed = useCallback((schema: ColumnSchema[]) => {
+        if (!pendingUpload) return;
+        const newDataSet = applySchema(pendingUpload.rows, schema, pendingUpload.fileName);
+        setPendingUpload(null);
         setDataSet(newDataSet);
         setModel(null);
         setVariableSuggestions(null);
+        setExclusions([]);
+        setFeatureSteps([]);
+        setTimeSeries(null);
+        setUndatedRows(0);
+        setInsights('');
+        setPredictions([]);
+        setScenarios([]);
+        setFilters([]);
+    }, [pendingUpload]);
+
+    const handlePrediction = useCallback((record: PredictionRecord) => {
+        setPredictions(prev => [...prev, record]);
     }, []);
 
-    const handleModelTrain = useCallback((model: TrainedModel, results: ModelResults, independentVars: string[], dependentVar: string) => {
-        setModel({ model, results, independentVars, dependentVar });
+    // Choosing a date column reorders the rows, so row-based state (exclusions, the model's
+    // training rows) is reset. Changing only the frequency keeps everything.
+    const handleTimeSeriesChange = useCallback((config: TimeSeriesConfig | null) => {
+        if (dataSet && config && config.dateColumn !== timeSeries?.dateColumn) {
+            const sorted = sortByDate(dataSet, config.dateColumn);
+            const excludedAt = new Date().toISOString();
+            setDataSet(sorted.dataSet);
+            setExclusions(sorted.undatedRows.map(rowIndex => ({ rowIndex, reason: 'Fecha no válida o vacía', excludedAt })));
+            setUndatedRows(sorted.undatedRows.length);
+            setModel(null);
+        }
+        if (!config) setUndatedRows(0);
+        setTimeSeries(config);
+    }, [dataSet, timeSeries]);
+
+    const handleAddFeatureStep = useCallback((step: FeatureStep) => {
+        setFeatureSteps(prev => insertFeatureStep(prev, step));
+    }, []);
+
+    const handleAddFeatureSteps = useCallback((steps: FeatureStep[]) => {
+        setFeatureSteps(prev => steps.reduce(insertFeatureStep, prev));
+    }, []);
+
+    const handleRemoveFeatureStep = useCallback((id: string) => {
+        setFeatureSteps(prev => {
+            const removed = new Set(dependentStepIds(prev, id));
+            return prev.filter(step => !removed.has(step.id));
+        });
+    }, []);
+
+    const handleExcludeRows = useCallback((rowIndices: number[], reason: string) => {
+        setExclusions(prev => {
+            const alreadyExcluded = new Set(prev.map(e => e.rowIndex));
+            const excludedAt = new Date().toISOString();
+            const added = rowIndices
+                .filter(i => !alreadyExcluded.has(i))
+                .map(rowIndex => ({ rowIndex, reason, excludedAt }));
+            return [...prev, ...added];
+        });
+    }, []);
+
+    const handleRestoreRows = useCallback((rowIndices: number[]) => {
+        const restored = new Set(rowIndices);
+        setExclusions(prev => prev.filter(e => !restored.has(e.rowIndex)));
+    }, []);
+
+    // The dataset the analysis and training steps see, with filtered-out and excluded rows removed.
+    // `activeRowIndices[i]` is the original position of `activeDataSet.data[i]`.
+    const engineeredDataSet = useMemo(() => dataSet && applyFeatureSteps(dataSet, featureSteps), [dataSet, featureSteps]);
+
+    const filteredRowIndices = useMemo(
+        () => (engineeredDataSet ? filterRowIndices(engineeredDataSet, filters) : []),
+        [engineeredDataSet, filters]
+    );
+
+    const { activeDataSet, activeRowIndices } = useMemo(() => {
+        if (!engineeredDataSet) return { activeDataSet: null, activeRowIndices: [] as number[] };
+        const excluded = new Set(exclusions.map(e => e.rowIndex));
+        const indices = filteredRowIndices.filter(i => !excluded.has(i));
+        return {
+            activeDataSet: indices.length === engineeredDataSet.data.length ? engineeredDataSet : { ...engineeredDataSet, data: indices.map(i => engineeredDataSet.data[i]) },
+            activeRowIndices: indices,
+        };
+    }, [engineeredDataSet, filteredRowIndices, exclusions]);
+
+    // Training predictors for the effect plots, rebuilt from the loaded file with the model's own steps.
+    const trainingX = useMemo(() => {
+        if (!model || !dataSet || dataSet.fileName !== model.metadata.fileName) return null;
+        const engineered = applyFeatureSteps(dataSet, model.featureSteps);
+        const x = model.results.trainRowIndices.map(i => model.independentVars.map(v => engineered.data[i]?.[v] as number));
+        return x.every(row => row.every(v => typeof v === 'number' && isFinite(v))) ? x : null;
+    }, [model, dataSet]);
+
+    const forecastModel = useMemo(() => model && {
+        model: model.model,
+        inference: model.results.inference,
+        independentVars: model.independentVars,
+        dependentVar: model.dependentVar,
+        featureSteps: model.featureSteps,
+    }, [model]);
+
+    const handleModelTrain = useCallback((
+        model: TrainedModel, results: ModelResults, independentVars: string[], dependentVar: string, segment?: FilterCondition
+    ) => {
+        const trainingFilters = segment ? [...filters, segment] : filters;
+        const metadata = {
+            fileName: dataSet?.fileName ?? null,
+            rowCount: segment && activeDataSet
+                ? activeDataSet.data.filter(row => String(row[segment.column]) === segment.value).length
+                : activeRowIndices.length,
+            trainedAt: new Date().toISOString(),
+            inputStats: dataSet ? trainingInputStats(dataSet, results.trainRowIndices, requiredInputColumns(independentVars, featureSteps)) : undefined,
+            filters: trainingFilters.length > 0 ? trainingFilters : undefined,
+        };
+        const loaded = { model, results, independentVars, dependentVar, featureSteps, metadata };
+        const run = createExperimentRun(loaded);
+        setModel(loaded);
+        setExperimentRuns(prev => [...prev, run]);
+        saveExperimentRun(run).catch(() => undefined);
+    }, [featureSteps, dataSet, activeDataSet, activeRowIndices, filters]);
+
+    // Runs beyond the cap are pruned here, outside the state updaters, so the deletes see the latest list.
+    useEffect(() => {
+        if (experimentRuns.length <= MAX_EXPERIMENT_RUNS) return;
+        const pruned = experimentRuns.slice(0, experimentRuns.length - MAX_EXPERIMENT_RUNS);
+        pruned.forEach(old => deleteExperimentRun(old.id).catch(() => undefined));
+        setExperimentRuns(prev => prev.filter(run => !pruned.includes(run)));
+    }, [experimentRuns]);
+
+    const handleDeleteRun = useCallback((id: string) => {
+        setExperimentRuns(prev => prev.filter(run => run.id !== id));
+        deleteExperimentRun(id).catch(() => undefined);
     }, []);
     
     return (
@@ -581,32 +1209,145 @@ export default function App() {
 
                 <main className="md:col-span-8 lg:col-span-9">
                     <Section title="1. Cargar Datos" icon={<UploadCloudIcon />}>
-                        <p className="text-slate-400 mb-4">Sube tu archivo de datos en formato CSV o Excel. Asegúrate de que la primera fila contenga los nombres de las columnas.</p>
-                        {isLoading ? 
-                            <div className="flex justify-center items-center h-64"><div className="animate-spin rounded-full h-16 w-16 border-b-2 border-cyan-400"></div></div> : 
-                            <FileUpload onFileParsed={handleFileParsed} setIsLoading={setIsLoading} />
+                        <p className="text-slate-400 mb-4">Sube tu archivo de datos en formato CSV, Excel o JSON, o pega una tabla. Asegúrate de que la primera fila contenga los nombres de las columnas.</p>
+                        {pendingUpload ?
+                            <SchemaEditor
+                                rows={pendingUpload.rows}
+                                fileName={pendingUpload.fileName}
+                                initialSchema={pendingUpload.schema}
+                                warnings={pendingUpload.warnings}
+                                onConfirm={handleSchemaConfirmed}
+                                onCancel={() => setPendingUpload(null)}
+                            /> :
+                            <FileUpload onFileRead={handleFileRead} />
                         }
+                        <ModelImportButton onModelLoaded={setModel} />
                     </Section>
                     
-                    {dataSet && (
+                    {activeDataSet && (
                         <Section title="2. Análisis del Dataset" icon={<BarChartIcon />}>
-                            <AnalysisDisplay dataSet={dataSet} onVariableSuggestions={setVariableSuggestions} />
+                            <h3 className="text-lg font-semibold mb-4 text-slate-300">Filtros</h3>
+                            <FilterBuilder
+                                dataSet={engineeredDataSet as DataSet}
+                                filters={filters}
+                                matchingRows={filteredRowIndices.length}
+                                onFiltersChange={setFilters}
+                            />
+
+                            <div className="mt-8">
+                                {activeDataSet.data.length === 0 ? (
+                                    <p className="text-amber-400 text-sm">Ninguna fila cumple los filtros. Quita o ajusta alguna condición para continuar.</p>
+                                ) : (
+                                    <AnalysisDisplay
+                                        dataSet={activeDataSet}
+                                        rowIndices={activeRowIndices}
+                                        exclusions={exclusions}
+                                        onExcludeRows={handleExcludeRows}
+                                        onRestoreRows={handleRestoreRows}
+                                        onVariableSuggestions={setVariableSuggestions}
+                                        insights={insights}
+                                        onInsightsChange={setInsights}
+                                        aiConfig={aiConfig}
+                                        aiRemember={aiRemember}
+                                        onAiConfigChange={setAiConfig}
+                                        onAiRememberChange={setAiRemember}
+                                        privacyPolicy={privacyPolicy}
+                                        onPrivacyPolicyChange={setPrivacyPolicy}
+                                        featureSteps={featureSteps}
+                                    />
+                                )}
+                            </div>
+
+                            <h3 className="text-lg font-semibold mt-8 mb-4 text-slate-300">Serie Temporal</h3>
+                            <TimeSeriesPanel
+                                dataSet={engineeredDataSet as DataSet}
+                                config={timeSeries}
+                                undatedRows={undatedRows}
+                                onConfigChange={handleTimeSeriesChange}
+                                onAddSteps={handleAddFeatureSteps}
+                            />
+
+                            <h3 className="text-lg font-semibold mt-8 mb-4 text-slate-300">Ingeniería de Variables</h3>
+                            <FeatureBuilder
+                                dataSet={engineeredDataSet as DataSet}
+                                steps={featureSteps}
+                                onAddStep={handleAddFeatureStep}
+                                onRemoveStep={handleRemoveFeatureStep}
+                            />
                         </Section>
                     )}
                     
-                    {dataSet && (
+                    {activeDataSet && (
                         <Section title="3. Entrenar Modelo" icon={<BrainCircuitIcon />}>
-                            <ModelTrainer dataSet={dataSet} onModelTrain={handleModelTrain} suggestions={variableSuggestions} />
+                            <ModelTrainer dataSet={activeDataSet} rowIndices={activeRowIndices} onModelTrain={handleModelTrain} suggestions={variableSuggestions} chronological={!!timeSeries} />
+
+                            <h3 className="text-lg font-semibold mt-8 mb-4 text-slate-300">Historial de Experimentos</h3>
+                            <ExperimentHistory runs={experimentRuns} activeModel={model} onActivate={run => setModel(run.loaded)} onDelete={handleDeleteRun} />
                         </Section>
                     )}
 
                     {model && (
                         <Section title="4. Predecir Ventas" icon={<TargetIcon />}>
+                            <ModelExportButton loaded={model} />
                             <Predictor 
+                                key={`${model.dependentVar}~${model.independentVars.join('|')}~${model.metadata.trainedAt}`}
                                 model={model.model} 
                                 results={model.results} 
                                 independentVars={model.independentVars} 
                                 dependentVar={model.dependentVar}
+                                featureSteps={model.featureSteps}
+                                inputStats={model.metadata.inputStats ?? {}}
+                                onPrediction={handlePrediction}
+                                scenarios={scenarios}
+                                onScenariosChange={setScenarios}
+                            />
+                            <ModelCharts
+                                model={model.model}
+                                results={model.results}
+                                independentVars={model.independentVars}
+                                dependentVar={model.dependentVar}
+                                trainingX={trainingX}
+                            />
+                            {timeSeries && dataSet && dataSet.fileName === model.metadata.fileName && (
+                                <ForecastPanel
+                                    dataSet={dataSet}
+                                    forecastModel={forecastModel}
+                                    config={timeSeries}
+                                    autocorrelation={model.results.diagnostics.autocorrelation}
+                                />
+                            )}
+                        </Section>
+                    )}
+
+                    {model && (
+                        <Section title="5. Diagnóstico de Supuestos" icon={<ShieldCheckIcon />}>
+                            <DiagnosticsPanel results={model.results} />
+                            {dataSet && dataSet.fileName === model.metadata.fileName && model.results.influence.length > 0 && (
+                                <InfluencePanel
+                                    influence={model.results.influence}
+                                    exclusions={exclusions}
+                                    onExcludeRows={handleExcludeRows}
+                                />
+                            )}
+                        </Section>
+                    )}
+
+                    {model && (
+                        <Section title="6. Interpretación de Resultados" icon={<LightbulbIcon />}>
+                            <InterpretationPanel key={model.metadata.trainedAt} loaded={model} aiConfig={aiConfig} privacyPolicy={privacyPolicy} />
+                        </Section>
+                    )}
+
+                    {activeDataSet && (
+                        <Section title="7. Informe del Análisis" icon={<ClipboardListIcon />}>
+                            <ReportExport
+                                dataSet={activeDataSet}
+                                excludedRows={exclusions.length}
+                                featureSteps={featureSteps}
+                                timeSeries={timeSeries}
+                                insights={insights}
+                                model={model}
+                                predictions={predictions}
                             />
                         </Section>
                     )}
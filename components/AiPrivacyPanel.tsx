@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import type { AiPayloadMode, AiPrivacyPolicy, ColumnPrivacy } from '../types';
+import type { DatasetContext } from '../services/aiCommon';
+import { previewAiPayload } from '../services/aiService';
+import { COLUMN_PRIVACY_LABELS, MAX_SAMPLE_ROWS, PAYLOAD_MODE_LABELS } from '../services/privacyService';
+
+const inputClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2';
+
+interface AiPrivacyPanelProps {
+    policy: AiPrivacyPolicy;
+    /** Full, unfiltered context; the panel shows what survives the policy. */
+    context: DatasetContext;
+    onPolicyChange: (policy: AiPrivacyPolicy) => void;
+}
+
+export const AiPrivacyPanel: React.FC<AiPrivacyPanelProps> = ({ policy, context, onPolicyChange }) => {
+    const preview = useMemo(() => previewAiPayload(policy, context), [policy, context]);
+    const update = (changes: Partial<AiPrivacyPolicy>) => onPolicyChange({ ...policy, ...changes });
+    const setRule = (column: string, rule: ColumnPrivacy) => {
+        const { [column]: _, ...rest } = policy.columnRules;
+        update({ columnRules: rule === 'send' ? rest : { ...rest, [column]: rule } });
+    };
+
+    return (
+        <div className="mb-4 p-4 bg-slate-700/50 rounded-lg">
+            <h4 className="text-sm font-semibold text-slate-200 mb-3">Privacidad de los datos enviados</h4>
+            <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="ai-payload-mode" className="block mb-1 text-xs text-slate-400">Contenido</label>
+                    <select id="ai-payload-mode" value={policy.mode} onChange={e => update({ mode: e.target.value as AiPayloadMode })} className={inputClassName}>
+                        {(Object.keys(PAYLOAD_MODE_LABELS) as AiPayloadMode[]).map(mode => <option key={mode} value={mode}>{PAYLOAD_MODE_LABELS[mode]}</option>)}
+                    </select>
+                </div>
+                {policy.mode === 'samples' && (
+                    <div>
+                        <label htmlFor="ai-max-rows" className="block mb-1 text-xs text-slate-400">Máximo de filas de muestra</label>
+                        <input
+                            id="ai-max-rows" type="number" min={0} max={MAX_SAMPLE_ROWS} value={policy.maxSampleRows}
+                            onChange={e => update({ maxSampleRows: Math.min(MAX_SAMPLE_ROWS, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                            className={inputClassName}
+                        />
+                    </div>
+                )}
+            </div>
+            {policy.mode === 'samples' && (
+                <div className="mt-4 max-h-56 overflow-auto">
+                    <table className="w-full text-xs text-left text-slate-400">
+                        <thead className="text-slate-300 uppercase bg-slate-700 sticky top-0">
+                            <tr>
+                                <th scope="col" className="px-3 py-2">Columna</th>
+                                <th scope="col" className="px-3 py-2">Valores en las filas de muestra</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {context.headers.map(column => (
+                                <tr key={column} className="bg-slate-800 border-b border-slate-700">
+                                    <td className="px-3 py-1.5 font-medium text-slate-200">{column}</td>
+                                    <td className="px-3 py-1.5">
+                                        <select
+                                            aria-label={`Tratamiento de ${column}`}
+                                            value={policy.columnRules[column] ?? 'send'}
+                                            onChange={e => setRule(column, e.target.value as ColumnPrivacy)}
+                                            className="bg-slate-700 border border-slate-600 text-white text-xs rounded p-1"
+                                        >
+                                            {(Object.keys(COLUMN_PRIVACY_LABELS) as ColumnPrivacy[]).map(rule => <option key={rule} value={rule}>{COLUMN_PRIVACY_LABELS[rule]}</option>)}
+                                        </select>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-slate-500 mt-2">
+                        El hash sustituye cada valor por un código que se repite para valores iguales; no es cifrado y los valores cortos pueden adivinarse.
+                    </p>
+                </div>
+            )}
+            {preview.leaks.length > 0 && (
+                <p className="mt-4 text-xs text-rose-400">
+                    La vista previa aún contiene valores de columnas protegidas ({preview.leaks.join(', ')}); no se enviará nada al proveedor.
+                </p>
+            )}
+            <details className="mt-4">
+                <summary className="cursor-pointer text-sm text-cyan-400 hover:text-cyan-300">Vista previa de lo que se enviará</summary>
+                <p className="text-xs text-slate-500 mt-2">Análisis del dataset:</p>
+                <pre className="mt-1 p-3 bg-slate-900/60 rounded text-xs text-slate-300 whitespace-pre-wrap break-all max-h-64 overflow-auto">{preview.insights}</pre>
+                <p className="text-xs text-slate-500 mt-2">Sugerencia de variables:</p>
+                <pre className="mt-1 p-3 bg-slate-900/60 rounded text-xs text-slate-300 whitespace-pre-wrap break-all max-h-64 overflow-auto">{preview.suggestion}</pre>
+            </details>
+        </div>
+    );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { AiProviderConfig, AiProviderKind } from '../types';
+import { AI_PROVIDER_LABELS, DEFAULT_AI_CONFIGS, LOCAL_SERVER_HINT } from '../services/aiService';
+
+const inputClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2';
+
+interface AiProviderSettingsProps {
+    config: AiProviderConfig;
+    /** Whether the configuration, key included, is saved in this browser. */
+    remember: boolean;
+    onConfigChange: (config: AiProviderConfig) => void;
+    onRememberChange: (remember: boolean) => void;
+}
+
+export const AiProviderSettings: React.FC<AiProviderSettingsProps> = ({ config, remember, onConfigChange, onRememberChange }) => {
+    const update = (changes: Partial<AiProviderConfig>) => onConfigChange({ ...config, ...changes });
+    const isRemote = config.kind !== 'heuristic';
+
+    return (
+        <div className="mb-4 p-4 bg-slate-700/50 rounded-lg">
+            <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="ai-provider" className="block mb-1 text-xs text-slate-400">Proveedor</label>
+                    <select id="ai-provider" value={config.kind} onChange={e => onConfigChange(DEFAULT_AI_CONFIGS[e.target.value as AiProviderKind])} className={inputClassName}>
+                        {(Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[]).map(kind => <option key={kind} value={kind}>{AI_PROVIDER_LABELS[kind]}</option>)}
+                    </select>
+                </div>
+                {isRemote && (
+                    <div>
+                        <label htmlFor="ai-model" className="block mb-1 text-xs text-slate-400">Modelo</label>
+                        <input id="ai-model" type="text" value={config.model} onChange={e => update({ model: e.target.value })} className={inputClassName} />
+                    </div>
+                )}
+                {config.kind === 'openai' && (
+                    <div>
+                        <label htmlFor="ai-base-url" className="block mb-1 text-xs text-slate-400">URL base de la API</label>
+                        <input id="ai-base-url" type="url" value={config.baseUrl} placeholder={LOCAL_SERVER_HINT} onChange={e => update({ baseUrl: e.target.value })} className={inputClassName} />
+                    </div>
+                )}
+                {isRemote && (
+                    <div>
+                        <label htmlFor="ai-api-key" className="block mb-1 text-xs text-slate-400">
+                            Clave de API{config.kind === 'openai' && ' (opcional para servidores locales)'}
+                        </label>
+                        <input id="ai-api-key" type="password" autoComplete="off" value={config.apiKey} onChange={e => update({ apiKey: e.target.value })} className={inputClassName} />
+                    </div>
+                )}
+            </div>
+            {isRemote ? (
+                <>
+                    <label className="flex items-center gap-2 mt-3 text-sm text-slate-300">
+                        <input type="checkbox" checked={remember} onChange={e => onRememberChange(e.target.checked)} className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600" />
+                        Recordar en este navegador
+                    </label>
+                    <p className="text-xs text-slate-500 mt-2">
+                        El esquema y las estadísticas (y las filas de muestra, si lo permites abajo) se envían al proveedor elegido. Si no responde,
+                        se usa el análisis local. Sin "Recordar", la clave solo se guarda en memoria hasta cerrar la página.
+                    </p>
+                </>
+            ) : (
+                <p className="text-xs text-slate-500 mt-3">
+                    El análisis local usa reglas estadísticas en el navegador: funciona sin conexión y no envía datos a ningún servicio.
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { ScoredRow, TaskProgress } from '../types';
+import { sheetToRows, downloadRows, FileParseError, DATA_FILE_ACCEPT } from '../services/fileService';
+import { readDataSourceInWorker, ComputationCancelledError } from '../services/computeClient';
+import { scoreRows, missingInputColumns, scoredRowsToTable } from '../services/predictionService';
+import type { ScoringModel } from '../services/predictionService';
+import { TaskProgressBar } from './TaskProgressBar';
+
+const PREVIEW_ROWS = 50;
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface BatchScoringProps {
+    scoring: ScoringModel;
+    inputColumns: string[];
+    dependentVar: string;
+}
+
+export const BatchScoring: React.FC<BatchScoringProps> = ({ scoring, inputColumns, dependentVar }) => {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [scored, setScored] = useState<ScoredRow[]>([]);
+    const [missing, setMissing] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    // Set while the file is read in the compute worker; aborting it cancels the read.
+    const [reading, setReading] = useState<AbortController | null>(null);
+    const [readProgress, setReadProgress] = useState<TaskProgress | null>(null);
+
+    const handleFile = (file: File) => {
+        const controller = new AbortController();
+        setError(null);
+        setReading(controller);
+        setReadProgress(null);
+        readDataSourceInWorker(file, { signal: controller.signal, onProgress: setReadProgress })
+            .then(source => {
+                // Workbooks are scored from their first sheet.
+                const rows = source.kind === 'rows' ? source.rows : sheetToRows(source.workbook, source.workbook.SheetNames[0], 1);
+                if (rows.length === 0) throw new FileParseError('El archivo está vacío o no tiene datos.');
+                setFileName(file.name);
+                setHeaders([...new Set(rows.flatMap(row => Object.keys(row)))]);
+                setMissing(missingInputColumns(rows, inputColumns));
+                setScored(scoreRows(rows, inputColumns, scoring));
+            })
+            .catch(err => {
+                if (err instanceof ComputationCancelledError) return;
+                setScored([]);
+                setError(err instanceof FileParseError ? err.message : 'Error al leer el archivo.');
+            })
+            .finally(() => setReading(null));
+    };
+
+    const handleDownload = () => {
+        if (!fileName) return;
+        const table = scoredRowsToTable(scored, headers, dependentVar);
+        const extension = fileName.toLowerCase().endsWith('.xlsx') ? '.xlsx' : '.csv';
+        downloadRows(table.rows, table.headers, fileName.replace(/\.[^.]+$/, '') + '_predicciones' + extension);
+    };
+
+    const validCount = scored.filter(s => s.result).length;
+    const level = scored.find(s => s.result?.intervals)?.result?.intervals?.confidenceLevel;
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-2 text-slate-300">Predicción por Lotes</h3>
+            <p className="text-sm text-slate-400 mb-3">
+                Sube un CSV, Excel o JSON con las columnas <span className="font-mono text-cyan-400">{inputColumns.join(', ')}</span>. Cada fila se valida y se puntúa; el archivo descargado añade la predicción y sus intervalos.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+                <label className="px-4 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-semibold rounded-lg cursor-pointer">
+                    Subir archivo
+                    <input type="file" className="hidden" accept={DATA_FILE_ACCEPT} disabled={!!reading} onChange={e => { if (e.target.files?.[0]) handleFile(e.target.files[0]); e.target.value = ''; }} />
+                </label>
+                {scored.length > 0 && (
+                    <button onClick={handleDownload} className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white text-sm font-semibold rounded-lg">
+                        Descargar resultados
+                    </button>
+                )}
+                {fileName && scored.length > 0 && (
+                    <span className="text-sm text-slate-400">{fileName}: {validCount} de {scored.length} filas puntuadas</span>
+                )}
+            </div>
+            {reading && <div className="mt-3"><TaskProgressBar progress={readProgress} onCancel={() => reading.abort()} /></div>}
+            {error && <p className="text-rose-400 mt-2 text-sm">{error}</p>}
+            {missing.length > 0 && (
+                <p className="text-amber-400 mt-2 text-sm">Columnas requeridas ausentes en el archivo: {missing.join(', ')}</p>
+            )}
+
+            {scored.length > 0 && (
+                <div className="mt-4 max-h-96 overflow-auto">
+                    <table className="w-full text-xs text-left text-slate-400">
+                        <thead className="text-slate-300 uppercase bg-slate-700 sticky top-0">
+                            <tr>
+                                <th scope="col" className="px-3 py-2">Fila</th>
+                                <th scope="col" className="px-3 py-2 text-right">Predicción</th>
+                                <th scope="col" className="px-3 py-2 text-right">IC {level ? `${Math.round(level * 100)}%` : ''}</th>
+                                <th scope="col" className="px-3 py-2 text-right">IP {level ? `${Math.round(level * 100)}%` : ''}</th>
+                                <th scope="col" className="px-3 py-2">Validación</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {scored.slice(0, PREVIEW_ROWS).map(({ result, errors }, i) => (
+                                <tr key={i} className="bg-slate-800 border-b border-slate-700">
+                                    <td className="px-3 py-2">{i + 1}</td>
+                                    <td className="px-3 py-2 text-right font-mono text-cyan-400">{result ? formatValue(result.value) : '—'}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{result?.intervals ? `[${formatValue(result.intervals.confidence[0])}, ${formatValue(result.intervals.confidence[1])}]` : '—'}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{result?.intervals ? `[${formatValue(result.intervals.prediction[0])}, ${formatValue(result.intervals.prediction[1])}]` : '—'}</td>
+                                    <td className={`px-3 py-2 ${errors.length > 0 ? 'text-rose-400' : 'text-green-400'}`}>{errors.length > 0 ? errors.join('; ') : 'OK'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {scored.length > PREVIEW_ROWS && (
+                        <p className="mt-2 text-xs text-slate-500">Mostrando las primeras {PREVIEW_ROWS} filas; la descarga incluye todas.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
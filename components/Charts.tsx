@@ -0,0 +1,435 @@
+import React, { useId, useMemo, useRef, useState } from 'react';
+import { max, min } from 'simple-statistics';
+import { exportPng, exportSvg } from '../services/chartExport';
+import { boxPlotStats, histogramBins, linearTrend, numericColumn, pairedPoints, samplePoints } from '../services/chartDataService';
+import type { DataRow, ForecastPoint } from '../types';
+
+export interface ChartPoint {
+    x: number;
+    y: number;
+}
+
+interface ScatterPlotProps {
+    points: ChartPoint[];
+    xLabel: string;
+    yLabel: string;
+    /** Optional straight reference line, e.g. y = 0 or y = x. */
+    referenceLine?: { slope: number; intercept: number };
+    /** Optional curve drawn through these points in x order, e.g. a partial-dependence line. */
+    curve?: ChartPoint[];
+    width?: number;
+    height?: number;
+    pointColor?: string;
+}
+
+const PADDING = { top: 12, right: 12, bottom: 36, left: 52 };
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+const SVG_CLASS = 'w-full h-auto bg-slate-900/50 rounded-lg border border-slate-700';
+
+const niceTicks = (minValue: number, maxValue: number, count = 5) => {
+    if (minValue === maxValue) return [minValue];
+    const step = (maxValue - minValue) / (count - 1);
+    return Array.from({ length: count }, (_, i) => minValue + i * step);
+};
+
+const formatTick = (value: number) => {
+    const abs = Math.abs(value);
+    if (abs >= 1e4 || (abs > 0 && abs < 1e-2)) return value.toExponential(1);
+    return Number(value.toFixed(2)).toString();
+};
+
+export const ScatterPlot: React.FC<ScatterPlotProps> = ({ points, xLabel, yLabel, referenceLine, curve = [], width = 420, height = 300, pointColor = '#22d3ee' }) => {
+    const clipId = useId();
+    const finite = points.filter(p => isFinite(p.x) && isFinite(p.y));
+    const finiteCurve = curve.filter(p => isFinite(p.x) && isFinite(p.y));
+    if (finite.length === 0 && finiteCurve.length === 0) {
+        return <div className="text-slate-500 text-sm">Sin datos para graficar.</div>;
+    }
+    const xs = [...finite, ...finiteCurve].map(p => p.x);
+    const ys = [...finite, ...finiteCurve].map(p => p.y);
+    let xMin = min(xs), xMax = max(xs);
+    let yMin = min(ys), yMax = max(ys);
+    if (xMin === xMax) { xMin -= 1; xMax += 1; }
+    if (yMin === yMax) { yMin -= 1; yMax += 1; }
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const sx = (x: number) => PADDING.left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+    const sy = (y: number) => PADDING.top + plotHeight - ((y - yMin) / (yMax - yMin)) * plotHeight;
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className={SVG_CLASS} fontFamily={FONT_FAMILY} role="img" aria-label={`${yLabel} vs ${xLabel}`}>
+            {niceTicks(yMin, yMax).map(t => (
+                <g key={`y-${t}`}>
+                    <line x1={PADDING.left} x2={width - PADDING.right} y1={sy(t)} y2={sy(t)} stroke="#334155" strokeWidth={0.5} />
+                    <text x={PADDING.left - 6} y={sy(t) + 3} textAnchor="end" fontSize={9} fill="#94a3b8">{formatTick(t)}</text>
+                </g>
+            ))}
+            {niceTicks(xMin, xMax).map(t => (
+                <text key={`x-${t}`} x={sx(t)} y={height - PADDING.bottom + 14} textAnchor="middle" fontSize={9} fill="#94a3b8">{formatTick(t)}</text>
+            ))}
+            <line x1={PADDING.left} x2={PADDING.left} y1={PADDING.top} y2={height - PADDING.bottom} stroke="#64748b" />
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={height - PADDING.bottom} y2={height - PADDING.bottom} stroke="#64748b" />
+            <defs>
+                <clipPath id={clipId}>
+                    <rect x={PADDING.left} y={PADDING.top} width={plotWidth} height={plotHeight} />
+                </clipPath>
+            </defs>
+            <g clipPath={`url(#${clipId})`}>
+                {referenceLine && (
+                    <line
+                        x1={sx(xMin)} y1={sy(referenceLine.intercept + referenceLine.slope * xMin)}
+                        x2={sx(xMax)} y2={sy(referenceLine.intercept + referenceLine.slope * xMax)}
+                        stroke="#f43f5e" strokeDasharray="4 3" strokeWidth={1.5}
+                    />
+                )}
+                {finite.map((p, i) => (
+                    <circle key={i} cx={sx(p.x)} cy={sy(p.y)} r={2.5} fill={pointColor} fillOpacity={0.7} />
+                ))}
+                {finiteCurve.length > 1 && (
+                    <polyline
+                        points={[...finiteCurve].sort((a, b) => a.x - b.x).map(p => `${sx(p.x)},${sy(p.y)}`).join(' ')}
+                        fill="none" stroke="#facc15" strokeWidth={2}
+                    />
+                )}
+            </g>
+            <text x={PADDING.left + plotWidth / 2} y={height - 6} textAnchor="middle" fontSize={10} fill="#cbd5e1">{xLabel}</text>
+            <text x={12} y={PADDING.top + plotHeight / 2} textAnchor="middle" fontSize={10} fill="#cbd5e1" transform={`rotate(-90 12 ${PADDING.top + plotHeight / 2})`}>{yLabel}</text>
+        </svg>
+    );
+};
+
+/** Wraps a chart with a title and PNG/SVG download buttons for the first SVG inside it. */
+export const ExportableChart: React.FC<{ title: string; fileName: string; children: React.ReactNode }> = ({ title, fileName, children }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [error, setError] = useState<string | null>(null);
+    const svg = () => containerRef.current?.querySelector('svg') ?? null;
+
+    const handlePng = () => {
+        const element = svg();
+        if (!element) return;
+        setError(null);
+        exportPng(element, fileName).catch(err => setError(err instanceof Error ? err.message : 'No se pudo exportar.'));
+    };
+
+    const handleSvg = () => {
+        const element = svg();
+        if (element) exportSvg(element, fileName);
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-md font-semibold text-slate-300">{title}</h4>
+                <div className="flex gap-2 text-xs">
+                    <button onClick={handlePng} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300">PNG</button>
+                    <button onClick={handleSvg} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300">SVG</button>
+                </div>
+            </div>
+            <div ref={containerRef}>{children}</div>
+            {error && <p className="text-rose-400 mt-1 text-xs">{error}</p>}
+        </div>
+    );
+};
+
+const MAX_OUTLIER_MARKS = 500;
+
+/** Histogram with a box plot strip underneath, sharing the x axis. */
+export const DistributionPlot: React.FC<{ values: number[]; label: string; width?: number; height?: number }> = ({ values, label, width = 360, height = 240 }) => {
+    const bins = useMemo(() => histogramBins(values), [values]);
+    const box = useMemo(() => boxPlotStats(values), [values]);
+    if (bins.length === 0 || !box) {
+        return <div className="text-slate-500 text-sm">Sin datos para graficar.</div>;
+    }
+    const boxHeight = 36;
+    const xMin = bins[0].start;
+    const xMax = bins[bins.length - 1].end;
+    const maxCount = Math.max(...bins.map(b => b.count));
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const histogramHeight = height - PADDING.top - PADDING.bottom - boxHeight;
+    const sx = (x: number) => PADDING.left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+    const sy = (count: number) => PADDING.top + histogramHeight - (count / maxCount) * histogramHeight;
+    const boxTop = PADDING.top + histogramHeight + 10;
+    const boxMid = boxTop + (boxHeight - 14) / 2;
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className={SVG_CLASS} fontFamily={FONT_FAMILY} role="img" aria-label={`Distribución de ${label}`}>
+            {niceTicks(0, maxCount, 4).map(t => (
+                <g key={`y-${t}`}>
+                    <line x1={PADDING.left} x2={width - PADDING.right} y1={sy(t)} y2={sy(t)} stroke="#334155" strokeWidth={0.5} />
+                    <text x={PADDING.left - 6} y={sy(t) + 3} textAnchor="end" fontSize={9} fill="#94a3b8">{Math.round(t)}</text>
+                </g>
+            ))}
+            {bins.map((bin, i) => (
+                <rect key={i} x={sx(bin.start) + 0.5} y={sy(bin.count)} width={Math.max(0, sx(bin.end) - sx(bin.start) - 1)} height={sy(0) - sy(bin.count)} fill="#38bdf8" fillOpacity={0.7}>
+                    <title>{`${formatTick(bin.start)} – ${formatTick(bin.end)}: ${bin.count}`}</title>
+                </rect>
+            ))}
+            <line x1={sx(box.whiskerLow)} x2={sx(box.q1)} y1={boxMid} y2={boxMid} stroke="#cbd5e1" />
+            <line x1={sx(box.q3)} x2={sx(box.whiskerHigh)} y1={boxMid} y2={boxMid} stroke="#cbd5e1" />
+            <rect x={sx(box.q1)} y={boxTop} width={Math.max(1, sx(box.q3) - sx(box.q1))} height={boxHeight - 14} fill="#0e7490" stroke="#cbd5e1" />
+            <line x1={sx(box.median)} x2={sx(box.median)} y1={boxTop} y2={boxTop + boxHeight - 14} stroke="#facc15" strokeWidth={2} />
+            {samplePoints(box.outliers, MAX_OUTLIER_MARKS).map((v, i) => <circle key={i} cx={sx(v)} cy={boxMid} r={2} fill="#f43f5e" />)}
+            {niceTicks(xMin, xMax).map(t => (
+                <text key={`x-${t}`} x={sx(t)} y={height - PADDING.bottom + 14} textAnchor="middle" fontSize={9} fill="#94a3b8">{formatTick(t)}</text>
+            ))}
+            <text x={PADDING.left + plotWidth / 2} y={height - 6} textAnchor="middle" fontSize={10} fill="#cbd5e1">{label}</text>
+        </svg>
+    );
+};
+
+const MATRIX_CELL = 120;
+const MATRIX_MAX_POINTS = 400;
+
+/** Pairwise scatter plots with least-squares trend lines; histograms on the diagonal. */
+export const ScatterMatrix: React.FC<{ data: DataRow[]; columns: string[] }> = ({ data, columns }) => {
+    const labelSpace = 20;
+    const size = columns.length * MATRIX_CELL + labelSpace;
+    const inner = MATRIX_CELL - 10;
+    const ranges = useMemo(() => columns.map(column => {
+        const values = numericColumn(data, column);
+        const lo = values.length > 0 ? min(values) : 0;
+        const hi = values.length > 0 ? max(values) : 1;
+        return { lo, hi: hi === lo ? lo + 1 : hi, bins: histogramBins(values, 15) };
+    }), [data, columns]);
+    const cellPoints = useMemo(
+        () => columns.map(rowColumn => columns.map(colColumn => (rowColumn === colColumn ? [] : samplePoints(pairedPoints(data, colColumn, rowColumn), MATRIX_MAX_POINTS)))),
+        [data, columns]
+    );
+    const scale = (value: number, index: number) => ((value - ranges[index].lo) / (ranges[index].hi - ranges[index].lo)) * inner;
+
+    return (
+        <svg viewBox={`0 0 ${size} ${size}`} className={SVG_CLASS} fontFamily={FONT_FAMILY} role="img" aria-label="Matriz de dispersión">
+            {columns.map((rowColumn, i) => columns.map((colColumn, j) => {
+                const x0 = labelSpace + j * MATRIX_CELL + 5;
+                const y0 = i * MATRIX_CELL + 5;
+                if (i === j) {
+                    const bins = ranges[i].bins;
+                    const maxCount = Math.max(1, ...bins.map(b => b.count));
+                    return (
+                        <g key={`${i}-${j}`}>
+                            <rect x={x0} y={y0} width={inner} height={inner} fill="#1e293b" />
+                            {bins.map((bin, k) => (
+                                <rect key={k} x={x0 + scale(bin.start, i)} y={y0 + inner - (bin.count / maxCount) * inner} width={Math.max(0, scale(bin.end, i) - scale(bin.start, i) - 0.5)} height={(bin.count / maxCount) * inner} fill="#38bdf8" fillOpacity={0.6} />
+                            ))}
+                            <text x={x0 + inner / 2} y={y0 + 12} textAnchor="middle" fontSize={10} fill="#e2e8f0">{rowColumn}</text>
+                        </g>
+                    );
+                }
+                const points = cellPoints[i][j];
+                const trend = linearTrend(points);
+                const px = (v: number) => x0 + scale(v, j);
+                const py = (v: number) => y0 + inner - scale(v, i);
+                return (
+                    <g key={`${i}-${j}`}>
+                        <rect x={x0} y={y0} width={inner} height={inner} fill="#1e293b" />
+                        {points.map((p, k) => <circle key={k} cx={px(p.x)} cy={py(p.y)} r={1.3} fill="#22d3ee" fillOpacity={0.6} />)}
+                        {trend && (
+                            <line
+                                x1={px(ranges[j].lo)} y1={py(trend.intercept + trend.slope * ranges[j].lo)}
+                                x2={px(ranges[j].hi)} y2={py(trend.intercept + trend.slope * ranges[j].hi)}
+                                stroke="#f43f5e" strokeWidth={1.2}
+                            />
+                        )}
+                    </g>
+                );
+            }))}
+            {columns.map((column, i) => (
+                <text key={`row-${column}`} x={12} y={i * MATRIX_CELL + MATRIX_CELL / 2} textAnchor="middle" fontSize={9} fill="#94a3b8" transform={`rotate(-90 12 ${i * MATRIX_CELL + MATRIX_CELL / 2})`}>{column}</text>
+            ))}
+        </svg>
+    );
+};
+
+const heatmapColor = (value: number) => {
+    if (isNaN(value)) return '#334155';
+    const alpha = Math.abs(value);
+    return value > 0 ? `rgba(56, 189, 248, ${alpha})` : `rgba(251, 113, 133, ${alpha})`;
+};
+
+/** Correlation heatmap; zoom changes the cell size and the container scrolls. */
+export const CorrelationHeatmap: React.FC<{ columns: string[]; matrix: Record<string, Record<string, number>> }> = ({ columns, matrix }) => {
+    const [zoom, setZoom] = useState(1);
+    const cell = 48 * zoom;
+    const labelSpace = Math.min(140, 8 + 6 * Math.max(...columns.map(c => c.length), 4));
+    const size = labelSpace + columns.length * cell;
+
+    return (
+        <div>
+            <div className="flex items-center gap-2 mb-2 text-xs text-slate-400">
+                <span>Zoom:</span>
+                <button onClick={() => setZoom(z => Math.max(0.5, z - 0.25))} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600">−</button>
+                <span className="font-mono w-10 text-center">{Math.round(zoom * 100)}%</span>
+                <button onClick={() => setZoom(z => Math.min(3, z + 0.25))} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600">+</button>
+            </div>
+            <div className="overflow-auto max-h-[32rem]">
+                <svg viewBox={`0 0 ${size} ${size}`} width={size} height={size} className="bg-slate-900/50 rounded-lg" fontFamily={FONT_FAMILY} role="img" aria-label="Mapa de calor de correlaciones">
+                    {columns.map((rowColumn, i) => (
+                        <g key={rowColumn}>
+                            <text x={labelSpace - 6} y={labelSpace + i * cell + cell / 2 + 3} textAnchor="end" fontSize={10} fill="#cbd5e1">{rowColumn}</text>
+                            <text x={labelSpace + i * cell + cell / 2} y={labelSpace - 6} textAnchor="start" fontSize={10} fill="#cbd5e1" transform={`rotate(-45 ${labelSpace + i * cell + cell / 2} ${labelSpace - 6})`}>{rowColumn}</text>
+                            {columns.map((colColumn, j) => {
+                                const value = matrix[rowColumn]?.[colColumn] ?? NaN;
+                                return (
+                                    <g key={colColumn}>
+                                        <rect x={labelSpace + j * cell} y={labelSpace + i * cell} width={cell - 1} height={cell - 1} fill={heatmapColor(value)}>
+                                            <title>{`${rowColumn} × ${colColumn}: ${isNaN(value) ? 'N/A' : value.toFixed(3)}`}</title>
+                                        </rect>
+                                        {cell >= 36 && (
+                                            <text x={labelSpace + j * cell + cell / 2} y={labelSpace + i * cell + cell / 2 + 3} textAnchor="middle" fontSize={Math.min(12, cell / 4)} fill="#ffffff" pointerEvents="none">
+                                                {isNaN(value) ? 'N/A' : value.toFixed(2)}
+                                            </text>
+                                        )}
+                                    </g>
+                                );
+                            })}
+                        </g>
+                    ))}
+                </svg>
+            </div>
+        </div>
+    );
+};
+
+interface ForecastChartProps {
+    history: { date: string; value: number }[];
+    forecast: ForecastPoint[];
+    yLabel: string;
+    width?: number;
+    height?: number;
+}
+
+/** Observed series followed by the forecast, with shaded prediction and confidence bands. */
+export const ForecastChart: React.FC<ForecastChartProps> = ({ history, forecast, yLabel, width = 720, height = 320 }) => {
+    const clipId = useId();
+    if (history.length === 0 && forecast.length === 0) {
+        return <div className="text-slate-500 text-sm">Sin datos para graficar.</div>;
+    }
+    // Positions on the x axis: observed periods first, then the forecast periods.
+    const dates = [...history.map(p => p.date), ...forecast.map(p => p.date)];
+    const ys = [
+        ...history.map(p => p.value),
+        ...forecast.flatMap(p => (p.intervals ? [...p.intervals.prediction] : [p.value])),
+    ].filter(isFinite);
+    if (ys.length === 0) {
+        return <div className="text-slate-500 text-sm">Sin datos para graficar.</div>;
+    }
+    let yMin = min(ys), yMax = max(ys);
+    if (yMin === yMax) { yMin -= 1; yMax += 1; }
+
+    const plotWidth = width - PADDING.left - PADDING.right;
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const sx = (i: number) => PADDING.left + (dates.length === 1 ? plotWidth / 2 : (i / (dates.length - 1)) * plotWidth);
+    const sy = (y: number) => PADDING.top + plotHeight - ((y - yMin) / (yMax - yMin)) * plotHeight;
+    const offset = history.length;
+    const band = (pick: (p: ForecastPoint) => [number, number]) => {
+        const withIntervals = forecast.map((p, i) => ({ p, x: sx(offset + i) })).filter(({ p }) => p.intervals);
+        const upper = withIntervals.map(({ p, x }) => `${x},${sy(pick(p)[1])}`);
+        const lower = withIntervals.map(({ p, x }) => `${x},${sy(pick(p)[0])}`).reverse();
+        return [...upper, ...lower].join(' ');
+    };
+    // The forecast line starts at the last observation so the two series join up.
+    const forecastLine = [
+        ...(history.length > 0 ? [`${sx(offset - 1)},${sy(history[history.length - 1].value)}`] : []),
+        ...forecast.map((p, i) => `${sx(offset + i)},${sy(p.value)}`),
+    ].join(' ');
+    const tickCount = Math.min(6, dates.length);
+    const tickIndices = [...new Set(Array.from({ length: tickCount }, (_, i) => Math.round((i * (dates.length - 1)) / Math.max(1, tickCount - 1))))];
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className={SVG_CLASS} fontFamily={FONT_FAMILY} role="img" aria-label={`Pronóstico de ${yLabel}`}>
+            {niceTicks(yMin, yMax).map(t => (
+                <g key={`y-${t}`}>
+                    <line x1={PADDING.left} x2={width - PADDING.right} y1={sy(t)} y2={sy(t)} stroke="#334155" strokeWidth={0.5} />
+                    <text x={PADDING.left - 6} y={sy(t) + 3} textAnchor="end" fontSize={9} fill="#94a3b8">{formatTick(t)}</text>
+                </g>
+            ))}
+            {tickIndices.map(i => (
+                <text key={`x-${i}`} x={sx(i)} y={height - PADDING.bottom + 14} textAnchor="middle" fontSize={9} fill="#94a3b8">{dates[i]}</text>
+            ))}
+            <line x1={PADDING.left} x2={PADDING.left} y1={PADDING.top} y2={height - PADDING.bottom} stroke="#64748b" />
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={height - PADDING.bottom} y2={height - PADDING.bottom} stroke="#64748b" />
+            <defs>
+                <clipPath id={clipId}>
+                    <rect x={PADDING.left} y={PADDING.top} width={plotWidth} height={plotHeight} />
+                </clipPath>
+            </defs>
+            <g clipPath={`url(#${clipId})`}>
+                {forecast.some(p => p.intervals) && (
+                    <>
+                        <polygon points={band(p => p.intervals!.prediction)} fill="#22c55e" fillOpacity={0.15} />
+                        <polygon points={band(p => p.intervals!.confidence)} fill="#22c55e" fillOpacity={0.3} />
+                    </>
+                )}
+                {history.length > 0 && forecast.length > 0 && (
+                    <line x1={sx(offset - 1)} x2={sx(offset - 1)} y1={PADDING.top} y2={height - PADDING.bottom} stroke="#64748b" strokeDasharray="3 3" />
+                )}
+                {history.length > 1 && (
+                    <polyline points={history.map((p, i) => `${sx(i)},${sy(p.value)}`).join(' ')} fill="none" stroke="#22d3ee" strokeWidth={1.5} />
+                )}
+                {forecast.length > 0 && (
+                    <polyline points={forecastLine} fill="none" stroke="#4ade80" strokeWidth={2} strokeDasharray="5 3" />
+                )}
+                {forecast.map((p, i) => (
+                    <circle key={p.date} cx={sx(offset + i)} cy={sy(p.value)} r={2.5} fill="#4ade80">
+                        <title>{`${p.date}: ${formatTick(p.value)}`}</title>
+                    </circle>
+                ))}
+            </g>
+            <text x={12} y={PADDING.top + plotHeight / 2} textAnchor="middle" fontSize={10} fill="#cbd5e1" transform={`rotate(-90 12 ${PADDING.top + plotHeight / 2})`}>{yLabel}</text>
+        </svg>
+    );
+};
+
+interface TornadoChartProps {
+    bars: { column: string; min: number; max: number; atMin: number; atMax: number }[];
+    /** Prediction at the current inputs, drawn as the reference line. */
+    base: number;
+    xLabel: string;
+    width?: number;
+}
+
+/** Swing of the prediction as each input moves across its observed range, widest first. */
+export const TornadoChart: React.FC<TornadoChartProps> = ({ bars, base, xLabel, width = 640 }) => {
+    if (bars.length === 0) {
+        return <div className="text-slate-500 text-sm">Sin variables numéricas para analizar.</div>;
+    }
+    const rowHeight = 26;
+    const left = 140;
+    const height = PADDING.top + PADDING.bottom + bars.length * rowHeight;
+    const values = [base, ...bars.flatMap(b => [b.atMin, b.atMax])];
+    let xMin = Math.min(...values), xMax = Math.max(...values);
+    if (xMin === xMax) { xMin -= 1; xMax += 1; }
+    const plotWidth = width - left - PADDING.right;
+    const sx = (x: number) => left + ((x - xMin) / (xMax - xMin)) * plotWidth;
+    const bottom = height - PADDING.bottom;
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className={SVG_CLASS} fontFamily={FONT_FAMILY} role="img" aria-label={`Sensibilidad de ${xLabel}`}>
+            {niceTicks(xMin, xMax).map(t => (
+                <g key={`x-${t}`}>
+                    <line x1={sx(t)} x2={sx(t)} y1={PADDING.top} y2={bottom} stroke="#334155" strokeWidth={0.5} />
+                    <text x={sx(t)} y={bottom + 14} textAnchor="middle" fontSize={9} fill="#94a3b8">{formatTick(t)}</text>
+                </g>
+            ))}
+            {bars.map((bar, i) => {
+                const y = PADDING.top + i * rowHeight + 4;
+                const barHeight = rowHeight - 8;
+                // Each half is coloured by the end of the range that produces it.
+                return (
+                    <g key={bar.column}>
+                        <text x={left - 6} y={y + barHeight / 2 + 3} textAnchor="end" fontSize={10} fill="#cbd5e1">{bar.column}</text>
+                        <rect x={Math.min(sx(base), sx(bar.atMin))} y={y} width={Math.abs(sx(bar.atMin) - sx(base))} height={barHeight} fill="#f59e0b" fillOpacity={0.8}>
+                            <title>{`${bar.column} = ${formatTick(bar.min)} (mínimo): ${formatTick(bar.atMin)}`}</title>
+                        </rect>
+                        <rect x={Math.min(sx(base), sx(bar.atMax))} y={y} width={Math.abs(sx(bar.atMax) - sx(base))} height={barHeight} fill="#22d3ee" fillOpacity={0.8}>
+                            <title>{`${bar.column} = ${formatTick(bar.max)} (máximo): ${formatTick(bar.atMax)}`}</title>
+                        </rect>
+                    </g>
+                );
+            })}
+            <line x1={sx(base)} x2={sx(base)} y1={PADDING.top} y2={bottom} stroke="#facc15" strokeWidth={1.5} />
+            <text x={left + plotWidth / 2} y={height - 6} textAnchor="middle" fontSize={10} fill="#cbd5e1">{xLabel}</text>
+        </svg>
+    );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import type { CollinearityReport as CollinearityReportData } from '../types';
+import { VIF_MODERATE, VIF_HIGH, CONDITION_MODERATE, CONDITION_HIGH } from '../services/collinearityService';
+
+const vifStatus = (vif: number) => {
+    if (vif >= VIF_HIGH) return { label: 'Alta', className: 'text-rose-400' };
+    if (vif >= VIF_MODERATE) return { label: 'Moderada', className: 'text-amber-400' };
+    return { label: 'Baja', className: 'text-green-400' };
+};
+
+const conditionMessage = (value: number) => {
+    if (value >= CONDITION_HIGH) return { text: 'Multicolinealidad severa: los coeficientes serán inestables.', className: 'text-rose-400' };
+    if (value >= CONDITION_MODERATE) return { text: 'Multicolinealidad moderada.', className: 'text-amber-400' };
+    return { text: 'Sin problemas de multicolinealidad.', className: 'text-green-400' };
+};
+
+const formatValue = (value: number) => isFinite(value) ? value.toFixed(2) : '∞';
+
+export const CollinearityReport: React.FC<{ report: CollinearityReportData; onDropVariable: (name: string) => void }> = ({ report, onDropVariable }) => {
+    const condition = conditionMessage(report.conditionNumber);
+    return (
+        <div className="mb-6 p-3 bg-slate-700/50 rounded-lg">
+            <h3 className="mb-2 text-sm font-medium text-slate-300">Diagnóstico de Multicolinealidad</h3>
+            <table className="w-full text-sm text-left text-slate-400 mb-3">
+                <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                    <tr>
+                        <th scope="col" className="px-4 py-2">Variable</th>
+                        <th scope="col" className="px-4 py-2 text-right">VIF</th>
+                        <th scope="col" className="px-4 py-2 text-right">R² auxiliar</th>
+                        <th scope="col" className="px-4 py-2">Colinealidad</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {report.vif.map(entry => {
+                        const status = vifStatus(entry.vif);
+                        return (
+                            <tr key={entry.name} className="bg-slate-800 border-b border-slate-700">
+                                <td className="px-4 py-2 font-medium text-slate-200">{entry.name}</td>
+                                <td className="px-4 py-2 text-right font-mono">{formatValue(entry.vif)}</td>
+                                <td className="px-4 py-2 text-right font-mono">{isNaN(entry.rSquared) ? 'N/A' : entry.rSquared.toFixed(4)}</td>
+                                <td className={`px-4 py-2 font-semibold ${status.className}`}>{status.label}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <p className="text-sm text-slate-400">
+                Número de condición: <span className="font-mono text-slate-200">{formatValue(report.conditionNumber)}</span>{' '}
+                <span className={condition.className}>{condition.text}</span>
+            </p>
+            {report.worstVariable && (
+                <button
+                    onClick={() => onDropVariable(report.worstVariable as string)}
+                    className="mt-3 inline-flex items-center px-3 py-1.5 bg-rose-600 hover:bg-rose-700 text-white text-sm font-semibold rounded-lg shadow-md transition-colors duration-300">
+                    Eliminar «{report.worstVariable}» (mayor VIF)
+                </button>
+            )}
+        </div>
+    );
+};
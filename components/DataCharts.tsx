@@ -0,0 +1,61 @@
+import React, { useMemo, useState } from 'react';
+import type { DataSet } from '../types';
+import { numericColumn } from '../services/chartDataService';
+import { DistributionPlot, ExportableChart, ScatterMatrix } from './Charts';
+
+const MAX_MATRIX_COLUMNS = 6;
+
+export const DistributionGallery: React.FC<{ dataSet: DataSet }> = ({ dataSet }) => {
+    // Extracted once per dataset so the plots can memoize their bins and box statistics.
+    const columns = useMemo(
+        () => dataSet.numericHeaders.map(column => ({ column, values: numericColumn(dataSet.data, column) })),
+        [dataSet.data, dataSet.numericHeaders]
+    );
+    return (
+        <div className="grid md:grid-cols-2 gap-6">
+            {columns.map(({ column, values }) => (
+                <ExportableChart key={column} title={column} fileName={`distribucion_${column}`}>
+                    <DistributionPlot values={values} label={column} />
+                </ExportableChart>
+            ))}
+        </div>
+    );
+};
+
+export const ScatterMatrixPanel: React.FC<{ dataSet: DataSet }> = ({ dataSet }) => {
+    const [columns, setColumns] = useState(() => dataSet.numericHeaders.slice(0, 4));
+    const visibleColumns = useMemo(() => columns.filter(c => dataSet.numericHeaders.includes(c)), [columns, dataSet.numericHeaders]);
+
+    const toggleColumn = (column: string) => {
+        setColumns(prev => prev.includes(column)
+            ? prev.filter(c => c !== column)
+            : prev.length < MAX_MATRIX_COLUMNS ? [...prev, column] : prev);
+    };
+
+    return (
+        <>
+            <p className="text-slate-400 mb-2 text-sm">Elige hasta {MAX_MATRIX_COLUMNS} columnas. Cada panel incluye la recta de mínimos cuadrados.</p>
+            <div className="flex flex-wrap gap-3 mb-3">
+                {dataSet.numericHeaders.map(column => (
+                    <label key={column} className="flex items-center space-x-2 text-sm text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={visibleColumns.includes(column)}
+                            disabled={!visibleColumns.includes(column) && visibleColumns.length >= MAX_MATRIX_COLUMNS}
+                            onChange={() => toggleColumn(column)}
+                            className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600"
+                        />
+                        <span>{column}</span>
+                    </label>
+                ))}
+            </div>
+            {visibleColumns.length >= 2 ? (
+                <ExportableChart title="Matriz de Dispersión" fileName="matriz_dispersion">
+                    <ScatterMatrix data={dataSet.data} columns={visibleColumns} />
+                </ExportableChart>
+            ) : (
+                <p className="text-slate-500 text-sm">Selecciona al menos dos columnas.</p>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import type { DataSet } from '../types';
+import { computeMissingReport } from '../services/dataQualityService';
+
+export const DataQualityReport: React.FC<{ dataSet: DataSet }> = ({ dataSet }) => {
+    const report = useMemo(() => computeMissingReport(dataSet), [dataSet]);
+    const affected = report.filter(r => r.missing + r.invalid > 0);
+
+    if (affected.length === 0) {
+        return <p className="text-green-400 text-sm">No hay valores faltantes ni texto en columnas numéricas.</p>;
+    }
+
+    return (
+        <>
+            <p className="text-slate-400 mb-3 text-sm">
+                {affected.length} de {report.length} columnas tienen valores faltantes o no numéricos. Al entrenar se descartan las filas
+                incompletas en las variables elegidas; puedes imputarlas en <span className="text-slate-200">Ingeniería de Variables</span>.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-4 py-2">Columna</th>
+                            <th scope="col" className="px-4 py-2">Tipo</th>
+                            <th scope="col" className="px-4 py-2 text-right">Vacíos</th>
+                            <th scope="col" className="px-4 py-2 text-right">No numéricos</th>
+                            <th scope="col" className="px-4 py-2 text-right">% afectado</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {affected.map(r => (
+                            <tr key={r.column} className="bg-slate-800 border-b border-slate-700">
+                                <td className="px-4 py-2 font-medium text-slate-200">{r.column}</td>
+                                <td className="px-4 py-2">{r.numeric ? 'Numérica' : 'Texto'}</td>
+                                <td className="px-4 py-2 text-right font-mono">{r.missing}</td>
+                                <td className="px-4 py-2 text-right font-mono">{r.numeric ? r.invalid : '—'}</td>
+                                <td className={`px-4 py-2 text-right font-mono ${r.percent >= 20 ? 'text-rose-400' : 'text-amber-400'}`}>{r.percent.toFixed(1)}%</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+};
@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import type { DiagnosticTest, ModelResults } from '../types';
+import { qqPoints } from '../services/diagnosticsService';
+import { samplePoints } from '../services/chartDataService';
+import { ScatterPlot } from './Charts';
+
+const MAX_PLOT_POINTS = 2000;
+
+const DiagnosticCard: React.FC<{ test: DiagnosticTest }> = ({ test }) => {
+    const passed = test.verdict === 'pass';
+    return (
+        <div className={`p-4 rounded-lg border ${passed ? 'border-green-600/60 bg-green-900/10' : 'border-amber-500/60 bg-amber-900/10'}`}>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold text-slate-200 text-sm">{test.name}</h4>
+                <span className={`text-xs font-bold px-2 py-0.5 rounded ${passed ? 'bg-green-600 text-white' : 'bg-amber-500 text-slate-900'}`}>
+                    {passed ? 'OK' : 'REVISAR'}
+                </span>
+            </div>
+            <p className="font-mono text-xs text-slate-400 mb-2">
+                Estadístico = {test.statistic.toFixed(4)}
+                {test.pValue !== null && <> · p = {test.pValue < 0.0001 ? '< 0.0001' : test.pValue.toFixed(4)}</>}
+            </p>
+            <p className="text-sm text-slate-300">{test.message}</p>
+        </div>
+    );
+};
+
+export const DiagnosticsPanel: React.FC<{ results: ModelResults }> = ({ results }) => {
+    const { fitted, residuals, diagnostics } = results;
+
+    const residualPoints = useMemo(() => samplePoints(fitted.map((f, i) => ({ x: f, y: residuals[i] })), MAX_PLOT_POINTS), [fitted, residuals]);
+    const qq = useMemo(() => samplePoints(qqPoints(residuals).map(p => ({ x: p.theoretical, y: p.sample })), MAX_PLOT_POINTS), [residuals]);
+
+    return (
+        <>
+            <p className="text-slate-400 mb-4">
+                Comprobaciones sobre los residuos del conjunto de entrenamiento ({results.trainSize} filas, en el orden original del archivo).
+            </p>
+            <div className="grid md:grid-cols-3 gap-4 mb-6">
+                <DiagnosticCard test={diagnostics.normality} />
+                <DiagnosticCard test={diagnostics.heteroscedasticity} />
+                <DiagnosticCard test={diagnostics.autocorrelation} />
+            </div>
+            {residuals.length === 0 ? (
+                <p className="text-sm text-slate-500">El historial no guarda los residuos fila a fila; vuelve a entrenar este modelo para ver los gráficos.</p>
+            ) : (
+                <div className="grid md:grid-cols-2 gap-6">
+                    <div>
+                        <h4 className="text-md font-semibold mb-2 text-slate-300">Residuos vs. Ajustados</h4>
+                        <ScatterPlot points={residualPoints} xLabel="Valores ajustados" yLabel="Residuos" referenceLine={{ slope: 0, intercept: 0 }} />
+                    </div>
+                    <div>
+                        <h4 className="text-md font-semibold mb-2 text-slate-300">Gráfico Q-Q Normal</h4>
+                        <ScatterPlot points={qq} xLabel="Cuantiles teóricos" yLabel="Residuos estandarizados" referenceLine={{ slope: 1, intercept: 0 }} />
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { compareNestedModels, ModelComparisonError } from '../services/experimentService';
+import type { ExperimentRun, NestedModelComparison } from '../services/experimentService';
+import type { LoadedModel } from '../services/modelArtifactService';
+import { MODEL_LABELS } from '../services/modelService';
+import { describeFeatureStep } from '../services/featureService';
+import { describeFilter } from '../services/filterService';
+
+type SortKey = 'trainedAt' | 'model' | 'terms' | 'trainR2' | 'testR2' | 'testRmse' | 'testMae';
+
+const SORT_VALUE: Record<SortKey, (loaded: LoadedModel) => number | string> = {
+    trainedAt: l => l.metadata.trainedAt,
+    model: l => MODEL_LABELS[l.results.modelType],
+    terms: l => l.results.termNames.length,
+    trainR2: l => l.results.trainMetrics.rSquared,
+    testR2: l => l.results.testMetrics.rSquared,
+    testRmse: l => l.results.testMetrics.rmse,
+    testMae: l => l.results.testMetrics.mae,
+};
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+    { key: 'trainedAt', label: 'Fecha', numeric: false },
+    { key: 'model', label: 'Modelo', numeric: false },
+    { key: 'terms', label: 'Variables', numeric: false },
+    { key: 'trainR2', label: 'R² entren.', numeric: true },
+    { key: 'testR2', label: 'R² valid.', numeric: true },
+    { key: 'testRmse', label: 'RMSE valid.', numeric: true },
+    { key: 'testMae', label: 'MAE valid.', numeric: true },
+];
+
+const formatValue = (value: number) => (isNaN(value) ? 'N/A' : value.toFixed(4));
+const formatPValue = (pValue: number) => (isNaN(pValue) ? 'N/A' : pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4));
+
+const ComparisonResult: React.FC<{ comparison: NestedModelComparison }> = ({ comparison: c }) => {
+    const significant = c.fPValue < 0.05;
+    return (
+        <div className={`mt-4 p-4 rounded-lg border text-sm ${significant ? 'border-green-600/60 bg-green-900/10' : 'border-slate-600 bg-slate-900/40'}`}>
+            <p className="text-slate-200 font-semibold mb-2">
+                Prueba de modelos anidados: ¿aportan {c.addedTerms.join(', ')}?
+            </p>
+            <ul className="text-slate-300 space-y-1 font-mono text-xs">
+                <li>F({c.dfNumerator}, {c.dfDenominator}) = {formatValue(c.fStatistic)}, p-valor = {formatPValue(c.fPValue)}</li>
+                <li>Razón de verosimilitud χ²({c.dfNumerator}) = {formatValue(c.lrStatistic)}, p-valor = {formatPValue(c.lrPValue)}</li>
+                <li>AIC: {formatValue(c.aicRestricted)} (menor) frente a {formatValue(c.aicFull)} (mayor)</li>
+            </ul>
+            <p className="text-slate-400 mt-2">
+                {significant
+                    ? 'Los términos añadidos mejoran el ajuste de forma significativa (p < 0.05): el modelo mayor está justificado.'
+                    : 'Los términos añadidos no mejoran el ajuste de forma significativa: el modelo menor es preferible por simplicidad.'}
+            </p>
+        </div>
+    );
+};
+
+interface ExperimentHistoryProps {
+    runs: ExperimentRun[];
+    /** Model currently used by the prediction and diagnostics sections. */
+    activeModel: LoadedModel | null;
+    onActivate: (run: ExperimentRun) => void;
+    onDelete: (id: string) => void;
+}
+
+export const ExperimentHistory: React.FC<ExperimentHistoryProps> = ({ runs, activeModel, onActivate, onDelete }) => {
+    const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'trainedAt', ascending: false });
+    const [selected, setSelected] = useState<string[]>([]);
+
+    const sorted = useMemo(() => {
+        const value = SORT_VALUE[sort.key];
+        return [...runs].sort((a, b) => {
+            const va = value(a.loaded);
+            const vb = value(b.loaded);
+            const order = typeof va === 'number' && typeof vb === 'number'
+                ? (isNaN(va) ? 1 : isNaN(vb) ? -1 : va - vb)
+                : String(va).localeCompare(String(vb));
+            return sort.ascending ? order : -order;
+        });
+    }, [runs, sort]);
+
+    const selectedRuns = selected.map(id => runs.find(r => r.id === id)).filter((r): r is ExperimentRun => !!r);
+    const comparison = useMemo((): NestedModelComparison | string | null => {
+        if (selectedRuns.length !== 2) return null;
+        try {
+            return compareNestedModels(selectedRuns[0], selectedRuns[1]);
+        } catch (error) {
+            if (error instanceof ModelComparisonError) return error.message;
+            throw error;
+        }
+    }, [selectedRuns[0], selectedRuns[1]]);
+
+    const toggleSort = (key: SortKey) =>
+        setSort(prev => (prev.key === key ? { key, ascending: !prev.ascending } : { key, ascending: key === 'testRmse' || key === 'testMae' }));
+    // Only two runs can be compared; picking a third replaces the oldest pick.
+    const toggleSelected = (id: string) =>
+        setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2)));
+
+    if (runs.length === 0) {
+        return <p className="text-sm text-slate-500">Cada modelo que entrenes se guardará aquí para compararlo con los demás.</p>;
+    }
+
+    return (
+        <div>
+            <p className="text-sm text-slate-400 mb-3">
+                Haz clic en una cabecera para ordenar. Marca dos modelos para comprobar con una prueba F si las variables adicionales
+                del mayor mejoran el ajuste, y usa "Activar" para predecir con cualquier modelo del historial.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-3 py-2"><span className="sr-only">Comparar</span></th>
+                            {COLUMNS.map(column => (
+                                <th key={column.key} scope="col" className={`px-3 py-2 ${column.numeric ? 'text-right' : ''}`}>
+                                    <button onClick={() => toggleSort(column.key)} className="uppercase hover:text-cyan-300">
+                                        {column.label}{sort.key === column.key ? (sort.ascending ? ' ▲' : ' ▼') : ''}
+                                    </button>
+                                </th>
+                            ))}
+                            <th scope="col" className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sorted.map(run => {
+                            const { results, dependentVar, independentVars, featureSteps, metadata } = run.loaded;
+                            const isActive = run.loaded.metadata.trainedAt === activeModel?.metadata.trainedAt;
+                            return (
+                                <tr key={run.id} className={`border-b border-slate-700 ${isActive ? 'bg-cyan-900/20' : 'bg-slate-800'}`}>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="checkbox" aria-label="Comparar" checked={selected.includes(run.id)} onChange={() => toggleSelected(run.id)}
+                                            className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 text-xs whitespace-nowrap" title={metadata.fileName ?? 'datos pegados'}>{new Date(metadata.trainedAt).toLocaleString()}</td>
+                                    <td className="px-3 py-2 text-slate-200">{MODEL_LABELS[results.modelType]}</td>
+                                    <td className="px-3 py-2 text-xs" title={featureSteps.length > 0 ? `Transformaciones: ${featureSteps.map(describeFeatureStep).join('; ')}` : 'Sin transformaciones'}>
+                                        <span className="text-slate-200">{dependentVar}</span> ~ {independentVars.join(', ')}
+                                        {featureSteps.length > 0 && <span className="text-slate-500"> · {featureSteps.length} transf.</span>}
+                                        {metadata.filters?.length > 0 && (
+                                            <span className="text-slate-500" title={metadata.filters.map(describeFilter).join('; ')}> · {metadata.filters.length} filtros</span>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 text-right font-mono">{formatValue(results.trainMetrics.rSquared)}</td>
+                                    <td className="px-3 py-2 text-right font-mono text-cyan-400">{formatValue(results.testMetrics.rSquared)}</td>
+                                    <td className="px-3 py-2 text-right font-mono text-cyan-400">{formatValue(results.testMetrics.rmse)}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{formatValue(results.testMetrics.mae)}</td>
+                                    <td className="px-3 py-2 whitespace-nowrap text-xs font-semibold">
+                                        {isActive
+                                            ? <span className="text-green-400">Activo</span>
+                                            : <button onClick={() => onActivate(run)} className="text-cyan-400 hover:text-cyan-300">Activar</button>}
+                                        <button onClick={() => onDelete(run.id)} className="ml-3 text-rose-400 hover:text-rose-300">Eliminar</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {typeof comparison === 'string' && <p className="text-amber-400 mt-4 text-sm">{comparison}</p>}
+            {comparison && typeof comparison !== 'string' && <ComparisonResult comparison={comparison} />}
+        </div>
+    );
+};
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { DataSet, FeatureStep, ImputationStrategy, SeasonalPeriod, TimeFrequency } from '../types';
+import {
+    createStepId, columnLevels, buildStandardizeStep, buildImputeStep, buildTrendStep, buildSeasonalStep,
+    describeFeatureStep, featureOutputColumns, imputedColumns, IMPUTATION_LABELS
+} from '../services/featureService';
+import { dateColumns, inferFrequency, FREQUENCY_LABELS, SEASONAL_PERIOD_LABELS } from '../services/timeSeriesService';
+import { buildImputeStepInWorker, ComputationCancelledError } from '../services/computeClient';
+
+type StepKind = FeatureStep['kind'];
+
+const MAX_DUMMY_LEVELS = 30;
+
+const kindLabels: Record<StepKind, string> = {
+    dummy: 'Codificación dummy (one-hot)',
+    log: 'Logaritmo natural',
+    sqrt: 'Raíz cuadrada',
+    standardize: 'Estandarización (z)',
+    polynomial: 'Términos polinómicos',
+    interaction: 'Interacción entre variables',
+    lag: 'Rezago (lag)',
+    trend: 'Tendencia temporal',
+    seasonal: 'Estacionalidad (dummies)',
+    impute: 'Imputación de faltantes',
+};
+
+const NUMERIC_ONLY_STRATEGIES: ImputationStrategy[] = ['mean', 'median', 'regression'];
+
+const selectClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2';
+
+interface FeatureBuilderProps {
+    dataSet: DataSet;
+    steps: FeatureStep[];
+    onAddStep: (step: FeatureStep) => void;
+    onRemoveStep: (id: string) => void;
+}
+
+export const FeatureBuilder: React.FC<FeatureBuilderProps> = ({ dataSet, steps, onAddStep, onRemoveStep }) => {
+    const [kind, setKind] = useState<StepKind>('dummy');
+    const [column, setColumn] = useState('');
+    const [secondColumn, setSecondColumn] = useState('');
+    const [reference, setReference] = useState('');
+    const [degree, setDegree] = useState(2);
+    const [lag, setLag] = useState(1);
+    const [strategy, setStrategy] = useState<ImputationStrategy>('median');
+    const [constant, setConstant] = useState('');
+    const [predictors, setPredictors] = useState<string[]>([]);
+    const [indicator, setIndicator] = useState(false);
+    const [frequency, setFrequency] = useState<TimeFrequency>('month');
+    const [period, setPeriod] = useState<SeasonalPeriod>('month');
+
+    const categoricalHeaders = dataSet.headers.filter(h => !dataSet.numericHeaders.includes(h));
+    const dateHeaders = useMemo(() => dateColumns(dataSet), [dataSet]);
+    const isDateKind = kind === 'trend' || kind === 'seasonal';
+    const columnOptions = kind === 'dummy' || kind === 'impute'
+        ? [...categoricalHeaders, ...dataSet.numericHeaders]
+        : isDateKind ? dateHeaders : dataSet.numericHeaders;
+    const isNumericColumn = dataSet.numericHeaders.includes(column);
+    const strategyOptions = (Object.keys(IMPUTATION_LABELS) as ImputationStrategy[])
+        .filter(s => isNumericColumn || !NUMERIC_ONLY_STRATEGIES.includes(s));
+    // Text columns cannot use numeric strategies; fall back to the mode when switching to one.
+    const activeStrategy = strategyOptions.includes(strategy) ? strategy : 'mode';
+    const alreadyImputed = kind === 'impute' && imputedColumns(steps).includes(column);
+    const levels = useMemo(
+        () => (kind === 'dummy' && column ? columnLevels(dataSet.data, column) : []),
+        [kind, column, dataSet.data]
+    );
+    const existingColumns = new Set(dataSet.headers);
+
+    const handleKindChange = (value: StepKind) => {
+        setKind(value);
+        setColumn('');
+        setSecondColumn('');
+        setReference('');
+        setPredictors([]);
+    };
+
+    const handleColumnChange = (value: string) => {
+        setColumn(value);
+        setReference('');
+        if (kind === 'trend' && value) setFrequency(inferFrequency(dataSet.data, value));
+    };
+
+    const buildStep = (): FeatureStep | null => {
+        if (!column) return null;
+        const id = createStepId();
+        switch (kind) {
+            case 'dummy':
+                if (levels.length < 2 || levels.length > MAX_DUMMY_LEVELS) return null;
+                return { id, kind, column, levels, reference: reference || levels[0] };
+            case 'log':
+            case 'sqrt':
+                return { id, kind, column };
+            case 'standardize':
+                return buildStandardizeStep(dataSet.data, column);
+            case 'polynomial':
+                return { id, kind, column, degree };
+            case 'interaction':
+                return secondColumn && secondColumn !== column ? { id, kind, columns: [column, secondColumn] } : null;
+            case 'lag':
+                return { id, kind, column, lag };
+            case 'trend':
+                return buildTrendStep(dataSet.data, column, frequency);
+            case 'seasonal':
+                return buildSeasonalStep(dataSet.data, column, period);
+            case 'impute':
+                return buildImputeStep(dataSet.data, column, activeStrategy, { numeric: isNumericColumn, constant, predictors, indicator });
+        }
+    };
+
+    // Regression imputation fits a model, so that step is built in the compute worker.
+    const fitsInWorker = kind === 'impute' && activeStrategy === 'regression';
+    const localCandidate = useMemo(
+        () => (fitsInWorker ? null : buildStep()),
+        [fitsInWorker, kind, column, secondColumn, reference, degree, lag, activeStrategy, constant, predictors, indicator, frequency, period, levels, dataSet]
+    );
+    const [fittedStep, setFittedStep] = useState<FeatureStep | null>(null);
+    const [fitting, setFitting] = useState(false);
+    useEffect(() => {
+        setFittedStep(null);
+        if (!fitsInWorker || !column) {
+            setFitting(false);
+            return;
+        }
+        const controller = new AbortController();
+        setFitting(true);
+        buildImputeStepInWorker(dataSet.data, column, 'regression', { numeric: isNumericColumn, constant, predictors, indicator }, { signal: controller.signal })
+            .then(setFittedStep)
+            .catch(err => {
+                if (!(err instanceof ComputationCancelledError)) console.error(err);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setFitting(false);
+            });
+        return () => controller.abort();
+    }, [fitsInWorker, column, isNumericColumn, constant, predictors, indicator, dataSet.data]);
+    const candidate = fitsInWorker ? fittedStep : localCandidate;
+    const duplicates = candidate ? featureOutputColumns(candidate).filter(c => existingColumns.has(c)) : [];
+
+    const handleAdd = () => {
+        if (!candidate || duplicates.length > 0 || alreadyImputed) return;
+        onAddStep(candidate);
+        setColumn('');
+        setSecondColumn('');
+        setReference('');
+        setPredictors([]);
+    };
+
+    const togglePredictor = (name: string) => {
+        setPredictors(prev => prev.includes(name) ? prev.filter(p => p !== name) : [...prev, name]);
+    };
+
+    return (
+        <>
+            <p className="text-slate-400 mb-4 text-sm">
+                Crea nuevas columnas a partir de las existentes. Se añaden al dataset y quedan disponibles como variables del modelo;
+                al predecir, se calculan automáticamente a partir de los valores originales.
+            </p>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4 p-3 bg-slate-700/50 rounded-lg items-end">
+                <div>
+                    <label htmlFor="feature-kind" className="block mb-1 text-xs text-slate-400">Transformación</label>
+                    <select id="feature-kind" value={kind} onChange={e => handleKindChange(e.target.value as StepKind)} className={selectClassName}>
+                        {(Object.keys(kindLabels) as StepKind[]).map(k => <option key={k} value={k}>{kindLabels[k]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="feature-column" className="block mb-1 text-xs text-slate-400">Columna</label>
+                    <select id="feature-column" value={column} onChange={e => handleColumnChange(e.target.value)} className={selectClassName}>
+                        <option value="">-- Selecciona --</option>
+                        {columnOptions.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                </div>
+                {kind === 'dummy' && (
+                    <div>
+                        <label htmlFor="feature-reference" className="block mb-1 text-xs text-slate-400">Nivel de referencia</label>
+                        <select id="feature-reference" value={reference || levels[0] || ''} onChange={e => setReference(e.target.value)} disabled={levels.length === 0} className={selectClassName}>
+                            {levels.map(l => <option key={l} value={l}>{l}</option>)}
+                        </select>
+                    </div>
+                )}
+                {kind === 'interaction' && (
+                    <div>
+                        <label htmlFor="feature-second-column" className="block mb-1 text-xs text-slate-400">Segunda columna</label>
+                        <select id="feature-second-column" value={secondColumn} onChange={e => setSecondColumn(e.target.value)} className={selectClassName}>
+                            <option value="">-- Selecciona --</option>
+                            {dataSet.numericHeaders.filter(h => h !== column).map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                    </div>
+                )}
+                {kind === 'polynomial' && (
+                    <div>
+                        <label htmlFor="feature-degree" className="block mb-1 text-xs text-slate-400">Grado máximo</label>
+                        <input type="number" id="feature-degree" min={2} max={5} value={degree} onChange={e => setDegree(Math.min(5, Math.max(2, parseInt(e.target.value, 10) || 2)))} className={selectClassName} />
+                    </div>
+                )}
+                {kind === 'lag' && (
+                    <div>
+                        <label htmlFor="feature-lag" className="block mb-1 text-xs text-slate-400">Periodos de rezago</label>
+                        <input type="number" id="feature-lag" min={1} max={24} value={lag} onChange={e => setLag(Math.max(1, parseInt(e.target.value, 10) || 1))} className={selectClassName} />
+                    </div>
+                )}
+                {kind === 'trend' && (
+                    <div>
+                        <label htmlFor="feature-frequency" className="block mb-1 text-xs text-slate-400">Frecuencia</label>
+                        <select id="feature-frequency" value={frequency} onChange={e => setFrequency(e.target.value as TimeFrequency)} className={selectClassName}>
+                            {(Object.keys(FREQUENCY_LABELS) as TimeFrequency[]).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+                        </select>
+                    </div>
+                )}
+                {kind === 'seasonal' && (
+                    <div>
+                        <label htmlFor="feature-period" className="block mb-1 text-xs text-slate-400">Estación</label>
+                        <select id="feature-period" value={period} onChange={e => setPeriod(e.target.value as SeasonalPeriod)} className={selectClassName}>
+                            {(Object.keys(SEASONAL_PERIOD_LABELS) as SeasonalPeriod[]).map(p => <option key={p} value={p}>{SEASONAL_PERIOD_LABELS[p]}</option>)}
+                        </select>
+                    </div>
+                )}
+                {kind === 'impute' && (
+                    <div>
+                        <label htmlFor="feature-strategy" className="block mb-1 text-xs text-slate-400">Estrategia</label>
+                        <select id="feature-strategy" value={activeStrategy} onChange={e => setStrategy(e.target.value as ImputationStrategy)} className={selectClassName}>
+                            {strategyOptions.map(s => <option key={s} value={s}>{IMPUTATION_LABELS[s]}</option>)}
+                        </select>
+                    </div>
+                )}
+                {kind === 'impute' && activeStrategy === 'constant' && (
+                    <div>
+                        <label htmlFor="feature-constant" className="block mb-1 text-xs text-slate-400">Valor constante</label>
+                        <input type={isNumericColumn ? 'number' : 'text'} id="feature-constant" value={constant} onChange={e => setConstant(e.target.value)} className={selectClassName} />
+                    </div>
+                )}
+                {kind === 'impute' && (
+                    <label className="flex items-center space-x-2 text-sm text-slate-300 pb-2">
+                        <input type="checkbox" checked={indicator} onChange={e => setIndicator(e.target.checked)} className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600" />
+                        <span>Añadir indicador de faltante</span>
+                    </label>
+                )}
+                <button onClick={handleAdd} disabled={!candidate || duplicates.length > 0 || alreadyImputed} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    {fitting ? 'Ajustando…' : 'Añadir'}
+                </button>
+            </div>
+            {kind === 'dummy' && column && (levels.length < 2 || levels.length > MAX_DUMMY_LEVELS) && (
+                <p className="text-amber-400 mt-2 text-sm">La columna debe tener entre 2 y {MAX_DUMMY_LEVELS} categorías distintas (tiene {levels.length}).</p>
+            )}
+            {kind === 'lag' && (
+                <p className="text-slate-500 mt-2 text-xs">Los rezagos siguen el orden de las filas; activa el modo serie temporal para ordenarlas por fecha.</p>
+            )}
+            {isDateKind && dateHeaders.length === 0 && (
+                <p className="text-amber-400 mt-2 text-sm">No hay columnas de fecha. Marca una columna como «Fecha» al cargar el archivo.</p>
+            )}
+            {kind === 'seasonal' && column && !candidate && (
+                <p className="text-amber-400 mt-2 text-sm">Los datos no cubren al menos dos valores distintos de {SEASONAL_PERIOD_LABELS[period]}.</p>
+            )}
+            {kind === 'impute' && activeStrategy === 'regression' && (
+                <div className="mt-2 p-3 bg-slate-700/30 rounded-lg">
+                    <p className="text-xs text-slate-400 mb-2">Predictores de la regresión (filas sin faltantes en ellos); si falta alguno, se usa la media:</p>
+                    <div className="flex flex-wrap gap-3">
+                        {dataSet.numericHeaders.filter(h => h !== column).map(h => (
+                            <label key={h} className="flex items-center space-x-2 text-sm text-slate-300">
+                                <input type="checkbox" checked={predictors.includes(h)} onChange={() => togglePredictor(h)} className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600" />
+                                <span>{h}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {kind === 'impute' && (
+                <p className="text-slate-500 mt-2 text-xs">La imputación se aplica antes que las transformaciones que usan la columna y se repite al predecir, rellenando los valores que se dejen vacíos.</p>
+            )}
+            {alreadyImputed && (
+                <p className="text-amber-400 mt-2 text-sm">La columna {column} ya tiene una regla de imputación.</p>
+            )}
+            {duplicates.length > 0 && (
+                <p className="text-amber-400 mt-2 text-sm">Ya existe la columna {duplicates.join(', ')}.</p>
+            )}
+
+            {steps.length > 0 && (
+                <ul className="mt-4 space-y-2">
+                    {steps.map(step => (
+                        <li key={step.id} className="flex items-center justify-between p-2 bg-slate-700/50 rounded">
+                            <div>
+                                <p className="text-sm text-slate-200">{describeFeatureStep(step)}</p>
+                                <p className="text-xs font-mono text-cyan-400">{featureOutputColumns(step).join(', ') || (step.kind === 'impute' ? step.column : '')}</p>
+                            </div>
+                            <button onClick={() => onRemoveStep(step.id)} className="text-rose-400 hover:text-rose-300 text-xs font-semibold ml-4">Eliminar</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </>
+    );
+};
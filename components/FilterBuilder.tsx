@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import type { DataSet, FilterCondition, FilterOperator } from '../types';
+import {
+    createFilterId, describeFilter, filterProblem, FILTER_OPERATOR_LABELS, NUMERIC_FILTER_OPERATORS, TEXT_FILTER_OPERATORS
+} from '../services/filterService';
+
+const selectClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2';
+
+interface FilterBuilderProps {
+    /** Dataset before filtering, so conditions can use any column and value. */
+    dataSet: DataSet;
+    filters: FilterCondition[];
+    /** Rows left after the filters (and exclusions). */
+    matchingRows: number;
+    onFiltersChange: (filters: FilterCondition[]) => void;
+}
+
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ dataSet, filters, matchingRows, onFiltersChange }) => {
+    const [column, setColumn] = useState('');
+    const [operator, setOperator] = useState<FilterOperator>('eq');
+    const [value, setValue] = useState('');
+
+    const isNumeric = dataSet.numericHeaders.includes(column);
+    const operators = isNumeric ? NUMERIC_FILTER_OPERATORS : TEXT_FILTER_OPERATORS;
+    const draft: FilterCondition = { id: createFilterId(), column, operator, value };
+    const problem = column ? filterProblem(dataSet, draft) : null;
+
+    const handleColumnChange = (next: string) => {
+        setColumn(next);
+        if (dataSet.numericHeaders.includes(next) && !NUMERIC_FILTER_OPERATORS.includes(operator)) setOperator('eq');
+    };
+
+    const handleAdd = () => {
+        if (!column || problem) return;
+        onFiltersChange([...filters, draft]);
+        setValue('');
+    };
+
+    return (
+        <div>
+            <p className="text-sm text-slate-400 mb-3">
+                Restringe el análisis y el entrenamiento a un subconjunto: una región, una línea de producto o una ventana de fechas
+                (las fechas aaaa-mm-dd se comparan en orden cronológico). Las filas deben cumplir todas las condiciones.
+            </p>
+            <div className="grid sm:grid-cols-4 gap-3 p-3 bg-slate-700/50 rounded-lg items-end">
+                <div>
+                    <label htmlFor="filter-column" className="block mb-1 text-xs text-slate-400">Columna</label>
+                    <select id="filter-column" value={column} onChange={e => handleColumnChange(e.target.value)} className={selectClassName}>
+                        <option value="">-- Elige --</option>
+                        {dataSet.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="filter-operator" className="block mb-1 text-xs text-slate-400">Condición</label>
+                    <select id="filter-operator" value={operator} onChange={e => setOperator(e.target.value as FilterOperator)} className={selectClassName}>
+                        {operators.map(op => <option key={op} value={op}>{FILTER_OPERATOR_LABELS[op]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="filter-value" className="block mb-1 text-xs text-slate-400">{operator === 'in' ? 'Valores (separados por comas)' : 'Valor'}</label>
+                    <input
+                        id="filter-value" type={isNumeric && operator !== 'in' ? 'number' : 'text'} value={value} onChange={e => setValue(e.target.value)}
+                        className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2"
+                    />
+                </div>
+                <button onClick={handleAdd} disabled={!column || !!problem} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Añadir filtro
+                </button>
+            </div>
+            {column && value.trim() !== '' && problem && <p className="text-amber-400 mt-2 text-xs">{problem}</p>}
+            {filters.length > 0 && (
+                <div className="mt-3">
+                    <ul className="flex flex-wrap gap-2">
+                        {filters.map(filter => (
+                            <li key={filter.id} className="flex items-center gap-2 px-3 py-1 bg-slate-700 rounded-full text-sm text-slate-200">
+                                <span className="font-mono text-xs">{describeFilter(filter)}</span>
+                                <button onClick={() => onFiltersChange(filters.filter(f => f.id !== filter.id))} aria-label={`Quitar filtro ${describeFilter(filter)}`} className="text-rose-400 hover:text-rose-300">×</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className={`mt-2 text-xs ${matchingRows === 0 ? 'text-rose-400' : 'text-slate-400'}`}>
+                        {matchingRows} de {dataSet.data.length} filas cumplen los filtros.
+                        <button onClick={() => onFiltersChange([])} className="ml-3 text-cyan-400 hover:text-cyan-300 font-semibold">Quitar todos</button>
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import type { DataSet, DiagnosticTest, TimeSeriesConfig } from '../types';
+import { forecastSeries, MAX_FORECAST_HORIZON } from '../services/forecastService';
+import type { ForecastModel } from '../services/forecastService';
+import { applyFeatureSteps, dateInputColumns, featureOutputColumns, requiredInputColumns } from '../services/featureService';
+import { parseIsoDate, FREQUENCY_LABELS } from '../services/timeSeriesService';
+import { downloadRows } from '../services/fileService';
+import { ExportableChart, ForecastChart } from './Charts';
+
+/** Observed periods drawn before the forecast; older ones are left out to keep the chart readable. */
+const HISTORY_POINTS = 120;
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface ForecastPanelProps {
+    dataSet: DataSet;
+    forecastModel: ForecastModel;
+    config: TimeSeriesConfig;
+    autocorrelation: DiagnosticTest;
+}
+
+export const ForecastPanel: React.FC<ForecastPanelProps> = ({ dataSet, forecastModel, config, autocorrelation }) => {
+    const [horizon, setHorizon] = useState(12);
+    const { dependentVar, independentVars, featureSteps } = forecastModel;
+
+    const forecast = useMemo(() => forecastSeries(dataSet, forecastModel, config, horizon), [dataSet, forecastModel, config, horizon]);
+    // The dependent variable may itself be a derived column, so the history is read after the steps.
+    const history = useMemo(() => applyFeatureSteps(dataSet, featureSteps).data
+        .filter(row => parseIsoDate(row[config.dateColumn]) !== null && typeof row[dependentVar] === 'number' && isFinite(row[dependentVar] as number))
+        .slice(-HISTORY_POINTS)
+        .map(row => ({ date: row[config.dateColumn] as string, value: row[dependentVar] as number })), [dataSet, featureSteps, config.dateColumn, dependentVar]);
+    const heldConstant = useMemo(() => {
+        const lagOutputs = featureSteps.filter(step => step.kind === 'lag').flatMap(featureOutputColumns);
+        const dates = dateInputColumns(featureSteps);
+        return requiredInputColumns(independentVars, featureSteps).filter(c => !lagOutputs.includes(c) && !dates.includes(c) && c !== dependentVar);
+    }, [featureSteps, independentVars, dependentVar]);
+    const level = forecast.find(p => p.intervals)?.intervals?.confidenceLevel;
+    const passed = autocorrelation.verdict === 'pass';
+
+    const handleDownload = () => {
+        const rows = forecast.map(p => ({
+            [config.dateColumn]: p.date,
+            [`pred_${dependentVar}`]: p.value,
+            ip_inferior: p.intervals ? p.intervals.prediction[0] : '',
+            ip_superior: p.intervals ? p.intervals.prediction[1] : '',
+        }));
+        downloadRows(rows, Object.keys(rows[0]), `pronostico_${dependentVar}.csv`);
+    };
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-2 text-slate-300">Pronóstico de la Serie Temporal</h3>
+            <div className={`mb-4 p-3 rounded-lg border text-sm ${passed ? 'border-green-600/60 bg-green-900/10' : 'border-amber-500/60 bg-amber-900/10'}`}>
+                <span className="font-semibold text-slate-200">Durbin–Watson = {autocorrelation.statistic.toFixed(3)}</span>
+                <span className="text-slate-300"> · {autocorrelation.message}</span>
+            </div>
+            <div className="flex flex-wrap items-end gap-4 mb-4">
+                <div>
+                    <label htmlFor="forecast-horizon" className="block mb-1 text-xs text-slate-400">Periodos a pronosticar ({FREQUENCY_LABELS[config.frequency].toLowerCase()})</label>
+                    <input type="number" id="forecast-horizon" min={1} max={MAX_FORECAST_HORIZON} value={horizon} onChange={e => setHorizon(Math.min(MAX_FORECAST_HORIZON, Math.max(1, parseInt(e.target.value, 10) || 1)))} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-32 p-2" />
+                </div>
+                {forecast.length > 0 && (
+                    <button onClick={handleDownload} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white text-sm font-semibold rounded-lg">
+                        Descargar pronóstico (CSV)
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-slate-500 mb-4">
+                Cada periodo usa las predicciones anteriores como valores rezagados de {dependentVar}
+                {heldConstant.length > 0 && <>; {heldConstant.join(', ')} se mantienen en su último valor observado</>}.
+                {level && ' Las bandas muestran el IP (claro) y el IC (oscuro) de cada periodo; el IP se ensancha con el horizonte porque acumula el error de las predicciones usadas como rezagos.'}
+            </p>
+            {forecast.length < horizon && (
+                <p className="text-amber-400 mb-4 text-sm">
+                    El pronóstico se detiene tras {forecast.length} periodo(s): las variables del modelo no se pueden calcular más allá.
+                </p>
+            )}
+            <ExportableChart title={`${dependentVar}: observado y pronóstico`} fileName={`pronostico_${dependentVar}`}>
+                <ForecastChart history={history} forecast={forecast} yLabel={dependentVar} />
+            </ExportableChart>
+            {forecast.length > 0 && (
+                <div className="mt-4 max-h-72 overflow-auto">
+                    <table className="w-full text-xs text-left text-slate-400">
+                        <thead className="text-slate-300 uppercase bg-slate-700 sticky top-0">
+                            <tr>
+                                <th scope="col" className="px-3 py-2">{config.dateColumn}</th>
+                                <th scope="col" className="px-3 py-2 text-right">Pronóstico</th>
+                                <th scope="col" className="px-3 py-2 text-right">IP {level ? `${Math.round(level * 100)}%` : ''}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {forecast.map(p => (
+                                <tr key={p.date} className="bg-slate-800 border-b border-slate-700">
+                                    <td className="px-3 py-2 font-mono">{p.date}</td>
+                                    <td className="px-3 py-2 text-right font-mono text-cyan-400">{formatValue(p.value)}</td>
+                                    <td className="px-3 py-2 text-right font-mono">{p.intervals ? `[${formatValue(p.intervals.prediction[0])}, ${formatValue(p.intervals.prediction[1])}]` : '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
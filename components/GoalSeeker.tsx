@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import type { DataRow, DescriptiveStats } from '../types';
+import type { ScoringModel } from '../services/predictionService';
+import { seekGoal, GoalSeekError } from '../services/goalSeekService';
+import type { GoalSeekResult, GoalVariable } from '../services/goalSeekService';
+import { findExtrapolations } from '../services/scenarioService';
+
+const cellInputClassName = 'bg-slate-700 border border-slate-600 text-white text-xs rounded p-1 w-24 text-right';
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface VariableSettings {
+    vary: boolean;
+    min: string;
+    max: string;
+    cost: string;
+}
+
+interface GoalSeekerProps {
+    /** Current form values: the starting point, and the fixed value of every input that does not vary. */
+    inputs: DataRow;
+    /** Numeric inputs the solver may move. */
+    columns: string[];
+    inputStats: DescriptiveStats;
+    scoring: ScoringModel;
+    dependentVar: string;
+    onApply: (inputs: DataRow) => void;
+}
+
+export const GoalSeeker: React.FC<GoalSeekerProps> = ({ inputs, columns, inputStats, scoring, dependentVar, onApply }) => {
+    const [target, setTarget] = useState('');
+    // Bounds default to the training range, so a reachable target needs no extrapolation.
+    const [settings, setSettings] = useState<Record<string, VariableSettings>>(() => Object.fromEntries(columns.map(c => [c, {
+        vary: false,
+        min: inputStats[c] ? String(inputStats[c].min) : '',
+        max: inputStats[c] ? String(inputStats[c].max) : '',
+        cost: '1',
+    }])));
+    const [result, setResult] = useState<GoalSeekResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (column: string, changes: Partial<VariableSettings>) =>
+        setSettings(prev => ({ ...prev, [column]: { ...prev[column], ...changes } }));
+
+    const handleSolve = () => {
+        setResult(null);
+        setError(null);
+        const goal = parseFloat(target);
+        if (isNaN(goal)) {
+            setError(`Introduce un valor objetivo numérico para ${dependentVar}.`);
+            return;
+        }
+        const variables: GoalVariable[] = columns.filter(c => settings[c]?.vary).map(c => ({
+            column: c,
+            min: parseFloat(settings[c].min),
+            max: parseFloat(settings[c].max),
+            cost: parseFloat(settings[c].cost),
+        }));
+        try {
+            setResult(seekGoal(goal, inputs, variables, scoring));
+        } catch (e) {
+            if (!(e instanceof GoalSeekError)) throw e;
+            setError(e.message);
+        }
+    };
+
+    const extrapolated = result ? findExtrapolations(result.inputs, inputStats).filter(e => result.changes.some(c => c.column === e.column)) : [];
+
+    return (
+        <div>
+            <p className="text-sm text-slate-400 mb-4">
+                Indica el valor de {dependentVar} que quieres alcanzar y qué variables pueden cambiar. Las demás se mantienen en los
+                valores del formulario. Se busca la combinación de menor coste (coste × cambio de cada variable).
+            </p>
+            <label htmlFor="goal-target" className="block mb-1 text-sm font-medium text-slate-400">Objetivo de {dependentVar}</label>
+            <input
+                type="number" id="goal-target" value={target} onChange={e => setTarget(e.target.value)}
+                className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5 mb-4"
+            />
+            <div className="overflow-x-auto mb-4">
+                <table className="w-full text-xs text-left text-slate-400">
+                    <thead className="text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-2 py-2">Variar</th>
+                            <th scope="col" className="px-2 py-2">Variable</th>
+                            <th scope="col" className="px-2 py-2 text-right">Mínimo</th>
+                            <th scope="col" className="px-2 py-2 text-right">Máximo</th>
+                            <th scope="col" className="px-2 py-2 text-right">Coste/unidad</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {columns.map(c => (
+                            <tr key={c} className="bg-slate-800 border-b border-slate-700">
+                                <td className="px-2 py-1.5">
+                                    <input
+                                        type="checkbox" aria-label={`Variar ${c}`} checked={settings[c].vary} onChange={e => update(c, { vary: e.target.checked })}
+                                        className="h-4 w-4 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600"
+                                    />
+                                </td>
+                                <td className="px-2 py-1.5 font-medium text-slate-200">{c}</td>
+                                <td className="px-2 py-1.5 text-right"><input type="number" aria-label={`Mínimo de ${c}`} value={settings[c].min} disabled={!settings[c].vary} onChange={e => update(c, { min: e.target.value })} className={cellInputClassName} /></td>
+                                <td className="px-2 py-1.5 text-right"><input type="number" aria-label={`Máximo de ${c}`} value={settings[c].max} disabled={!settings[c].vary} onChange={e => update(c, { max: e.target.value })} className={cellInputClassName} /></td>
+                                <td className="px-2 py-1.5 text-right"><input type="number" aria-label={`Coste de ${c}`} min={0} value={settings[c].cost} disabled={!settings[c].vary} onChange={e => update(c, { cost: e.target.value })} className={cellInputClassName} /></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <button onClick={handleSolve} className="w-full px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-md transition-colors duration-300">
+                Buscar Objetivo
+            </button>
+            {error && <p className="text-rose-400 mt-2 text-sm">{error}</p>}
+            {result && (
+                <div className={`mt-6 p-4 rounded-xl border ${result.reachable ? 'border-green-500 bg-slate-900/50' : 'border-amber-500 bg-amber-900/10'}`}>
+                    <p className={`font-semibold ${result.reachable ? 'text-green-400' : 'text-amber-300'}`}>
+                        {result.reachable
+                            ? `Objetivo alcanzable: ${dependentVar} = ${formatValue(result.achieved)}`
+                            : `El objetivo no se alcanza dentro de los límites; lo más cerca posible es ${dependentVar} = ${formatValue(result.achieved)}.`}
+                    </p>
+                    {result.changes.length > 0 ? (
+                        <table className="w-full text-xs text-left text-slate-400 mt-3">
+                            <thead className="text-slate-300 uppercase">
+                                <tr>
+                                    <th scope="col" className="py-1">Variable</th>
+                                    <th scope="col" className="py-1 text-right">Actual</th>
+                                    <th scope="col" className="py-1 text-right">Necesario</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.changes.map(change => (
+                                    <tr key={change.column} className="border-t border-slate-700">
+                                        <td className="py-1 text-slate-200">{change.column}</td>
+                                        <td className="py-1 text-right font-mono">{change.from === null ? '—' : formatValue(change.from)}</td>
+                                        <td className="py-1 text-right font-mono text-cyan-400">{formatValue(change.to)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-xs text-slate-400 mt-2">No hace falta cambiar ninguna variable.</p>
+                    )}
+                    <p className="text-xs text-slate-400 mt-2">Coste total: <span className="font-mono">{formatValue(result.totalCost)}</span></p>
+                    {extrapolated.length > 0 && (
+                        <p className="text-xs text-amber-400 mt-2">
+                            Fuera del rango observado en el entrenamiento: {extrapolated.map(e => e.column).join(', ')}. La solución es una extrapolación.
+                        </p>
+                    )}
+                    <button onClick={() => onApply(result.inputs)} className="mt-3 text-cyan-400 hover:text-cyan-300 text-xs font-semibold">
+                        Usar estos valores en el formulario
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
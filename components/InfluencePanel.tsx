@@ -0,0 +1,82 @@
+import React, { useMemo, useState } from 'react';
+import type { ExclusionRecord, InfluenceMeasure } from '../types';
+
+const flagLabels: Record<InfluenceMeasure['flags'][number], string> = {
+    leverage: 'Apalancamiento',
+    residual: 'Residuo',
+    cooks: 'Cook',
+};
+
+interface InfluencePanelProps {
+    influence: InfluenceMeasure[];
+    exclusions: ExclusionRecord[];
+    onExcludeRows: (rowIndices: number[], reason: string) => void;
+}
+
+export const InfluencePanel: React.FC<InfluencePanelProps> = ({ influence, exclusions, onExcludeRows }) => {
+    const [selectedRows, setSelectedRows] = useState<number[]>([]);
+
+    const excluded = useMemo(() => new Set(exclusions.map(e => e.rowIndex)), [exclusions]);
+    const flagged = useMemo(
+        () => influence
+            .filter(m => m.flags.length > 0 && !excluded.has(m.rowIndex))
+            .sort((a, b) => b.cooksDistance - a.cooksDistance),
+        [influence, excluded]
+    );
+
+    const handleRowToggle = (rowIndex: number) => {
+        setSelectedRows(prev => prev.includes(rowIndex) ? prev.filter(r => r !== rowIndex) : [...prev, rowIndex]);
+    };
+
+    const handleExclude = () => {
+        onExcludeRows(selectedRows, 'Punto influyente (post-ajuste)');
+        setSelectedRows([]);
+    };
+
+    const n = influence.length;
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-2 text-slate-300">Puntos Influyentes</h3>
+            <p className="text-slate-400 mb-4 text-sm">
+                Se marcan las filas con apalancamiento &gt; 2p/n, residuo estudentizado |t| &gt; 3 o distancia de Cook &gt; 4/n{n > 0 && <> ({(4 / n).toFixed(4)})</>}.
+            </p>
+            {flagged.length === 0 ? (
+                <p className="text-green-400 text-sm">No se detectaron puntos influyentes en el conjunto de entrenamiento.</p>
+            ) : (
+                <>
+                    <div className="max-h-72 overflow-y-auto">
+                        <table className="w-full text-sm text-left text-slate-400">
+                            <thead className="text-xs text-slate-300 uppercase bg-slate-700 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-4 py-2"></th>
+                                    <th scope="col" className="px-4 py-2">Fila</th>
+                                    <th scope="col" className="px-4 py-2 text-right">Apalancamiento</th>
+                                    <th scope="col" className="px-4 py-2 text-right">Residuo estud.</th>
+                                    <th scope="col" className="px-4 py-2 text-right">Dist. de Cook</th>
+                                    <th scope="col" className="px-4 py-2">Motivo</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {flagged.map(m => (
+                                    <tr key={m.rowIndex} className="bg-slate-800 border-b border-slate-700 hover:bg-slate-700/50">
+                                        <td className="px-4 py-2">
+                                            <input type="checkbox" checked={selectedRows.includes(m.rowIndex)} onChange={() => handleRowToggle(m.rowIndex)} className="w-4 h-4 text-cyan-600 bg-slate-600 border-slate-500 rounded focus:ring-cyan-500" />
+                                        </td>
+                                        <td className="px-4 py-2">{m.rowIndex + 1}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{m.leverage.toFixed(4)}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{m.studentizedResidual.toFixed(3)}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{m.cooksDistance.toFixed(4)}</td>
+                                        <td className="px-4 py-2 text-xs text-amber-400">{m.flags.map(f => flagLabels[f]).join(', ')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <button onClick={handleExclude} disabled={selectedRows.length === 0} className="mt-3 px-3 py-1.5 bg-rose-600 hover:bg-rose-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                        Excluir {selectedRows.length} fila(s)
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
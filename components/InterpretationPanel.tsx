@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import type { AiPrivacyPolicy, AiProviderConfig, ModelInterpretation } from '../types';
+import type { LoadedModel } from '../services/modelArtifactService';
+import { getModelInterpretation, AI_PROVIDER_LABELS } from '../services/aiService';
+import { buildModelContext, checkFigures, unverifiedFigures } from '../services/interpretationService';
+import type { ModelContext } from '../services/aiCommon';
+
+/** Text with every quoted figure highlighted: verified in cyan, unmatched in amber. */
+const CheckedText: React.FC<{ text: string; context: ModelContext }> = ({ text, context }) => (
+    <>
+        {checkFigures(text, context).map((segment, i) => {
+            if (segment.verified === undefined) return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+            return segment.verified
+                ? <span key={i} className="text-cyan-300">{segment.text}</span>
+                : <mark key={i} title="Esta cifra no coincide con los resultados del modelo" className="bg-amber-500/20 text-amber-300 rounded px-0.5">{segment.text}</mark>;
+        })}
+    </>
+);
+
+interface InterpretationPanelProps {
+    loaded: LoadedModel;
+    aiConfig: AiProviderConfig;
+    privacyPolicy: AiPrivacyPolicy;
+}
+
+export const InterpretationPanel: React.FC<InterpretationPanelProps> = ({ loaded, aiConfig, privacyPolicy }) => {
+    const [interpretation, setInterpretation] = useState<ModelInterpretation | null>(null);
+    const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const context = useMemo(() => buildModelContext(loaded), [loaded]);
+    const unverified = useMemo(() => (interpretation ? unverifiedFigures(interpretation, context) : []), [interpretation, context]);
+
+    const handleInterpret = async () => {
+        setIsLoading(true);
+        const result = await getModelInterpretation(aiConfig, privacyPolicy, context);
+        setInterpretation(result.value);
+        setFallbackReason(result.fallbackReason);
+        setIsLoading(false);
+    };
+
+    return (
+        <>
+            <p className="text-slate-400 mb-4">
+                Explica el modelo entrenado en lenguaje de negocio a partir de sus coeficientes, su significancia y los diagnósticos,
+                usando {AI_PROVIDER_LABELS[aiConfig.kind]}. Solo se envían los resultados del modelo, nunca filas de datos, y se aplican las reglas de privacidad de cada columna.
+            </p>
+            <button
+                onClick={handleInterpret}
+                disabled={isLoading}
+                className="inline-flex items-center px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                {isLoading ? 'Interpretando...' : 'Interpretar Resultados'}
+            </button>
+            {fallbackReason && !isLoading && (
+                <p className="text-amber-400 mt-2 text-sm">{fallbackReason} Se muestra la interpretación local.</p>
+            )}
+            {interpretation && (
+                <div className="mt-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700 text-sm text-slate-300 space-y-4">
+                    <div className={`p-3 rounded-lg border ${unverified.length === 0 ? 'border-green-600/60 bg-green-900/10' : 'border-amber-500/60 bg-amber-900/10'}`}>
+                        {unverified.length === 0
+                            ? 'Todas las cifras citadas coinciden con los resultados del modelo.'
+                            : `${unverified.length} cifra(s) no coinciden con los resultados del modelo y están resaltadas: ${unverified.join(', ')}. Compruébalas antes de usar esta interpretación.`}
+                    </div>
+                    <p><CheckedText text={interpretation.summary} context={context} /></p>
+                    {interpretation.coefficients.length > 0 && (
+                        <div>
+                            <h4 className="font-semibold text-slate-200 mb-2">Qué significa cada coeficiente</h4>
+                            <ul className="space-y-2">
+                                {interpretation.coefficients.map(c => (
+                                    <li key={c.term}><span className="font-mono text-slate-200">{c.term}</span>: <CheckedText text={c.meaning} context={context} /></li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {interpretation.caveats.length > 0 && (
+                        <div>
+                            <h4 className="font-semibold text-slate-200 mb-2">Advertencias</h4>
+                            <ul className="list-disc list-inside space-y-1">
+                                {interpretation.caveats.map((caveat, i) => <li key={i}><CheckedText text={caveat} context={context} /></li>)}
+                            </ul>
+                        </div>
+                    )}
+                    {interpretation.nextSteps.length > 0 && (
+                        <div>
+                            <h4 className="font-semibold text-slate-200 mb-2">Próximos pasos</h4>
+                            <ul className="list-disc list-inside space-y-1">
+                                {interpretation.nextSteps.map((step, i) => <li key={i}><CheckedText text={step} context={context} /></li>)}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import type { ModelResults, TrainedModel } from '../types';
+import { partialDependence, samplePoints } from '../services/chartDataService';
+import { ExportableChart, ScatterPlot } from './Charts';
+
+const MAX_PLOT_POINTS = 2000;
+
+interface ModelChartsProps {
+    model: TrainedModel;
+    results: ModelResults;
+    independentVars: string[];
+    dependentVar: string;
+    /** Training predictors in `independentVars` order; null when the data is not loaded (e.g. an imported model). */
+    trainingX: number[][] | null;
+}
+
+export const ModelCharts: React.FC<ModelChartsProps> = ({ model, results, independentVars, dependentVar, trainingX }) => {
+    const actualVsPredicted = useMemo(
+        () => samplePoints(results.fitted.map((f, i) => ({ x: results.residuals[i] + f, y: f })), MAX_PLOT_POINTS),
+        [results.fitted, results.residuals]
+    );
+    const effects = useMemo(
+        () => (trainingX && trainingX.length > 0 ? independentVars.map((_, j) => partialDependence(model, trainingX, j)) : []),
+        [model, trainingX, independentVars]
+    );
+
+    if (results.fitted.length === 0) {
+        return (
+            <div className="mt-8">
+                <h3 className="text-lg font-semibold mb-4 text-slate-300">Gráficos del Modelo</h3>
+                <p className="text-sm text-slate-500">El historial no guarda los valores ajustados fila a fila; vuelve a entrenar este modelo para ver los gráficos.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-4 text-slate-300">Gráficos del Modelo</h3>
+            <div className="grid md:grid-cols-2 gap-6">
+                <ExportableChart title="Real vs. Predicho (entrenamiento)" fileName={`real_vs_predicho_${dependentVar}`}>
+                    <ScatterPlot points={actualVsPredicted} xLabel={`${dependentVar} real`} yLabel={`${dependentVar} predicho`} referenceLine={{ slope: 1, intercept: 0 }} />
+                </ExportableChart>
+            </div>
+            <h4 className="text-md font-semibold mt-6 mb-1 text-slate-300">Efecto de cada Variable (dependencia parcial)</h4>
+            {effects.length > 0 ? (
+                <>
+                    <p className="text-xs text-slate-500 mb-3">
+                        Predicción media de {dependentVar} al variar una variable en su rango de entrenamiento, manteniendo las demás en sus valores observados.
+                    </p>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        {independentVars.map((variable, j) => (
+                            <ExportableChart key={variable} title={variable} fileName={`efecto_${variable}`}>
+                                <ScatterPlot points={[]} curve={effects[j]} xLabel={variable} yLabel={`${dependentVar} predicho`} />
+                            </ExportableChart>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <p className="text-sm text-slate-500">Carga el dataset de entrenamiento para ver los gráficos de efecto.</p>
+            )}
+        </div>
+    );
+};
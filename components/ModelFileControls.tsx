@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { readTextFile, triggerDownload } from '../services/fileService';
+import { serializeModel, parseModelArtifact, modelFileName, ModelArtifactError } from '../services/modelArtifactService';
+import type { LoadedModel } from '../services/modelArtifactService';
+
+export const ModelExportButton: React.FC<{ loaded: LoadedModel }> = ({ loaded }) => {
+    const handleExport = () => {
+        triggerDownload(new Blob([serializeModel(loaded)], { type: 'application/json' }), modelFileName(loaded));
+    };
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6 p-3 bg-slate-700/50 rounded-lg text-sm">
+            <span className="text-slate-400">
+                Entrenado el {new Date(loaded.metadata.trainedAt).toLocaleString()}
+                {loaded.metadata.fileName && <> con <span className="text-slate-200">{loaded.metadata.fileName}</span></>}
+                {' '}({loaded.metadata.rowCount} filas)
+            </span>
+            <button onClick={handleExport} className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg">
+                Exportar modelo (JSON)
+            </button>
+        </div>
+    );
+};
+
+export const ModelImportButton: React.FC<{ onModelLoaded: (loaded: LoadedModel) => void }> = ({ onModelLoaded }) => {
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFile = (file: File) => {
+        setError(null);
+        readTextFile(file)
+            .then(text => onModelLoaded(parseModelArtifact(text)))
+            .catch(err => setError(err instanceof ModelArtifactError ? err.message : 'No se pudo leer el archivo del modelo.'));
+    };
+
+    return (
+        <div className="mt-4 text-sm text-slate-400">
+            ¿Ya tienes un modelo entrenado?{' '}
+            <label className="text-cyan-400 hover:text-cyan-300 font-semibold cursor-pointer">
+                Importar modelo (.json)
+                <input type="file" className="hidden" accept=".json,application/json" onChange={e => { if (e.target.files?.[0]) handleFile(e.target.files[0]); e.target.value = ''; }} />
+            </label>
+            {error && <p className="text-rose-400 mt-2">{error}</p>}
+        </div>
+    );
+};
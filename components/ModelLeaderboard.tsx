@@ -0,0 +1,75 @@
+import React from 'react';
+import type { ModelConfig } from '../types';
+import type { TrainingOutcome } from '../services/trainingService';
+import { MODEL_LABELS } from '../services/modelService';
+
+export interface LeaderboardEntry {
+    config: ModelConfig;
+    outcome: TrainingOutcome | null;
+    error: string | null;
+}
+
+const formatValue = (value: number | undefined) => value === undefined || isNaN(value) ? 'N/A' : value.toFixed(4);
+
+const describeHyperparameters = (outcome: TrainingOutcome) => {
+    const { hyperparameters } = outcome.results;
+    const parts: string[] = [];
+    if (hyperparameters.lambda !== undefined) parts.push(`λ = ${hyperparameters.lambda.toPrecision(3)}`);
+    if (hyperparameters.alpha !== undefined && outcome.results.modelType === 'elasticNet') parts.push(`α = ${hyperparameters.alpha.toFixed(2)}`);
+    if (hyperparameters.degree !== undefined) parts.push(`grado ${hyperparameters.degree}`);
+    if (hyperparameters.tuning !== undefined) parts.push(`c = ${hyperparameters.tuning}`);
+    return parts.join(', ') || '—';
+};
+
+export const ModelLeaderboard: React.FC<{ entries: LeaderboardEntry[]; onUseModel: (outcome: TrainingOutcome) => void }> = ({ entries, onUseModel }) => {
+    const ranked = [...entries].sort((a, b) => {
+        const rmseA = a.outcome?.results.testMetrics.rmse ?? Infinity;
+        const rmseB = b.outcome?.results.testMetrics.rmse ?? Infinity;
+        return rmseA - rmseB;
+    });
+    const validationLabel = ranked.find(e => e.outcome)?.outcome?.results.validation.mode === 'kfold' ? 'validación cruzada' : 'prueba';
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-md font-semibold mb-2 text-slate-300">Tabla Comparativa de Modelos</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-4 py-2">#</th>
+                            <th scope="col" className="px-4 py-2">Modelo</th>
+                            <th scope="col" className="px-4 py-2">Hiperparámetros</th>
+                            <th scope="col" className="px-4 py-2 text-right">R² entren.</th>
+                            <th scope="col" className="px-4 py-2 text-right">R² {validationLabel}</th>
+                            <th scope="col" className="px-4 py-2 text-right">RMSE {validationLabel}</th>
+                            <th scope="col" className="px-4 py-2 text-right">MAE {validationLabel}</th>
+                            <th scope="col" className="px-4 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ranked.map((entry, i) => (
+                            <tr key={`${entry.config.type}-${i}`} className={`border-b border-slate-700 ${i === 0 && entry.outcome ? 'bg-cyan-900/20' : 'bg-slate-800'}`}>
+                                <td className="px-4 py-2">{i + 1}</td>
+                                <td className="px-4 py-2 font-medium text-slate-200">{MODEL_LABELS[entry.config.type]}</td>
+                                {entry.outcome ? (
+                                    <>
+                                        <td className="px-4 py-2 font-mono text-xs">{describeHyperparameters(entry.outcome)}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{formatValue(entry.outcome.results.trainMetrics.rSquared)}</td>
+                                        <td className="px-4 py-2 text-right font-mono text-cyan-400">{formatValue(entry.outcome.results.testMetrics.rSquared)}</td>
+                                        <td className="px-4 py-2 text-right font-mono text-cyan-400">{formatValue(entry.outcome.results.testMetrics.rmse)}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{formatValue(entry.outcome.results.testMetrics.mae)}</td>
+                                        <td className="px-4 py-2">
+                                            <button onClick={() => onUseModel(entry.outcome as TrainingOutcome)} className="text-cyan-400 hover:text-cyan-300 text-xs font-semibold">Usar</button>
+                                        </td>
+                                    </>
+                                ) : (
+                                    <td colSpan={6} className="px-4 py-2 text-rose-400 text-xs">{entry.error}</td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
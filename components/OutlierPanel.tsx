@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import type { DataSet, ExclusionRecord } from '../types';
+import { detectUnivariateOutliers, IQR_MULTIPLIER, Z_SCORE_THRESHOLD } from '../services/outlierService';
+
+interface OutlierPanelProps {
+    dataSet: DataSet;
+    rowIndices: number[];
+    exclusions: ExclusionRecord[];
+    onExcludeRows: (rowIndices: number[], reason: string) => void;
+    onRestoreRows: (rowIndices: number[]) => void;
+}
+
+export const OutlierPanel: React.FC<OutlierPanelProps> = ({ dataSet, rowIndices, exclusions, onExcludeRows, onRestoreRows }) => {
+    const [selectedColumn, setSelectedColumn] = useState<string | null>(null);
+    const [selectedRows, setSelectedRows] = useState<number[]>([]);
+
+    const summaries = useMemo(
+        () => detectUnivariateOutliers(dataSet.data, dataSet.numericHeaders, rowIndices),
+        [dataSet.data, dataSet.numericHeaders, rowIndices]
+    );
+    const current = summaries.find(s => s.column === selectedColumn) ?? null;
+
+    const handleReview = (column: string) => {
+        setSelectedColumn(prev => (prev === column ? null : column));
+        setSelectedRows([]);
+    };
+
+    const handleRowToggle = (rowIndex: number) => {
+        setSelectedRows(prev => prev.includes(rowIndex) ? prev.filter(r => r !== rowIndex) : [...prev, rowIndex]);
+    };
+
+    const handleExclude = () => {
+        if (!current || selectedRows.length === 0) return;
+        onExcludeRows(selectedRows, `Outlier univariado en ${current.column}`);
+        setSelectedRows([]);
+    };
+
+    return (
+        <>
+            <p className="text-slate-400 mb-4 text-sm">
+                Valores fuera de Q1 − {IQR_MULTIPLIER}·IQR / Q3 + {IQR_MULTIPLIER}·IQR o con |z| &gt; {Z_SCORE_THRESHOLD}.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-6 py-3">Columna</th>
+                            <th scope="col" className="px-6 py-3">Límite inferior</th>
+                            <th scope="col" className="px-6 py-3">Límite superior</th>
+                            <th scope="col" className="px-6 py-3">Outliers IQR</th>
+                            <th scope="col" className="px-6 py-3">Outliers z</th>
+                            <th scope="col" className="px-6 py-3"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {summaries.map(summary => (
+                            <tr key={summary.column} className={`border-b border-slate-700 hover:bg-slate-700/50 ${selectedColumn === summary.column ? 'bg-slate-700' : 'bg-slate-800'}`}>
+                                <td className="px-6 py-3 font-medium text-slate-200">{summary.column}</td>
+                                <td className="px-6 py-3 font-mono">{isNaN(summary.lowerFence) ? 'N/A' : summary.lowerFence.toFixed(2)}</td>
+                                <td className="px-6 py-3 font-mono">{isNaN(summary.upperFence) ? 'N/A' : summary.upperFence.toFixed(2)}</td>
+                                <td className={`px-6 py-3 ${summary.iqrCount > 0 ? 'text-amber-400' : ''}`}>{summary.iqrCount}</td>
+                                <td className={`px-6 py-3 ${summary.zCount > 0 ? 'text-amber-400' : ''}`}>{summary.zCount}</td>
+                                <td className="px-6 py-3">
+                                    {summary.flagged.length > 0 && (
+                                        <button onClick={() => handleReview(summary.column)} className="text-cyan-400 hover:text-cyan-300 text-xs font-semibold">
+                                            {selectedColumn === summary.column ? 'Ocultar' : 'Revisar'}
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {current && (
+                <div className="mt-4 p-3 bg-slate-700/50 rounded-lg">
+                    <h4 className="text-sm font-semibold text-slate-300 mb-2">Filas marcadas en «{current.column}»</h4>
+                    <div className="max-h-56 overflow-y-auto">
+                        <table className="w-full text-xs text-left text-slate-400">
+                            <thead className="text-slate-300 uppercase bg-slate-700 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-3 py-2"></th>
+                                    <th scope="col" className="px-3 py-2">Fila</th>
+                                    <th scope="col" className="px-3 py-2">Valor</th>
+                                    <th scope="col" className="px-3 py-2">z</th>
+                                    <th scope="col" className="px-3 py-2">Método</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {current.flagged.map(f => (
+                                    <tr key={f.rowIndex} className="bg-slate-800 border-b border-slate-700">
+                                        <td className="px-3 py-1">
+                                            <input type="checkbox" checked={selectedRows.includes(f.rowIndex)} onChange={() => handleRowToggle(f.rowIndex)} className="w-4 h-4 text-cyan-600 bg-slate-600 border-slate-500 rounded focus:ring-cyan-500" />
+                                        </td>
+                                        <td className="px-3 py-1">{f.rowIndex + 1}</td>
+                                        <td className="px-3 py-1 font-mono">{f.value.toFixed(2)}</td>
+                                        <td className="px-3 py-1 font-mono">{f.zScore.toFixed(2)}</td>
+                                        <td className="px-3 py-1">{[f.byIqr && 'IQR', f.byZ && 'z'].filter(Boolean).join(', ')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex gap-2 mt-3">
+                        <button onClick={() => setSelectedRows(current.flagged.map(f => f.rowIndex))} className="px-3 py-1.5 bg-slate-600 hover:bg-slate-500 text-white text-sm rounded-lg">
+                            Seleccionar todas
+                        </button>
+                        <button onClick={handleExclude} disabled={selectedRows.length === 0} className="px-3 py-1.5 bg-rose-600 hover:bg-rose-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            Excluir {selectedRows.length} fila(s)
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {exclusions.length > 0 && (
+                <div className="mt-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-semibold text-slate-300">Filas excluidas ({exclusions.length})</h4>
+                        <button onClick={() => onRestoreRows(exclusions.map(e => e.rowIndex))} className="text-cyan-400 hover:text-cyan-300 text-xs font-semibold">
+                            Restaurar todas
+                        </button>
+                    </div>
+                    <ul className="max-h-40 overflow-y-auto text-xs text-slate-400 space-y-1">
+                        {exclusions.map(e => (
+                            <li key={e.rowIndex} className="flex items-center justify-between p-1 rounded hover:bg-slate-700/50">
+                                <span>Fila {e.rowIndex + 1} — {e.reason} <span className="text-slate-500">({new Date(e.excludedAt).toLocaleString()})</span></span>
+                                <button onClick={() => onRestoreRows([e.rowIndex])} className="text-cyan-400 hover:text-cyan-300 font-semibold ml-2">Restaurar</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="mt-2 text-xs text-slate-500">Vuelve a entrenar el modelo para aplicar los cambios.</p>
+                </div>
+            )}
+        </>
+    );
+};
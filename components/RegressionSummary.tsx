@@ -0,0 +1,130 @@
+import React from 'react';
+import type { ModelResults } from '../types';
+import { INTERCEPT_LABEL, COVARIANCE_LABELS } from '../services/regressionService';
+import { MODEL_LABELS } from '../services/modelService';
+import { RobustComparison } from './RobustComparison';
+
+const significanceCode = (pValue: number) => {
+    if (isNaN(pValue)) return '';
+    if (pValue < 0.001) return '***';
+    if (pValue < 0.01) return '**';
+    if (pValue < 0.05) return '*';
+    if (pValue < 0.1) return '.';
+    return '';
+};
+
+const formatPValue = (pValue: number) => {
+    if (isNaN(pValue)) return 'N/A';
+    return pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4);
+};
+
+const formatNumber = (value: number) => isNaN(value) ? 'N/A' : value.toFixed(4);
+
+const PenalizedSummary: React.FC<{ results: ModelResults }> = ({ results }) => (
+    <>
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-slate-400 font-mono">
+                <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                    <tr>
+                        <th scope="col" className="px-4 py-2"></th>
+                        <th scope="col" className="px-4 py-2 text-right">coef</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {[INTERCEPT_LABEL, ...results.termNames].map((name, i) => {
+                        const estimate = i === 0 ? results.intercept : results.coefficients[i - 1];
+                        return (
+                            <tr key={name} className="bg-slate-800 border-b border-slate-700 hover:bg-slate-700/50">
+                                <td className="px-4 py-2 font-sans font-medium text-slate-200 whitespace-nowrap">{name}</td>
+                                <td className={`px-4 py-2 text-right ${estimate === 0 ? 'text-slate-500' : 'text-sky-400'}`}>{formatNumber(estimate)}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">
+            λ = {results.hyperparameters.lambda?.toPrecision(4)}. Los modelos penalizados sesgan los coeficientes hacia cero, por lo que no se reportan errores estándar ni p-valores.
+        </p>
+    </>
+);
+
+export const RegressionSummary: React.FC<{ results: ModelResults; dependentVar: string }> = ({ results, dependentVar }) => {
+    const { inference } = results;
+    if (!inference) {
+        return (
+            <div className="mt-8">
+                <h3 className="text-lg font-semibold mb-4 text-slate-300">Coeficientes ({MODEL_LABELS[results.modelType]})</h3>
+                <PenalizedSummary results={results} />
+            </div>
+        );
+    }
+    const level = Math.round(inference.confidenceLevel * 100);
+    const lowerLabel = ((1 - inference.confidenceLevel) / 2).toFixed(3);
+    const upperLabel = (1 - (1 - inference.confidenceLevel) / 2).toFixed(3);
+
+    const heteroscedasticityConsistent = (inference.covariance ?? 'classical') !== 'classical';
+
+    const header: [string, string][] = [
+        ['Variable dependiente', dependentVar],
+        ['Observaciones', String(results.trainSize)],
+        ['Gl. del modelo', String(inference.dfModel)],
+        ['Gl. de los residuos', String(inference.dfResidual)],
+        ['R²', formatNumber(results.rSquared)],
+        ['R² ajustado', formatNumber(results.rSquaredAdjusted)],
+        [heteroscedasticityConsistent ? 'Estadístico F (Wald)' : 'Estadístico F', formatNumber(inference.fStatistic)],
+        ['Prob (F)', formatPValue(inference.fPValue)],
+        ['Error estándar residual', formatNumber(inference.residualStdError)],
+        ['Errores estándar', COVARIANCE_LABELS[inference.covariance ?? 'classical']],
+        ['Pesos', results.weightColumn ?? 'ninguno'],
+    ];
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-4 text-slate-300">Resumen de la Regresión ({MODEL_LABELS[results.modelType]})</h3>
+            <div className="grid sm:grid-cols-3 gap-x-6 gap-y-1 p-4 mb-4 bg-slate-900/50 rounded-lg border border-slate-700 font-mono text-xs">
+                {header.map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                        <span className="text-slate-400">{label}:</span>
+                        <span className="text-slate-200">{value}</span>
+                    </div>
+                ))}
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400 font-mono">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-4 py-2"></th>
+                            <th scope="col" className="px-4 py-2 text-right">coef</th>
+                            <th scope="col" className="px-4 py-2 text-right">error est.</th>
+                            <th scope="col" className="px-4 py-2 text-right">t</th>
+                            <th scope="col" className="px-4 py-2 text-right">P&gt;|t|</th>
+                            <th scope="col" className="px-4 py-2 text-right">[{lowerLabel}</th>
+                            <th scope="col" className="px-4 py-2 text-right">{upperLabel}]</th>
+                            <th scope="col" className="px-2 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {inference.coefficientStats.map(stat => (
+                            <tr key={stat.name} className="bg-slate-800 border-b border-slate-700 hover:bg-slate-700/50">
+                                <td className="px-4 py-2 font-sans font-medium text-slate-200 whitespace-nowrap">{stat.name}</td>
+                                <td className="px-4 py-2 text-right text-sky-400">{formatNumber(stat.estimate)}</td>
+                                <td className="px-4 py-2 text-right">{formatNumber(stat.stdError)}</td>
+                                <td className="px-4 py-2 text-right">{formatNumber(stat.tStat)}</td>
+                                <td className={`px-4 py-2 text-right ${stat.pValue < 0.05 ? 'text-green-400' : 'text-slate-400'}`}>{formatPValue(stat.pValue)}</td>
+                                <td className="px-4 py-2 text-right">{formatNumber(stat.ciLower)}</td>
+                                <td className="px-4 py-2 text-right">{formatNumber(stat.ciUpper)}</td>
+                                <td className="px-2 py-2 text-cyan-400">{significanceCode(stat.pValue)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+                Intervalos de confianza al {level}%. Códigos de significancia: 0 '***' 0.001 '**' 0.01 '*' 0.05 '.' 0.1 ' ' 1
+                {results.robust && ' Los errores de la regresión robusta tratan los pesos finales de IRLS como fijos, así que son aproximados.'}
+            </p>
+            {results.robust && <RobustComparison results={results} robust={results.robust} />}
+        </div>
+    );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { buildReport, renderHtml, renderMarkdown, reportFileName } from '../services/reportService';
+import type { AnalysisReport, ReportInput } from '../services/reportService';
+import { triggerDownload } from '../services/fileService';
+import { computeStatisticsInWorker, ComputationCancelledError } from '../services/computeClient';
+import type { TaskProgress } from '../types';
+import { TaskProgressBar } from './TaskProgressBar';
+
+/** Statistics are computed on demand, in the compute worker, when a report is actually requested. */
+type ReportExportProps = Omit<ReportInput, 'stats' | 'correlation'>;
+
+export const ReportExport: React.FC<ReportExportProps> = input => {
+    const [error, setError] = useState<string | null>(null);
+    const [job, setJob] = useState<AbortController | null>(null);
+    const [progress, setProgress] = useState<TaskProgress | null>(null);
+
+    // `discard` undoes any preparation (the print window) when the report is cancelled or fails.
+    const exportReport = (deliver: (report: AnalysisReport) => void, discard = () => undefined) => {
+        const controller = new AbortController();
+        setError(null);
+        setJob(controller);
+        setProgress(null);
+        computeStatisticsInWorker(input.dataSet, { signal: controller.signal, onProgress: setProgress })
+            .then(({ stats, correlation }) => deliver(buildReport({ ...input, stats, correlation })))
+            .catch(err => {
+                discard();
+                if (err instanceof ComputationCancelledError) return;
+                setError('No se pudo generar el informe.');
+                console.error(err);
+            })
+            .finally(() => setJob(null));
+    };
+
+    const handleHtml = () => exportReport(report =>
+        triggerDownload(new Blob([renderHtml(report)], { type: 'text/html;charset=utf-8' }), reportFileName(report, 'html')));
+
+    const handleMarkdown = () => exportReport(report =>
+        triggerDownload(new Blob([renderMarkdown(report)], { type: 'text/markdown;charset=utf-8' }), reportFileName(report, 'md')));
+
+    // The browser's print dialog produces the PDF ("Guardar como PDF"); the report's print styles handle the layout.
+    // The window is opened straight from the click, before the statistics arrive, so pop-up blockers allow it.
+    const handlePdf = () => {
+        setError(null);
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            setError('El navegador bloqueó la ventana de impresión. Permite las ventanas emergentes para este sitio.');
+            return;
+        }
+        exportReport(report => {
+            printWindow.document.write(renderHtml(report));
+            printWindow.document.close();
+            printWindow.focus();
+            printWindow.print();
+        }, () => printWindow.close());
+    };
+
+    const sections = [
+        'resumen y estadísticas descriptivas',
+        'matriz de correlación',
+        input.insights.trim() ? 'análisis con IA' : null,
+        input.model ? 'modelo, métricas y diagnósticos' : null,
+        input.predictions.length > 0 ? `${input.predictions.length} predicción(es)` : null,
+    ].filter(Boolean);
+
+    return (
+        <>
+            <p className="text-slate-400 mb-4 text-sm">
+                Descarga un informe autocontenido con el estado actual del análisis: {sections.join(', ')}.
+            </p>
+            <div className="flex flex-wrap gap-3">
+                <button onClick={handleHtml} disabled={!!job} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Descargar HTML
+                </button>
+                <button onClick={handleMarkdown} disabled={!!job} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Descargar Markdown
+                </button>
+                <button onClick={handlePdf} disabled={!!job} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Imprimir / PDF
+                </button>
+            </div>
+            {job && <div className="mt-3"><TaskProgressBar progress={progress} onCancel={() => job.abort()} /></div>}
+            {error && <p className="text-rose-400 mt-2 text-sm">{error}</p>}
+        </>
+    );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { ModelResults, RobustFitSummary } from '../types';
+import { INTERCEPT_LABEL } from '../services/regressionService';
+import { MODEL_LABELS } from '../services/modelService';
+
+// Rows whose IRLS weight falls below this are listed as the ones the robust fit discounted.
+const DOWNWEIGHTED_THRESHOLD = 0.5;
+const MAX_LISTED_ROWS = 10;
+
+const formatNumber = (value: number) => isNaN(value) ? 'N/A' : value.toFixed(4);
+
+const relativeChange = (from: number, to: number) => (from === 0 ? NaN : ((to - from) / Math.abs(from)) * 100);
+
+export const RobustComparison: React.FC<{ results: ModelResults; robust: RobustFitSummary }> = ({ results, robust }) => {
+    const leastSquaresLabel = results.weightColumn ? 'MCP' : 'MCO';
+    const rows = [INTERCEPT_LABEL, ...results.termNames].map((name, i) => ({
+        name,
+        ols: i === 0 ? robust.olsIntercept : robust.olsCoefficients[i - 1],
+        robust: i === 0 ? results.intercept : results.coefficients[i - 1],
+    }));
+    const downweighted = robust.weights
+        .map((weight, i) => ({ weight, rowIndex: results.trainRowIndices[i], residual: results.residuals[i] }))
+        .filter(r => r.weight < DOWNWEIGHTED_THRESHOLD)
+        .sort((a, b) => a.weight - b.weight);
+
+    return (
+        <div className="mt-6">
+            <h4 className="text-md font-semibold mb-2 text-slate-300">{MODEL_LABELS[results.modelType]} frente a {leastSquaresLabel}</h4>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400 font-mono">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-4 py-2"></th>
+                            <th scope="col" className="px-4 py-2 text-right">{leastSquaresLabel}</th>
+                            <th scope="col" className="px-4 py-2 text-right">Robusta</th>
+                            <th scope="col" className="px-4 py-2 text-right">Cambio</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => {
+                            const change = relativeChange(row.ols, row.robust);
+                            return (
+                                <tr key={row.name} className="bg-slate-800 border-b border-slate-700 hover:bg-slate-700/50">
+                                    <td className="px-4 py-2 font-sans font-medium text-slate-200 whitespace-nowrap">{row.name}</td>
+                                    <td className="px-4 py-2 text-right">{formatNumber(row.ols)}</td>
+                                    <td className="px-4 py-2 text-right text-sky-400">{formatNumber(row.robust)}</td>
+                                    <td className={`px-4 py-2 text-right ${Math.abs(change) >= 10 ? 'text-amber-400' : ''}`}>
+                                        {isNaN(change) ? 'N/A' : `${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+                Escala robusta de los residuos: {formatNumber(robust.scale)} · {robust.iterations} iteraciones
+                {robust.converged ? '' : ' (sin converger: los coeficientes pueden no ser definitivos)'}.
+                Los cambios de más del 10% (en ámbar) indican coeficientes que los valores atípicos estaban desplazando.
+            </p>
+            {robust.weights.length === 0 ? (
+                <p className="mt-2 text-xs text-slate-500">El historial no guarda los pesos fila a fila; vuelve a entrenar este modelo para ver qué filas descontó.</p>
+            ) : downweighted.length > 0 ? (
+                <p className="mt-2 text-xs text-slate-400">
+                    {downweighted.length} filas de entrenamiento pesan menos de la mitad en el ajuste robusto. Las de menor peso:{' '}
+                    {downweighted.slice(0, MAX_LISTED_ROWS).map(r => `fila ${r.rowIndex + 1} (peso ${r.weight.toFixed(2)}, residuo ${formatNumber(r.residual)})`).join(', ')}
+                    {downweighted.length > MAX_LISTED_ROWS ? '…' : '.'}
+                </p>
+            ) : (
+                <p className="mt-2 text-xs text-slate-400">Ninguna fila perdió más de la mitad de su peso: no hay valores atípicos que dominen el ajuste.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import type { DataRow, DescriptiveStats } from '../types';
+import type { ScoringModel } from '../services/predictionService';
+import { createScenario, predictScenario, sensitivityBars } from '../services/scenarioService';
+import type { Scenario } from '../services/scenarioService';
+import { ExportableChart, TornadoChart } from './Charts';
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface ScenarioPlannerProps {
+    /** Current values of the prediction form. */
+    inputs: DataRow;
+    /** Form defaults, used for columns a scenario saved under another model does not have. */
+    defaults: DataRow;
+    inputColumns: string[];
+    inputStats: DescriptiveStats;
+    scoring: ScoringModel;
+    dependentVar: string;
+    scenarios: Scenario[];
+    onScenariosChange: (scenarios: Scenario[]) => void;
+    onLoadScenario: (inputs: DataRow) => void;
+}
+
+export const ScenarioPlanner: React.FC<ScenarioPlannerProps> = ({
+    inputs, defaults, inputColumns, inputStats, scoring, dependentVar, scenarios, onScenariosChange, onLoadScenario
+}) => {
+    const [name, setName] = useState('');
+    const live = useMemo(() => predictScenario(inputs, scoring), [inputs, scoring]);
+    const bars = useMemo(() => sensitivityBars(inputs, inputStats, scoring), [inputs, inputStats, scoring]);
+    const evaluated = useMemo(() => scenarios.map(scenario => {
+        const values = { ...defaults, ...Object.fromEntries(inputColumns.filter(c => c in scenario.inputs).map(c => [c, scenario.inputs[c]])) };
+        return { scenario, values, result: predictScenario(values, scoring) };
+    }), [scenarios, defaults, inputColumns, scoring]);
+
+    const handleSave = () => {
+        const scenarioName = name.trim() || `Escenario ${scenarios.length + 1}`;
+        onScenariosChange([...scenarios, createScenario(scenarioName, inputs)]);
+        setName('');
+    };
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-2 text-slate-300">Planificador de Escenarios</h3>
+            <p className="text-sm text-slate-400 mb-4">
+                Predicción en vivo con los valores actuales:{' '}
+                <span className="font-mono text-green-400">{live ? formatValue(live.value) : 'valores no válidos'}</span>
+                {live?.intervals && (
+                    <span className="text-slate-500"> (IP {Math.round(live.intervals.confidenceLevel * 100)}% [{formatValue(live.intervals.prediction[0])}, {formatValue(live.intervals.prediction[1])}])</span>
+                )}
+            </p>
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+                <div>
+                    <label htmlFor="scenario-name" className="block mb-1 text-xs text-slate-400">Nombre del escenario</label>
+                    <input
+                        id="scenario-name" type="text" value={name} placeholder={`Escenario ${scenarios.length + 1}`} onChange={e => setName(e.target.value)}
+                        className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-56 p-2"
+                    />
+                </div>
+                <button onClick={handleSave} disabled={!live} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Guardar escenario
+                </button>
+            </div>
+            {evaluated.length > 0 && (
+                <div className="overflow-x-auto mb-6">
+                    <table className="w-full text-xs text-left text-slate-400">
+                        <thead className="text-slate-300 uppercase bg-slate-700">
+                            <tr>
+                                <th scope="col" className="px-3 py-2">Variable</th>
+                                {evaluated.map(({ scenario }) => <th key={scenario.id} scope="col" className="px-3 py-2 text-right normal-case">{scenario.name}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {inputColumns.map(column => (
+                                <tr key={column} className="bg-slate-800 border-b border-slate-700">
+                                    <td className="px-3 py-1.5 font-medium text-slate-200">{column}</td>
+                                    {evaluated.map(({ scenario, values }) => (
+                                        <td key={scenario.id} className={`px-3 py-1.5 text-right font-mono ${column in scenario.inputs ? '' : 'text-slate-600'}`}>
+                                            {values[column] === '' ? '(imputar)' : typeof values[column] === 'number' ? formatValue(values[column] as number) : String(values[column])}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                            <tr className="bg-slate-900/60 border-b border-slate-700">
+                                <td className="px-3 py-2 font-semibold text-slate-200">{dependentVar}</td>
+                                {evaluated.map(({ scenario, result }) => (
+                                    <td key={scenario.id} className="px-3 py-2 text-right font-mono font-semibold text-green-400">{result ? formatValue(result.value) : 'N/A'}</td>
+                                ))}
+                            </tr>
+                            <tr className="bg-slate-800 border-b border-slate-700">
+                                <td className="px-3 py-1.5 text-slate-300">IP</td>
+                                {evaluated.map(({ scenario, result }) => (
+                                    <td key={scenario.id} className="px-3 py-1.5 text-right font-mono">
+                                        {result?.intervals ? `[${formatValue(result.intervals.prediction[0])}, ${formatValue(result.intervals.prediction[1])}]` : '—'}
+                                    </td>
+                                ))}
+                            </tr>
+                            <tr className="bg-slate-800">
+                                <td className="px-3 py-1.5"></td>
+                                {evaluated.map(({ scenario, values }) => (
+                                    <td key={scenario.id} className="px-3 py-1.5 text-right whitespace-nowrap font-semibold">
+                                        <button onClick={() => onLoadScenario(values)} className="text-cyan-400 hover:text-cyan-300">Cargar</button>
+                                        <button onClick={() => onScenariosChange(scenarios.filter(s => s.id !== scenario.id))} className="ml-3 text-rose-400 hover:text-rose-300">Eliminar</button>
+                                    </td>
+                                ))}
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {live && (
+                <>
+                    <h4 className="text-md font-semibold mb-2 text-slate-300">Análisis de Sensibilidad</h4>
+                    <p className="text-xs text-slate-500 mb-2">
+                        Cada barra muestra la predicción al llevar una variable a su mínimo (ámbar) y a su máximo (cian) observados,
+                        con las demás en sus valores actuales; la línea amarilla es la predicción actual.
+                    </p>
+                    <ExportableChart title={`Sensibilidad de ${dependentVar}`} fileName={`tornado_${dependentVar}`}>
+                        <TornadoChart bars={bars} base={live.value} xLabel={dependentVar} />
+                    </ExportableChart>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { ColumnSchema, ColumnType, DataRow, DecimalSeparator } from '../types';
+import { COLUMN_TYPE_LABELS, validateSchema } from '../services/schemaService';
+
+const PREVIEW_ROWS = 8;
+
+const inputClassName = 'bg-slate-700 border border-slate-600 text-white text-xs rounded focus:ring-cyan-500 focus:border-cyan-500 block w-full p-1.5';
+
+const confidenceColor = (confidence: number) => {
+    if (confidence >= 0.99) return 'text-green-400';
+    if (confidence >= 0.9) return 'text-amber-400';
+    return 'text-rose-400';
+};
+
+const formatRaw = (value: unknown) => {
+    if (value instanceof Date) return value.toLocaleDateString();
+    return value === undefined || value === null ? '' : String(value);
+};
+
+interface SchemaEditorProps {
+    rows: DataRow[];
+    fileName: string;
+    initialSchema: ColumnSchema[];
+    warnings: string[];
+    onConfirm: (schema: ColumnSchema[]) => void;
+    onCancel: () => void;
+}
+
+export const SchemaEditor: React.FC<SchemaEditorProps> = ({ rows, fileName, initialSchema, warnings, onConfirm, onCancel }) => {
+    const [schema, setSchema] = useState(initialSchema);
+    const errors = validateSchema(schema);
+
+    const updateColumn = (source: string, changes: Partial<ColumnSchema>) => {
+        setSchema(prev => prev.map(c => (c.source === source ? { ...c, ...changes } : c)));
+    };
+
+    return (
+        <div>
+            <p className="text-slate-400 mb-3 text-sm">
+                <span className="text-slate-200 font-medium">{fileName}</span>: {rows.length} filas, {schema.length} columnas.
+                Revisa el tipo detectado de cada columna (la confianza es el % de valores que encajan con él), renómbrala o exclúyela antes de cargar.
+            </p>
+            {warnings.length > 0 && (
+                <div className="mb-3 p-3 bg-amber-900/20 border border-amber-700/50 rounded-lg text-xs text-amber-300">
+                    <p className="font-semibold mb-1">Avisos al leer el archivo:</p>
+                    <ul className="list-disc list-inside space-y-0.5">
+                        {warnings.map(w => <li key={w}>{w}</li>)}
+                    </ul>
+                </div>
+            )}
+            <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                <table className="text-xs text-left text-slate-400">
+                    <thead className="bg-slate-700 text-slate-300 align-top">
+                        <tr>
+                            {schema.map(column => (
+                                <th key={column.source} scope="col" className={`px-2 py-2 min-w-[9rem] space-y-1 ${column.include ? '' : 'opacity-50'}`}>
+                                    <label className="flex items-center space-x-1 font-normal">
+                                        <input type="checkbox" checked={column.include} onChange={e => updateColumn(column.source, { include: e.target.checked })} className="h-3.5 w-3.5 rounded bg-slate-600 border-slate-500 text-cyan-500 focus:ring-cyan-600" />
+                                        <span>Incluir</span>
+                                    </label>
+                                    <input type="text" aria-label={`Nombre de ${column.source}`} value={column.name} onChange={e => updateColumn(column.source, { name: e.target.value })} className={inputClassName} />
+                                    <select aria-label={`Tipo de ${column.source}`} value={column.type} onChange={e => updateColumn(column.source, { type: e.target.value as ColumnType })} className={inputClassName}>
+                                        {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(t => <option key={t} value={t}>{COLUMN_TYPE_LABELS[t]}</option>)}
+                                    </select>
+                                    {column.type === 'numeric' && (
+                                        <select aria-label={`Separador decimal de ${column.source}`} value={column.decimal} onChange={e => updateColumn(column.source, { decimal: e.target.value as DecimalSeparator })} className={inputClassName}>
+                                            <option value=",">Decimal: coma (1.234,5)</option>
+                                            <option value=".">Decimal: punto (1,234.5)</option>
+                                        </select>
+                                    )}
+                                    <p className={`font-normal ${confidenceColor(column.confidence)}`}>Confianza: {(column.confidence * 100).toFixed(0)}%</p>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                            <tr key={i} className="bg-slate-800 border-t border-slate-700">
+                                {schema.map(column => (
+                                    <td key={column.source} className={`px-2 py-1.5 font-mono whitespace-nowrap ${column.include ? '' : 'opacity-40'}`}>{formatRaw(row[column.source])}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {errors.map(error => <p key={error} className="text-rose-400 mt-2 text-sm">{error}</p>)}
+            <div className="flex justify-end gap-3 mt-4">
+                <button onClick={onCancel} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white text-sm font-semibold rounded-lg">
+                    Cancelar
+                </button>
+                <button onClick={() => onConfirm(schema)} disabled={errors.length > 0} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Cargar datos
+                </button>
+            </div>
+        </div>
+    );
+};
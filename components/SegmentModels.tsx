@@ -0,0 +1,76 @@
+import React from 'react';
+import { INTERCEPT_LABEL } from '../services/regressionService';
+import type { SegmentResult } from '../services/segmentService';
+import type { TrainingOutcome } from '../services/trainingService';
+
+const formatValue = (value: number | undefined) => value === undefined || isNaN(value) ? 'N/A' : value.toFixed(4);
+
+interface SegmentModelsProps {
+    column: string;
+    segments: SegmentResult[];
+    onUseModel: (outcome: TrainingOutcome, level: string) => void;
+}
+
+export const SegmentModels: React.FC<SegmentModelsProps> = ({ column, segments, onUseModel }) => {
+    const trained = segments.filter(s => s.outcome);
+    // Segments share the chosen variables, so any trained one gives the term names.
+    const termNames = trained[0]?.outcome?.results.termNames ?? [];
+    const validationLabel = trained[0]?.outcome?.results.validation.mode === 'kfold' ? 'val. cruzada' : 'prueba';
+    const flagged = segments.filter(s => s.tooSmall || s.error || s.warning).length;
+
+    return (
+        <div className="mt-6">
+            <h3 className="text-md font-semibold mb-2 text-slate-300">Modelos por Segmento ({column})</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-700">
+                        <tr>
+                            <th scope="col" className="px-3 py-2">Segmento</th>
+                            <th scope="col" className="px-3 py-2 text-right">Filas</th>
+                            <th scope="col" className="px-3 py-2 text-right">R² {validationLabel}</th>
+                            <th scope="col" className="px-3 py-2 text-right">RMSE {validationLabel}</th>
+                            {[INTERCEPT_LABEL, ...termNames].map(name => (
+                                <th key={name} scope="col" className="px-3 py-2 text-right normal-case">{name}</th>
+                            ))}
+                            <th scope="col" className="px-3 py-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {segments.map(segment => {
+                            const results = segment.outcome?.results;
+                            return (
+                                <tr key={segment.level} className={`border-b border-slate-700 ${segment.outcome ? 'bg-slate-800' : 'bg-amber-900/10'}`}>
+                                    <td className="px-3 py-2 font-medium text-slate-200 whitespace-nowrap">{segment.level}</td>
+                                    <td className="px-3 py-2 text-right font-mono" title={`${segment.completeRows} completas de ${segment.rowCount}`}>
+                                        {segment.completeRows}{segment.completeRows !== segment.rowCount && <span className="text-slate-500"> / {segment.rowCount}</span>}
+                                    </td>
+                                    {results ? (
+                                        <>
+                                            <td className="px-3 py-2 text-right font-mono text-cyan-400">{formatValue(results.testMetrics.rSquared)}</td>
+                                            <td className="px-3 py-2 text-right font-mono text-cyan-400">{formatValue(results.testMetrics.rmse)}</td>
+                                            <td className="px-3 py-2 text-right font-mono">{formatValue(results.intercept)}</td>
+                                            {results.coefficients.map((c, i) => <td key={i} className="px-3 py-2 text-right font-mono text-sky-400">{formatValue(c)}</td>)}
+                                            <td className="px-3 py-2 whitespace-nowrap">
+                                                <button onClick={() => onUseModel(segment.outcome as TrainingOutcome, segment.level)} className="text-cyan-400 hover:text-cyan-300 text-xs font-semibold">Usar</button>
+                                                {segment.warning && <span className="ml-2 text-amber-400 text-xs" title={segment.warning}>⚠</span>}
+                                            </td>
+                                        </>
+                                    ) : (
+                                        <td colSpan={termNames.length + 4} className={`px-3 py-2 text-xs ${segment.tooSmall ? 'text-amber-400' : 'text-rose-400'}`}>
+                                            {segment.tooSmall ? 'Pocas filas: ' : ''}{segment.error}
+                                        </td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+                Cada segmento se entrena por separado con las mismas variables, modelo y validación.
+                {flagged > 0 && ` ${flagged} segmentos están marcados: sin modelo (en ámbar) o con pocas filas por coeficiente (⚠).`}
+                {' '}Usa "Usar" para predecir y diagnosticar con el modelo de un segmento.
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import type { WorkBook } from 'xlsx';
+import type { DataRow } from '../types';
+import { sheetToRows } from '../services/fileService';
+
+const selectClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2';
+
+interface SheetPickerProps {
+    workbook: WorkBook;
+    fileName: string;
+    onConfirm: (rows: DataRow[]) => void;
+    onCancel: () => void;
+}
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ workbook, fileName, onConfirm, onCancel }) => {
+    const [sheetName, setSheetName] = useState(workbook.SheetNames[0]);
+    const [headerRow, setHeaderRow] = useState(1);
+
+    const preview = useMemo(() => {
+        try {
+            const rows = sheetToRows(workbook, sheetName, headerRow);
+            return { rows, columns: rows.length > 0 ? Object.keys(rows[0]) : [], error: null };
+        } catch (err) {
+            return { rows: [] as DataRow[], columns: [] as string[], error: err instanceof Error ? err.message : 'No se pudo leer la hoja.' };
+        }
+    }, [workbook, sheetName, headerRow]);
+
+    return (
+        <div className="p-4 bg-slate-700/50 rounded-lg">
+            <p className="text-sm text-slate-400 mb-3">
+                <span className="text-slate-200 font-medium">{fileName}</span> tiene {workbook.SheetNames.length} hoja(s). Elige la hoja y la fila que contiene los nombres de las columnas.
+            </p>
+            <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="sheet-name" className="block mb-1 text-xs text-slate-400">Hoja</label>
+                    <select id="sheet-name" value={sheetName} onChange={e => setSheetName(e.target.value)} className={selectClassName}>
+                        {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="header-row" className="block mb-1 text-xs text-slate-400">Fila de encabezados</label>
+                    <input type="number" id="header-row" min={1} value={headerRow} onChange={e => setHeaderRow(Math.max(1, parseInt(e.target.value, 10) || 1))} className={selectClassName} />
+                </div>
+            </div>
+            {preview.error ? (
+                <p className="text-rose-400 mt-3 text-sm">{preview.error}</p>
+            ) : (
+                <p className="text-xs text-slate-400 mt-3">
+                    {preview.rows.length} filas · Columnas: <span className="font-mono text-cyan-400">{preview.columns.join(', ') || '—'}</span>
+                </p>
+            )}
+            <div className="flex justify-end gap-3 mt-4">
+                <button onClick={onCancel} className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-white text-sm font-semibold rounded-lg">
+                    Cancelar
+                </button>
+                <button onClick={() => onConfirm(preview.rows)} disabled={preview.rows.length === 0} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Continuar
+                </button>
+            </div>
+        </div>
+    );
+};
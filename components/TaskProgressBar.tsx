@@ -0,0 +1,26 @@
+import React from 'react';
+import type { TaskProgress } from '../types';
+
+interface TaskProgressBarProps {
+    /** Null until the computation reports its first step. */
+    progress: TaskProgress | null;
+    onCancel: () => void;
+}
+
+export const TaskProgressBar: React.FC<TaskProgressBarProps> = ({ progress, onCancel }) => {
+    const percent = Math.round(Math.min(1, Math.max(0, progress?.fraction ?? 0)) * 100);
+    return (
+        <div className="p-4 bg-slate-900/50 rounded-lg border border-slate-700" role="status">
+            <div className="flex justify-between items-center mb-2 text-sm">
+                <span className="text-slate-300">{progress?.phase ?? 'Preparando el cálculo'}…</span>
+                <span className="font-mono text-cyan-400">{percent}%</span>
+            </div>
+            <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 transition-all duration-200" style={{ width: `${percent}%` }} />
+            </div>
+            <button onClick={onCancel} className="mt-3 text-rose-400 hover:text-rose-300 text-xs font-semibold">
+                Cancelar
+            </button>
+        </div>
+    );
+};
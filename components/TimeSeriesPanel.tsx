@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import type { DataSet, FeatureStep, SeasonalPeriod, TimeFrequency, TimeSeriesConfig } from '../types';
+import { buildSeasonalStep, buildTrendStep, createStepId, featureOutputColumns } from '../services/featureService';
+import { dateColumns, inferFrequency, summarizeSeries, FREQUENCY_LABELS, SEASONAL_PERIOD_LABELS } from '../services/timeSeriesService';
+
+const selectClassName = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2';
+
+/** Seasonality that makes sense for each sampling frequency. */
+const SEASONAL_PERIOD_FOR: Record<TimeFrequency, SeasonalPeriod | null> = {
+    day: 'weekday',
+    week: 'month',
+    month: 'month',
+    quarter: 'quarter',
+    year: null,
+};
+
+/** Lags suggested by default: the previous period and the same period one season earlier. */
+const DEFAULT_LAGS: Record<TimeFrequency, string> = {
+    day: '1, 7',
+    week: '1, 52',
+    month: '1, 12',
+    quarter: '1, 4',
+    year: '1',
+};
+
+const parseLags = (text: string) =>
+    [...new Set(text.split(/[,;\s]+/).map(v => parseInt(v, 10)).filter(v => v >= 1))].sort((a, b) => a - b);
+
+interface TimeSeriesPanelProps {
+    /** Engineered dataset, so derived columns can be lagged and duplicates detected. */
+    dataSet: DataSet;
+    config: TimeSeriesConfig | null;
+    /** Rows moved to the end and excluded because their date is missing or invalid. */
+    undatedRows: number;
+    onConfigChange: (config: TimeSeriesConfig | null) => void;
+    onAddSteps: (steps: FeatureStep[]) => void;
+}
+
+export const TimeSeriesPanel: React.FC<TimeSeriesPanelProps> = ({ dataSet, config, undatedRows, onConfigChange, onAddSteps }) => {
+    const dateHeaders = useMemo(() => dateColumns(dataSet), [dataSet]);
+    const [lagColumn, setLagColumn] = useState('');
+    const [lagText, setLagText] = useState(config ? DEFAULT_LAGS[config.frequency] : '1');
+    const summary = useMemo(
+        () => (config ? summarizeSeries(dataSet.data, config.dateColumn, config.frequency) : null),
+        [dataSet.data, config]
+    );
+
+    const handleDateColumn = (column: string) => {
+        if (!column) {
+            onConfigChange(null);
+            return;
+        }
+        const frequency = inferFrequency(dataSet.data, column);
+        setLagText(DEFAULT_LAGS[frequency]);
+        onConfigChange({ dateColumn: column, frequency });
+    };
+
+    const existing = new Set(dataSet.headers);
+    const isNew = (step: FeatureStep | null): step is FeatureStep =>
+        step !== null && featureOutputColumns(step).every(c => !existing.has(c));
+
+    const period = config ? SEASONAL_PERIOD_FOR[config.frequency] : null;
+    const trendStep = config ? buildTrendStep(dataSet.data, config.dateColumn, config.frequency) : null;
+    const seasonalStep = config && period ? buildSeasonalStep(dataSet.data, config.dateColumn, period) : null;
+    const lagSteps: FeatureStep[] = lagColumn
+        ? parseLags(lagText).map(lag => ({ id: createStepId(), kind: 'lag', column: lagColumn, lag }))
+        : [];
+
+    return (
+        <div className="mb-6 p-4 bg-slate-700/50 rounded-lg">
+            <p className="text-sm text-slate-400 mb-3">
+                Elige la columna de fecha para tratar los datos como serie temporal: las filas se ordenan por fecha, la validación
+                respeta el orden cronológico (sin mezclar) y, tras entrenar, se genera un pronóstico más allá de la última fecha.
+            </p>
+            <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="ts-date-column" className="block mb-1 text-xs text-slate-400">Columna de fecha</label>
+                    <select id="ts-date-column" value={config?.dateColumn ?? ''} onChange={e => handleDateColumn(e.target.value)} className={selectClassName}>
+                        <option value="">-- Sin serie temporal --</option>
+                        {dateHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                </div>
+                {config && (
+                    <div>
+                        <label htmlFor="ts-frequency" className="block mb-1 text-xs text-slate-400">Frecuencia</label>
+                        <select id="ts-frequency" value={config.frequency} onChange={e => onConfigChange({ ...config, frequency: e.target.value as TimeFrequency })} className={selectClassName}>
+                            {(Object.keys(FREQUENCY_LABELS) as TimeFrequency[]).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+                        </select>
+                    </div>
+                )}
+            </div>
+            {dateHeaders.length === 0 && (
+                <p className="text-slate-500 mt-2 text-xs">No hay columnas de fecha. Marca una columna como «Fecha» al cargar el archivo.</p>
+            )}
+            {config && summary && (
+                <>
+                    <p className="text-xs text-slate-400 mt-3">
+                        Desde <span className="font-mono text-slate-200">{summary.first}</span> hasta <span className="font-mono text-slate-200">{summary.last}</span>
+                        {summary.gaps > 0 && <> · {summary.gaps} periodo(s) sin datos</>}
+                        {summary.duplicates > 0 && <> · {summary.duplicates} fila(s) con fecha repetida</>}
+                    </p>
+                    {undatedRows > 0 && (
+                        <p className="text-amber-400 mt-1 text-xs">{undatedRows} fila(s) sin fecha válida se han excluido del entrenamiento.</p>
+                    )}
+                    <div className="flex flex-wrap items-end gap-3 mt-4">
+                        <button onClick={() => isNew(trendStep) && onAddSteps([trendStep])} disabled={!isNew(trendStep)} className="px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            Añadir tendencia
+                        </button>
+                        {period && (
+                            <button onClick={() => isNew(seasonalStep) && onAddSteps([seasonalStep])} disabled={!isNew(seasonalStep)} className="px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                                Añadir estacionalidad ({SEASONAL_PERIOD_LABELS[period]})
+                            </button>
+                        )}
+                        <div>
+                            <label htmlFor="ts-lag-column" className="block mb-1 text-xs text-slate-400">Rezagos de</label>
+                            <select id="ts-lag-column" value={lagColumn} onChange={e => setLagColumn(e.target.value)} className={selectClassName}>
+                                <option value="">-- Selecciona --</option>
+                                {dataSet.numericHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="ts-lags" className="block mb-1 text-xs text-slate-400">Periodos</label>
+                            <input type="text" id="ts-lags" value={lagText} onChange={e => setLagText(e.target.value)} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-28 p-2" />
+                        </div>
+                        <button onClick={() => onAddSteps(lagSteps.filter(isNew))} disabled={!lagSteps.some(isNew)} className="px-3 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            Añadir rezagos
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import type { DataSet, SelectionCriterion, SelectionMethod, SelectionResult, TaskProgress } from '../types';
+import { MAX_BEST_SUBSET_CANDIDATES, SELECTION_METHOD_LABELS, SELECTION_CRITERION_LABELS } from '../services/selectionService';
+import { selectVariablesInWorker, ComputationCancelledError } from '../services/computeClient';
+import { TaskProgressBar } from './TaskProgressBar';
+
+const actionLabels: Record<SelectionResult['path'][number]['action'], string> = {
+    start: 'Inicio',
+    add: 'Añadir',
+    remove: 'Quitar',
+    best: 'Mejor de su tamaño',
+};
+
+interface VariableSelectionProps {
+    dataSet: DataSet;
+    dependentVar: string;
+    candidates: string[];
+    onApply: (variables: string[]) => void;
+}
+
+export const VariableSelection: React.FC<VariableSelectionProps> = ({ dataSet, dependentVar, candidates, onApply }) => {
+    const [method, setMethod] = useState<SelectionMethod>('bidirectional');
+    const [criterion, setCriterion] = useState<SelectionCriterion>('aic');
+    const [result, setResult] = useState<SelectionResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Set while the selection runs in the compute worker; aborting it cancels the search.
+    const [running, setRunning] = useState<AbortController | null>(null);
+    const [progress, setProgress] = useState<TaskProgress | null>(null);
+
+    const tooManyForBestSubset = method === 'bestSubset' && candidates.length > MAX_BEST_SUBSET_CANDIDATES;
+
+    const handleRun = () => {
+        const controller = new AbortController();
+        setError(null);
+        setRunning(controller);
+        setProgress(null);
+        selectVariablesInWorker(dataSet.data, dependentVar, candidates, method, criterion, { signal: controller.signal, onProgress: setProgress })
+            .then(selection => {
+                if (selection.rowsUsed < 3) {
+                    setResult(null);
+                    setError('No hay suficientes filas completas para comparar las variables candidatas.');
+                    return;
+                }
+                setResult(selection);
+            })
+            .catch(err => {
+                if (err instanceof ComputationCancelledError) return;
+                setResult(null);
+                setError('Error al ejecutar la selección de variables.');
+            })
+            .finally(() => setRunning(null));
+    };
+
+    const formatScore = (score: number) => isFinite(score) ? score.toFixed(criterion === 'adjR2' ? 4 : 2) : '—';
+
+    return (
+        <div className="mb-6 p-3 bg-slate-700/50 rounded-lg">
+            <h3 className="mb-2 text-sm font-medium text-slate-300">Selección Automática de Variables</h3>
+            <div className="grid sm:grid-cols-3 gap-4 items-end">
+                <div>
+                    <label htmlFor="selection-method" className="block mb-1 text-xs text-slate-400">Método</label>
+                    <select id="selection-method" value={method} onChange={e => setMethod(e.target.value as SelectionMethod)} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2">
+                        {(Object.keys(SELECTION_METHOD_LABELS) as SelectionMethod[]).map(m => <option key={m} value={m}>{SELECTION_METHOD_LABELS[m]}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="selection-criterion" className="block mb-1 text-xs text-slate-400">Criterio</label>
+                    <select id="selection-criterion" value={criterion} onChange={e => setCriterion(e.target.value as SelectionCriterion)} className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2">
+                        {(Object.keys(SELECTION_CRITERION_LABELS) as SelectionCriterion[]).map(c => <option key={c} value={c}>{SELECTION_CRITERION_LABELS[c]}</option>)}
+                    </select>
+                </div>
+                <button onClick={handleRun} disabled={candidates.length === 0 || tooManyForBestSubset || running !== null} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-300 disabled:bg-slate-600 disabled:cursor-not-allowed">
+                    Ejecutar Selección
+                </button>
+            </div>
+            <p className="mt-2 text-xs text-slate-500">
+                Evalúa las {candidates.length} variables numéricas disponibles con modelos MCO sobre las filas completas en todas ellas.
+            </p>
+            {tooManyForBestSubset && (
+                <p className="mt-2 text-amber-400 text-sm">La búsqueda exhaustiva admite como máximo {MAX_BEST_SUBSET_CANDIDATES} candidatas; usa un método stepwise.</p>
+            )}
+            {running && <div className="mt-3"><TaskProgressBar progress={progress} onCancel={() => running.abort()} /></div>}
+            {error && <p className="text-rose-400 mt-2 text-sm">{error}</p>}
+
+            {result && (
+                <div className="mt-4">
+                    <p className="text-xs text-slate-400 mb-2">
+                        {SELECTION_METHOD_LABELS[result.method]} por {SELECTION_CRITERION_LABELS[result.criterion]} · {result.rowsUsed} filas
+                    </p>
+                    <div className="max-h-64 overflow-y-auto">
+                        <table className="w-full text-xs text-left text-slate-400">
+                            <thead className="text-slate-300 uppercase bg-slate-700 sticky top-0">
+                                <tr>
+                                    <th scope="col" className="px-3 py-2">Paso</th>
+                                    <th scope="col" className="px-3 py-2">Acción</th>
+                                    <th scope="col" className="px-3 py-2">Variables</th>
+                                    <th scope="col" className="px-3 py-2 text-right">{SELECTION_CRITERION_LABELS[result.criterion]}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.path.map(step => {
+                                    const isChosen = step.variables.length === result.selected.length && step.variables.every(v => result.selected.includes(v));
+                                    return (
+                                        <tr key={step.step} className={`border-b border-slate-700 ${isChosen ? 'bg-cyan-900/20' : 'bg-slate-800'}`}>
+                                            <td className="px-3 py-2">{step.step}</td>
+                                            <td className="px-3 py-2">{actionLabels[step.action]}{step.variable && <span className="text-cyan-400"> {step.variable}</span>}</td>
+                                            <td className="px-3 py-2">{step.variables.length > 0 ? step.variables.join(', ') : '(solo intercepto)'}</td>
+                                            <td className="px-3 py-2 text-right font-mono">{formatScore(step.score)}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex items-center justify-between mt-3">
+                        <p className="text-sm text-slate-300">
+                            Seleccionadas: <span className="text-cyan-400">{result.selected.length > 0 ? result.selected.join(', ') : 'ninguna'}</span>
+                        </p>
+                        <button onClick={() => onApply(result.selected)} disabled={result.selected.length === 0} className="px-3 py-1.5 bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed">
+                            Aplicar Variables
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
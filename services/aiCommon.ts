@@ -0,0 +1,157 @@
+import type {
+    CoefficientStat, CorrelationMatrix, DataRow, DescriptiveStats, ModelInterpretation, RegressionDiagnostics, RegressionMetrics,
+    VariableSuggestion
+} from '../types';
+
+/** Provider failures the user can act on (missing key, unreachable server, bad response). */
+export class AiProviderError extends Error {}
+
+/** What the AI features know about the dataset; built once and shared by every provider. */
+export interface DatasetContext {
+    headers: string[];
+    numericHeaders: string[];
+    rowCount: number;
+    stats: DescriptiveStats;
+    correlation: CorrelationMatrix;
+    sampleRows: DataRow[];
+    /** Original columns behind each derived column; derived columns inherit their privacy rules. */
+    derivedFrom: Record<string, string[]>;
+}
+
+/** A fitted model as the AI features see it: only coefficients, metrics and tests, never rows. */
+export interface ModelContext {
+    modelLabel: string;
+    dependentVar: string;
+    termNames: string[];
+    intercept: number;
+    coefficients: number[];
+    /** Null for penalized models, which have no analytical standard errors. */
+    coefficientStats: CoefficientStat[] | null;
+    confidenceLevel: number | null;
+    rSquaredAdjusted: number;
+    trainSize: number;
+    testSize: number;
+    trainMetrics: RegressionMetrics;
+    testMetrics: RegressionMetrics;
+    diagnostics: RegressionDiagnostics;
+    /** The input column behind each term, for applying the privacy rules. */
+    termColumns: string[];
+    derivedFrom: Record<string, string[]>;
+}
+
+export interface AiProvider {
+    /** Markdown commentary on the dataset, in Spanish. */
+    generateInsights(context: DatasetContext): Promise<string>;
+    suggestVariables(context: DatasetContext): Promise<VariableSuggestion>;
+    interpretModel(context: ModelContext): Promise<ModelInterpretation>;
+}
+
+const round = (value: number) => (isFinite(value) ? Number(value.toFixed(3)) : null);
+
+const roundedMetrics = (metrics: RegressionMetrics) =>
+    Object.fromEntries(Object.entries(metrics).map(([metric, value]) => [metric, round(value)]));
+
+const roundedStats = (stats: DescriptiveStats) =>
+    Object.fromEntries(Object.entries(stats).map(([column, s]) => [
+        column,
+        Object.fromEntries(Object.entries(s).map(([metric, value]) => [metric, round(value)])),
+    ]));
+
+const roundedCorrelation = (correlation: CorrelationMatrix) =>
+    Object.fromEntries(Object.entries(correlation).map(([row, values]) => [
+        row,
+        Object.fromEntries(Object.entries(values).map(([column, value]) => [column, round(value)])),
+    ]));
+
+const describeContext = (context: DatasetContext) => [
+    `Columnas: ${context.headers.join(', ')}`,
+    `Columnas numéricas: ${context.numericHeaders.join(', ')}`,
+    `Número de filas: ${context.rowCount}`,
+    `Estadísticas descriptivas (JSON): ${JSON.stringify(roundedStats(context.stats))}`,
+    `Correlaciones de Pearson (JSON): ${JSON.stringify(roundedCorrelation(context.correlation))}`,
+    context.sampleRows.length > 0
+        ? `Filas de muestra (JSON): ${JSON.stringify(context.sampleRows)}`
+        : 'No se incluyen filas de datos, solo el esquema y los agregados.',
+].join('\n');
+
+export const insightsPrompt = (context: DatasetContext): string => `Eres un analista de datos que ayuda a preparar un modelo de regresión múltiple para predecir ventas.
+Escribe en español y en formato Markdown un análisis breve del siguiente dataset: hallazgos clave, relaciones entre variables,
+posibles problemas de calidad de datos y recomendaciones para el modelo.
+
+${describeContext(context)}`;
+
+export const suggestionPrompt = (context: DatasetContext): string => `Eres un analista de datos. Propón las variables de un modelo de regresión múltiple para predecir ventas
+con el siguiente dataset. Usa solo columnas numéricas de la lista.
+Responde únicamente con un objeto JSON de la forma {"dependentVar": "columna", "independentVars": ["columna", "..."]}.
+
+${describeContext(context)}`;
+
+/**
+ * Reads a suggestion from a model response, tolerating text around the JSON object.
+ * Unknown or non-numeric columns are dropped; the result must still name a valid model.
+ */
+export const parseSuggestion = (text: string, context: DatasetContext): VariableSuggestion => {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    let parsed: { dependentVar?: unknown; independentVars?: unknown };
+    try {
+        parsed = JSON.parse(text.slice(start, end + 1));
+    } catch {
+        throw new AiProviderError('La respuesta del modelo no contiene un JSON válido.');
+    }
+    const dependentVar = typeof parsed.dependentVar === 'string' ? parsed.dependentVar : '';
+    const independentVars = Array.isArray(parsed.independentVars)
+        ? [...new Set(parsed.independentVars.filter((v): v is string => typeof v === 'string' && context.numericHeaders.includes(v) && v !== dependentVar))]
+        : [];
+    if (!context.numericHeaders.includes(dependentVar) || independentVars.length === 0) {
+        throw new AiProviderError('La respuesta del modelo no propone columnas numéricas válidas del dataset.');
+    }
+    return { dependentVar, independentVars };
+};
+
+export const interpretationPrompt = (context: ModelContext): string => `Eres un analista de negocio. Explica en español, sin jerga estadística innecesaria,
+el siguiente modelo de regresión ya entrenado para predecir ${context.dependentVar}. Para cada término indica qué significa
+su coeficiente en unidades de ${context.dependentVar} y si es estadísticamente significativo. Añade advertencias (supuestos
+que fallan, coeficientes no significativos, sobreajuste) y próximos pasos recomendados.
+Usa únicamente las cifras que aparecen abajo, redondeadas como máximo a 4 decimales; no inventes ni calcules otras.
+Responde únicamente con un objeto JSON de la forma
+{"summary": "texto", "coefficients": [{"term": "término", "meaning": "texto"}], "caveats": ["texto"], "nextSteps": ["texto"]}.
+
+Modelo (JSON): ${JSON.stringify({
+    tipo: context.modelLabel,
+    variableDependiente: context.dependentVar,
+    intercepto: round(context.intercept),
+    coeficientes: context.coefficientStats
+        ? context.coefficientStats.map(s => ({ termino: s.name, estimacion: round(s.estimate), errorEstandar: round(s.stdError), t: round(s.tStat), pValor: round(s.pValue), icInferior: round(s.ciLower), icSuperior: round(s.ciUpper) }))
+        : context.termNames.map((name, i) => ({ termino: name, estimacion: round(context.coefficients[i]) })),
+    nivelConfianza: context.confidenceLevel,
+    r2AjustadoEntrenamiento: round(context.rSquaredAdjusted),
+    metricasEntrenamiento: { n: context.trainSize, ...roundedMetrics(context.trainMetrics) },
+    metricasValidacion: { n: context.testSize, ...roundedMetrics(context.testMetrics) },
+    diagnosticos: Object.values(context.diagnostics).map(d => ({ prueba: d.name, estadistico: round(d.statistic), pValor: d.pValue === null ? null : round(d.pValue), resultado: d.verdict })),
+})}`;
+
+const stringList = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : []);
+
+/** Reads an interpretation from a model response; coefficients for unknown terms are dropped. */
+export const parseInterpretation = (text: string, context: ModelContext): ModelInterpretation => {
+    let parsed: { summary?: unknown; coefficients?: unknown; caveats?: unknown; nextSteps?: unknown };
+    try {
+        parsed = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+    } catch {
+        throw new AiProviderError('La respuesta del modelo no contiene un JSON válido.');
+    }
+    if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+        throw new AiProviderError('La respuesta del modelo no incluye un resumen de la interpretación.');
+    }
+    const coefficients = Array.isArray(parsed.coefficients)
+        ? parsed.coefficients.filter((c): c is { term: string; meaning: string } =>
+            !!c && typeof c.term === 'string' && typeof c.meaning === 'string' && context.termNames.includes(c.term))
+        : [];
+    return {
+        summary: parsed.summary,
+        coefficients: coefficients.map(({ term, meaning }) => ({ term, meaning })),
+        caveats: stringList(parsed.caveats),
+        nextSteps: stringList(parsed.nextSteps),
+    };
+};
@@ -0,0 +1,122 @@
+import { AiProviderError, insightsPrompt, suggestionPrompt } from './aiCommon';
+import type { AiProvider, DatasetContext, ModelContext } from './aiCommon';
+import { heuristicProvider } from './heuristicProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { applyPrivacyPolicy, applyModelPrivacyPolicy, findPrivacyLeaks } from './privacyService';
+import type { AiPrivacyPolicy, AiProviderConfig, AiProviderKind, ModelInterpretation, VariableSuggestion } from '../types';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+    heuristic: 'Local (sin conexión)',
+    gemini: 'Google Gemini',
+    openai: 'Compatible con OpenAI (incl. servidor local)',
+};
+
+export const DEFAULT_AI_CONFIGS: Record<AiProviderKind, AiProviderConfig> = {
+    heuristic: { kind: 'heuristic', apiKey: '', model: '', baseUrl: '' },
+    gemini: { kind: 'gemini', apiKey: '', model: 'gemini-2.5-flash', baseUrl: '' },
+    openai: { kind: 'openai', apiKey: '', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+};
+
+/** Example base URL for a local Ollama server; shown as a hint in the settings. */
+export const LOCAL_SERVER_HINT = 'http://localhost:11434/v1';
+
+export const createAiProvider = (config: AiProviderConfig): AiProvider => {
+    switch (config.kind) {
+        case 'heuristic':
+            return heuristicProvider;
+        case 'gemini':
+            return createGeminiProvider(config);
+        case 'openai':
+            return createOpenAiProvider(config);
+    }
+};
+
+export interface AiResult<T> {
+    value: T;
+    /** Why the remote provider was skipped in favour of the local one; null when it answered. */
+    fallbackReason: string | null;
+}
+
+/**
+ * Runs a request on the configured provider, falling back to the local heuristics if it fails.
+ * Remote providers only ever receive the `allowed` context; the local provider runs in the
+ * browser and sees it whole.
+ */
+const withFallback = async <C, T>(
+    config: AiProviderConfig,
+    context: C,
+    allowed: () => C,
+    request: (provider: AiProvider, context: C) => Promise<T>
+): Promise<AiResult<T>> => {
+    if (config.kind === 'heuristic') return { value: await request(heuristicProvider, context), fallbackReason: null };
+    try {
+        return { value: await request(createAiProvider(config), allowed()), fallbackReason: null };
+    } catch (error) {
+        const reason = error instanceof AiProviderError ? error.message : `Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
+        return { value: await request(heuristicProvider, context), fallbackReason: reason };
+    }
+};
+
+/** The filtered context, refused if a protected value would still be sent. */
+const allowedDatasetContext = (context: DatasetContext, policy: AiPrivacyPolicy) => () => {
+    const { allowed, leaks } = previewAiPayload(policy, context);
+    if (leaks.length > 0) throw new AiProviderError(`No se envió nada: la petición contenía valores de columnas protegidas (${leaks.join(', ')}).`);
+    return allowed;
+};
+
+export const getDatasetInsights = (config: AiProviderConfig, policy: AiPrivacyPolicy, context: DatasetContext): Promise<AiResult<string>> =>
+    withFallback(config, context, allowedDatasetContext(context, policy), (provider, c) => provider.generateInsights(c));
+
+export const getVariableSuggestions = (config: AiProviderConfig, policy: AiPrivacyPolicy, context: DatasetContext): Promise<AiResult<VariableSuggestion>> =>
+    withFallback(config, context, allowedDatasetContext(context, policy), (provider, c) => provider.suggestVariables(c));
+
+/** Puts the real term names back into an answer written about their hashed stand-ins. */
+const restoreTermNames = (interpretation: ModelInterpretation, names: Record<string, string>): ModelInterpretation => {
+    const restore = (text: string) => Object.entries(names).reduce((acc, [sent, term]) => (sent === term ? acc : acc.split(sent).join(term)), text);
+    return {
+        summary: restore(interpretation.summary),
+        coefficients: interpretation.coefficients.map(c => ({ term: names[c.term] ?? c.term, meaning: restore(c.meaning) })),
+        caveats: interpretation.caveats.map(restore),
+        nextSteps: interpretation.nextSteps.map(restore),
+    };
+};
+
+/** The model context holds no rows, but term names can hold category values, so the column rules still apply. */
+export const getModelInterpretation = async (
+    config: AiProviderConfig, policy: AiPrivacyPolicy, context: ModelContext
+): Promise<AiResult<ModelInterpretation>> => {
+    const { allowed, names } = applyModelPrivacyPolicy(context, policy);
+    const result = await withFallback(config, context, () => allowed, (provider, c) => provider.interpretModel(c));
+    return { ...result, value: restoreTermNames(result.value, names) };
+};
+
+/** The exact prompts a remote provider would receive under the policy, and any protected value left in them. */
+export const previewAiPayload = (policy: AiPrivacyPolicy, context: DatasetContext) => {
+    const allowed = applyPrivacyPolicy(context, policy);
+    const insights = insightsPrompt(allowed);
+    const suggestion = suggestionPrompt(allowed);
+    return { allowed, insights, suggestion, leaks: findPrivacyLeaks(`${insights}\n${suggestion}`, context, policy) };
+};
+
+const STORAGE_KEY = 'prediccion-ventas:ai-provider';
+
+/** The saved configuration, if the user chose to remember it on this device. */
+export const loadAiConfig = (): AiProviderConfig | null => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        return stored && stored.kind in DEFAULT_AI_CONFIGS ? { ...DEFAULT_AI_CONFIGS[stored.kind as AiProviderKind], ...stored } : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Keys are only written to localStorage when the user opts in; otherwise they live in memory for the session. */
+export const saveAiConfig = (config: AiProviderConfig, remember: boolean) => {
+    try {
+        if (remember) localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Storage can be unavailable (private mode, quota); the in-memory config still works.
+    }
+};
@@ -0,0 +1,102 @@
+import { max, min, quantile, sampleCorrelation } from 'simple-statistics';
+import type { DataRow, TrainedModel } from '../types';
+
+export interface HistogramBin {
+    start: number;
+    end: number;
+    count: number;
+}
+
+export interface BoxPlotStats {
+    q1: number;
+    median: number;
+    q3: number;
+    /** Most extreme values within 1.5·IQR of the quartiles. */
+    whiskerLow: number;
+    whiskerHigh: number;
+    outliers: number[];
+}
+
+/** Finite numbers of a column, skipping blanks and text. */
+export const numericColumn = (data: DataRow[], column: string): number[] =>
+    data.map(row => row[column]).filter((v): v is number => typeof v === 'number' && isFinite(v));
+
+/** Equal-width bins; the count follows the Freedman–Diaconis rule, capped to keep bars readable. */
+export const histogramBins = (values: number[], maxBins = 30): HistogramBin[] => {
+    if (values.length === 0) return [];
+    const lo = min(values);
+    const hi = max(values);
+    if (lo === hi) return [{ start: lo - 0.5, end: hi + 0.5, count: values.length }];
+    const iqr = quantile(values, 0.75) - quantile(values, 0.25);
+    const width = iqr > 0 ? 2 * iqr / Math.cbrt(values.length) : (hi - lo) / Math.ceil(Math.log2(values.length) + 1);
+    const binCount = Math.min(maxBins, Math.max(1, Math.ceil((hi - lo) / width)));
+    const step = (hi - lo) / binCount;
+    const bins = Array.from({ length: binCount }, (_, i) => ({ start: lo + i * step, end: lo + (i + 1) * step, count: 0 }));
+    values.forEach(v => { bins[Math.min(binCount - 1, Math.floor((v - lo) / step))].count++; });
+    return bins;
+};
+
+export const boxPlotStats = (values: number[]): BoxPlotStats | null => {
+    if (values.length === 0) return null;
+    const q1 = quantile(values, 0.25);
+    const q3 = quantile(values, 0.75);
+    const fence = 1.5 * (q3 - q1);
+    const inside = values.filter(v => v >= q1 - fence && v <= q3 + fence);
+    return {
+        q1,
+        median: quantile(values, 0.5),
+        q3,
+        whiskerLow: min(inside),
+        whiskerHigh: max(inside),
+        outliers: values.filter(v => v < q1 - fence || v > q3 + fence),
+    };
+};
+
+/** Rows where both columns are numbers, as x/y pairs. */
+export const pairedPoints = (data: DataRow[], xColumn: string, yColumn: string) =>
+    data
+        .filter(row => typeof row[xColumn] === 'number' && typeof row[yColumn] === 'number' && isFinite(row[xColumn] as number) && isFinite(row[yColumn] as number))
+        .map(row => ({ x: row[xColumn] as number, y: row[yColumn] as number }));
+
+/** Pearson correlation over pairwise-complete rows; NaN with fewer than three pairs. */
+export const pairwiseCorrelation = (data: DataRow[], a: string, b: string): number => {
+    const points = pairedPoints(data, a, b);
+    if (points.length < 3) return NaN;
+    return sampleCorrelation(points.map(p => p.x), points.map(p => p.y));
+};
+
+/** Least-squares line through the points, or null when x has no spread. */
+export const linearTrend = (points: { x: number; y: number }[]): { slope: number; intercept: number } | null => {
+    const n = points.length;
+    if (n < 2) return null;
+    const xMean = points.reduce((acc, p) => acc + p.x, 0) / n;
+    const yMean = points.reduce((acc, p) => acc + p.y, 0) / n;
+    const sxx = points.reduce((acc, p) => acc + Math.pow(p.x - xMean, 2), 0);
+    if (sxx === 0) return null;
+    const slope = points.reduce((acc, p) => acc + (p.x - xMean) * (p.y - yMean), 0) / sxx;
+    return { slope, intercept: yMean - slope * xMean };
+};
+
+/** Evenly spaced subset of at most `max` items, so large files stay responsive. */
+export const samplePoints = <T,>(items: T[], max: number): T[] => {
+    if (items.length <= max) return items;
+    const step = items.length / max;
+    return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)]);
+};
+
+/**
+ * Partial dependence of the prediction on variable `j`: for each grid value, the average
+ * prediction over the rows with x_j replaced by that value. For a linear model this is a
+ * straight line with the coefficient as slope; polynomial models show their curvature.
+ */
+export const partialDependence = (model: TrainedModel, x: number[][], j: number, gridSize = 25): { x: number; y: number }[] => {
+    const column = x.map(row => row[j]);
+    const lo = min(column);
+    const hi = max(column);
+    const rows = samplePoints(x, 200);
+    const grid = lo === hi ? [lo] : Array.from({ length: gridSize }, (_, i) => lo + (i / (gridSize - 1)) * (hi - lo));
+    return grid.map(value => ({
+        x: value,
+        y: rows.reduce((acc, row) => acc + model.predict(row.map((v, k) => (k === j ? value : v))), 0) / rows.length,
+    }));
+};
@@ -0,0 +1,55 @@
+import { triggerDownload } from './fileService';
+
+/** Matches the slate-900 card background so exported charts keep their light-on-dark contrast. */
+const EXPORT_BACKGROUND = '#0f172a';
+
+const serializeSvg = (svg: SVGSVGElement): { markup: string; width: number; height: number } => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    const { width, height } = svg.viewBox.baseVal;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.removeAttribute('class');
+    const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    background.setAttribute('width', '100%');
+    background.setAttribute('height', '100%');
+    background.setAttribute('fill', EXPORT_BACKGROUND);
+    clone.insertBefore(background, clone.firstChild);
+    return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+export const exportSvg = (svg: SVGSVGElement, fileName: string) => {
+    const { markup } = serializeSvg(svg);
+    triggerDownload(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`);
+};
+
+/** Rasterizes the chart at `scale`× its viewBox size. */
+export const exportPng = (svg: SVGSVGElement, fileName: string, scale = 2): Promise<void> => {
+    const { markup, width, height } = serializeSvg(svg);
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = width * scale;
+            canvas.height = height * scale;
+            const context = canvas.getContext('2d');
+            if (!context) {
+                URL.revokeObjectURL(url);
+                reject(new Error('El navegador no permite generar imágenes PNG.'));
+                return;
+            }
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob => {
+                if (blob) triggerDownload(blob, `${fileName}.png`);
+                resolve();
+            }, 'image/png');
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('No se pudo generar la imagen PNG.'));
+        };
+        image.src = url;
+    });
+};
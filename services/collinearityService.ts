@@ -0,0 +1,45 @@
+import { fitLinearRegression, predictRows, computeMetrics } from './regressionService';
+import { transpose, multiply, symmetricEigenvalues } from './linearAlgebra';
+import type { CollinearityReport, VifEntry } from '../types';
+
+export const VIF_MODERATE = 5;
+export const VIF_HIGH = 10;
+export const CONDITION_MODERATE = 10;
+export const CONDITION_HIGH = 30;
+
+/** VIF_j = 1 / (1 - R²_j), where R²_j comes from regressing predictor j on the remaining predictors. */
+export const computeVif = (x: number[][], names: string[]): VifEntry[] =>
+    names.map((name, j) => {
+        if (names.length < 2) return { name, vif: 1, rSquared: 0 };
+        const target = x.map(row => row[j]);
+        const others = x.map(row => row.filter((_, c) => c !== j));
+        const auxiliary = fitLinearRegression(others, target);
+        const { rSquared } = computeMetrics(target, predictRows(auxiliary, others));
+        // A constant predictor (NaN R²) or an exact linear combination both make the design singular.
+        const vif = isNaN(rSquared) || rSquared >= 1 - 1e-12 ? Infinity : 1 / (1 - rSquared);
+        return { name, vif, rSquared };
+    });
+
+/** Belsley condition number: design matrix with intercept, columns scaled to unit length. */
+export const computeConditionNumber = (x: number[][]): number => {
+    const design = x.map(row => [1, ...row]);
+    const columns = transpose(design);
+    const scaled = transpose(columns.map(col => {
+        const norm = Math.sqrt(col.reduce((acc, v) => acc + v * v, 0));
+        return norm === 0 ? col : col.map(v => v / norm);
+    }));
+    const eigenvalues = symmetricEigenvalues(multiply(transpose(scaled), scaled));
+    const largest = Math.max(...eigenvalues);
+    const smallest = Math.min(...eigenvalues);
+    return smallest <= 1e-14 * largest ? Infinity : Math.sqrt(largest / smallest);
+};
+
+export const computeCollinearityReport = (x: number[][], names: string[]): CollinearityReport => {
+    const vif = computeVif(x, names);
+    const worst = vif.reduce<VifEntry | null>((acc, entry) => (!acc || entry.vif > acc.vif ? entry : acc), null);
+    return {
+        vif,
+        conditionNumber: computeConditionNumber(x),
+        worstVariable: worst && worst.vif >= VIF_MODERATE ? worst.name : null,
+    };
+};
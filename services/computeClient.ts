@@ -0,0 +1,98 @@
+import { createTrainedModel } from './regressionService';
+import { runComputeTask, deserializeError } from './computeTasks';
+import type {
+    ComputeTask, ComparisonAttempt, DatasetStatistics, SerializedOutcome, SerializedSegmentResult, WorkerMessage
+} from './computeTasks';
+import type { DataSource } from './fileService';
+import type { TrainingOutcome, TrainingRequest } from './trainingService';
+import type { SegmentResult } from './segmentService';
+import type { ImputeOptions } from './featureService';
+import type {
+    CollinearityReport, DataRow, DataSet, FeatureStep, ImputationStrategy, SelectionCriterion, SelectionMethod, SelectionResult, TaskProgress
+} from '../types';
+
+/** The user cancelled the computation; callers usually just ignore it. */
+export class ComputationCancelledError extends Error {}
+
+export interface ComputeOptions {
+    onProgress?: (progress: TaskProgress) => void;
+    signal?: AbortSignal;
+}
+
+const cancelled = () => new ComputationCancelledError('Cálculo cancelado.');
+
+/**
+ * Runs a task on a dedicated worker so the page stays responsive. Aborting the signal terminates
+ * the worker, which stops the computation wherever it is. Without worker support the task runs
+ * inline; it then cannot be interrupted, but its result is discarded if the signal was aborted.
+ */
+const runTask = <T,>(task: ComputeTask, { onProgress, signal }: ComputeOptions = {}): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(cancelled());
+    if (typeof Worker === 'undefined') {
+        return runComputeTask(task, progress => onProgress?.(progress)).then(result => {
+            if (signal?.aborted) throw cancelled();
+            return result as T;
+        });
+    }
+    return new Promise<T>((resolve, reject) => {
+        const worker = new Worker(new URL('./computeWorker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', handleAbort);
+        };
+        const handleAbort = () => {
+            finish();
+            reject(cancelled());
+        };
+        signal?.addEventListener('abort', handleAbort);
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.progress);
+                return;
+            }
+            finish();
+            if (message.type === 'result') resolve(message.result as T);
+            else reject(deserializeError(message.error));
+        };
+        worker.onerror = event => {
+            finish();
+            reject(new Error(event.message || 'Error en el proceso de cálculo.'));
+        };
+        worker.postMessage(task);
+    });
+};
+
+const restoreOutcome = ({ model, results }: SerializedOutcome): TrainingOutcome => ({ model: createTrainedModel(model), results });
+
+export const readDataSourceInWorker = (file: File, options?: ComputeOptions) =>
+    runTask<DataSource>({ kind: 'readFile', file }, options);
+
+export const computeStatisticsInWorker = (dataSet: DataSet, options?: ComputeOptions) =>
+    runTask<DatasetStatistics>({ kind: 'statistics', dataSet }, options);
+
+export const trainModelInWorker = (request: TrainingRequest, options?: ComputeOptions) =>
+    runTask<SerializedOutcome>({ kind: 'train', request }, options).then(restoreOutcome);
+
+export const compareModelsInWorker = (requests: TrainingRequest[], options?: ComputeOptions) =>
+    runTask<ComparisonAttempt[]>({ kind: 'compare', requests }, options)
+        .then(attempts => attempts.map(({ outcome, error }) => ({ outcome: outcome && restoreOutcome(outcome), error })));
+
+export const trainSegmentsInWorker = (request: TrainingRequest, column: string, options?: ComputeOptions) =>
+    runTask<SerializedSegmentResult[]>({ kind: 'segments', request, column }, options)
+        .then(segments => segments.map((segment): SegmentResult => ({ ...segment, outcome: segment.outcome && restoreOutcome(segment.outcome) })));
+
+// Only the columns a task reads are posted, which keeps the copy to the worker small.
+const pickColumns = (rows: DataRow[], columns: string[]): DataRow[] =>
+    rows.map(row => Object.fromEntries(columns.filter(column => column in row).map(column => [column, row[column]])));
+
+export const selectVariablesInWorker = (
+    rows: DataRow[], dependentVar: string, candidates: string[], method: SelectionMethod, criterion: SelectionCriterion, options?: ComputeOptions
+) => runTask<SelectionResult>({ kind: 'selection', rows: pickColumns(rows, [dependentVar, ...candidates]), dependentVar, candidates, method, criterion }, options);
+
+export const computeCollinearityInWorker = (x: number[][], names: string[], options?: ComputeOptions) =>
+    runTask<CollinearityReport>({ kind: 'collinearity', x, names }, options);
+
+export const buildImputeStepInWorker = (
+    rows: DataRow[], column: string, strategy: ImputationStrategy, imputeOptions: ImputeOptions, options?: ComputeOptions
+) => runTask<FeatureStep | null>({ kind: 'imputeStep', rows: pickColumns(rows, [column, ...imputeOptions.predictors]), column, strategy, options: imputeOptions }, options);
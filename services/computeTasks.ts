@@ -0,0 +1,112 @@
+import { readDataSource, FileParseError } from './fileService';
+import { computeDescriptiveStats, computeCorrelationMatrix } from './statisticsService';
+import { trainModel, TrainingError } from './trainingService';
+import { trainSegmentModels } from './segmentService';
+import { runVariableSelection } from './selectionService';
+import { computeCollinearityReport } from './collinearityService';
+import { buildImputeStep } from './featureService';
+import type { ImputeOptions } from './featureService';
+import type { TrainingOutcome, TrainingRequest } from './trainingService';
+import type { SegmentResult } from './segmentService';
+import type {
+    CorrelationMatrix, DataRow, DataSet, DescriptiveStats, ImputationStrategy, LinearModelParams, ModelResults, SelectionCriterion,
+    SelectionMethod, TaskProgress
+} from '../types';
+
+/** Heavy computations the app hands to the compute worker (or runs inline where workers are unavailable). */
+export type ComputeTask =
+    | { kind: 'readFile'; file: File }
+    | { kind: 'statistics'; dataSet: DataSet }
+    | { kind: 'train'; request: TrainingRequest }
+    | { kind: 'compare'; requests: TrainingRequest[] }
+    | { kind: 'segments'; request: TrainingRequest; column: string }
+    | { kind: 'selection'; rows: DataRow[]; dependentVar: string; candidates: string[]; method: SelectionMethod; criterion: SelectionCriterion }
+    | { kind: 'collinearity'; x: number[][]; names: string[] }
+    | { kind: 'imputeStep'; rows: DataRow[]; column: string; strategy: ImputationStrategy; options: ImputeOptions };
+
+export interface DatasetStatistics {
+    stats: DescriptiveStats;
+    correlation: CorrelationMatrix;
+}
+
+/** A training outcome without the `predict` closure, which cannot be posted between threads. */
+export interface SerializedOutcome {
+    model: LinearModelParams;
+    results: ModelResults;
+}
+
+export interface ComparisonAttempt {
+    outcome: SerializedOutcome | null;
+    error: string | null;
+}
+
+export type SerializedSegmentResult = Omit<SegmentResult, 'outcome'> & { outcome: SerializedOutcome | null };
+
+export type WorkerMessage =
+    | { type: 'progress'; progress: TaskProgress }
+    | { type: 'result'; result: unknown }
+    | { type: 'error'; error: SerializedError };
+
+/** Errors cross threads as plain data; the kind restores the class callers test with `instanceof`. */
+export interface SerializedError {
+    kind: 'training' | 'fileParse' | 'other';
+    message: string;
+}
+
+export const serializeError = (error: unknown): SerializedError => ({
+    kind: error instanceof TrainingError ? 'training' : error instanceof FileParseError ? 'fileParse' : 'other',
+    message: error instanceof Error ? error.message : String(error),
+});
+
+export const deserializeError = ({ kind, message }: SerializedError): Error => {
+    if (kind === 'training') return new TrainingError(message);
+    if (kind === 'fileParse') return new FileParseError(message);
+    return new Error(message);
+};
+
+const serializeOutcome = ({ model, results }: TrainingOutcome): SerializedOutcome => {
+    const { predict, ...params } = model;
+    return { model: params, results };
+};
+
+/**
+ * Runs a task and returns its plain, cloneable result. The worker and the inline fallback both
+ * call this, so both paths compute exactly the same thing.
+ */
+export const runComputeTask = async (task: ComputeTask, onProgress: (progress: TaskProgress) => void): Promise<unknown> => {
+    switch (task.kind) {
+        case 'readFile':
+            return readDataSource(task.file, onProgress);
+        case 'statistics': {
+            onProgress({ phase: 'Calculando estadísticas descriptivas', fraction: 0 });
+            const statistics: DatasetStatistics = {
+                stats: computeDescriptiveStats(task.dataSet),
+                correlation: computeCorrelationMatrix(task.dataSet, fraction => onProgress({ phase: 'Calculando correlaciones', fraction })),
+            };
+            return statistics;
+        }
+        case 'train':
+            onProgress({ phase: 'Entrenando el modelo', fraction: 0 });
+            return serializeOutcome(trainModel(task.request));
+        case 'compare':
+            return task.requests.map((request, i): ComparisonAttempt => {
+                onProgress({ phase: `Entrenando modelo ${i + 1} de ${task.requests.length}`, fraction: i / task.requests.length });
+                try {
+                    return { outcome: serializeOutcome(trainModel(request)), error: null };
+                } catch (error) {
+                    return { outcome: null, error: error instanceof Error ? error.message : String(error) };
+                }
+            });
+        case 'segments':
+            return trainSegmentModels(task.request, task.column, onProgress)
+                .map((segment): SerializedSegmentResult => ({ ...segment, outcome: segment.outcome && serializeOutcome(segment.outcome) }));
+        case 'selection':
+            return runVariableSelection(task.rows, task.dependentVar, task.candidates, task.method, task.criterion, onProgress);
+        case 'collinearity':
+            onProgress({ phase: 'Calculando la colinealidad', fraction: 0 });
+            return computeCollinearityReport(task.x, task.names);
+        case 'imputeStep':
+            onProgress({ phase: 'Ajustando la regresión de imputación', fraction: 0 });
+            return buildImputeStep(task.rows, task.column, task.strategy, task.options);
+    }
+};
@@ -0,0 +1,14 @@
+import { runComputeTask, serializeError } from './computeTasks';
+import type { ComputeTask, WorkerMessage } from './computeTasks';
+
+// Each worker runs a single task; the client terminates it to cancel.
+const post = (message: WorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ComputeTask>) => {
+    try {
+        const result = await runComputeTask(event.data, progress => post({ type: 'progress', progress }));
+        post({ type: 'result', result });
+    } catch (error) {
+        post({ type: 'error', error: serializeError(error) });
+    }
+};
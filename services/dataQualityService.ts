@@ -0,0 +1,24 @@
+import type { DataRow, DataSet, MissingValueSummary } from '../types';
+
+/** Blank cells, as produced by `applySchema` for empty CSV fields or absent Excel cells. */
+export const isMissingValue = (value: DataRow[string] | undefined | null): boolean =>
+    value === undefined || value === null || (typeof value === 'number' && isNaN(value)) || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Missing and unusable values per column. In numeric columns any non-numeric text counts as
+ * invalid, because training drops those rows the same way it drops blanks.
+ */
+export const computeMissingReport = (dataSet: DataSet): MissingValueSummary[] => {
+    const total = dataSet.data.length;
+    return dataSet.headers.map(column => {
+        const numeric = dataSet.numericHeaders.includes(column);
+        let missing = 0;
+        let invalid = 0;
+        dataSet.data.forEach(row => {
+            const value = row[column];
+            if (isMissingValue(value)) missing++;
+            else if (numeric && typeof value !== 'number') invalid++;
+        });
+        return { column, numeric, missing, invalid, percent: total === 0 ? 0 : ((missing + invalid) / total) * 100 };
+    });
+};
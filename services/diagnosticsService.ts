@@ -0,0 +1,91 @@
+import { mean, probit } from 'simple-statistics';
+import { chiSquareSurvival } from './distributions';
+import { fitLinearRegression, predictRows, computeMetrics } from './regressionService';
+import type { DiagnosticTest, RegressionDiagnostics } from '../types';
+
+const SIGNIFICANCE = 0.05;
+
+export const jarqueBeraTest = (residuals: number[]): DiagnosticTest => {
+    const n = residuals.length;
+    const m = mean(residuals);
+    const m2 = residuals.reduce((acc, r) => acc + Math.pow(r - m, 2), 0) / n;
+    const m3 = residuals.reduce((acc, r) => acc + Math.pow(r - m, 3), 0) / n;
+    const m4 = residuals.reduce((acc, r) => acc + Math.pow(r - m, 4), 0) / n;
+    const skewness = m3 / Math.pow(m2, 1.5);
+    const kurtosis = m4 / Math.pow(m2, 2);
+    const statistic = (n / 6) * (Math.pow(skewness, 2) + Math.pow(kurtosis - 3, 2) / 4);
+    const pValue = chiSquareSurvival(statistic, 2);
+    const passed = pValue >= SIGNIFICANCE;
+    return {
+        name: 'Jarque–Bera (normalidad)',
+        statistic,
+        pValue,
+        verdict: passed ? 'pass' : 'warn',
+        message: passed
+            ? 'Los residuos son compatibles con una distribución normal.'
+            : `Los residuos no parecen normales (asimetría ${skewness.toFixed(2)}, curtosis ${kurtosis.toFixed(2)}). Los p-valores e intervalos pueden no ser fiables con muestras pequeñas.`,
+    };
+};
+
+/** Studentized (Koenker) Breusch–Pagan test: n·R² of the squared residuals regressed on X. */
+export const breuschPaganTest = (x: number[][], residuals: number[]): DiagnosticTest => {
+    const squared = residuals.map(r => r * r);
+    const auxiliary = fitLinearRegression(x, squared);
+    const { rSquared } = computeMetrics(squared, predictRows(auxiliary, x));
+    const k = x[0]?.length ?? 0;
+    const statistic = residuals.length * rSquared;
+    const pValue = chiSquareSurvival(statistic, k);
+    const passed = isNaN(pValue) || pValue >= SIGNIFICANCE;
+    return {
+        name: 'Breusch–Pagan (heterocedasticidad)',
+        statistic,
+        pValue,
+        verdict: passed ? 'pass' : 'warn',
+        message: passed
+            ? 'La varianza de los residuos parece constante (homocedasticidad).'
+            : 'La varianza de los residuos cambia con los predictores. Los errores estándar de MCO pueden estar sesgados.',
+    };
+};
+
+/** Durbin–Watson on residuals in row order; values near 2 mean no first-order autocorrelation. */
+export const durbinWatsonTest = (residuals: number[]): DiagnosticTest => {
+    let numerator = 0;
+    for (let i = 1; i < residuals.length; i++) {
+        numerator += Math.pow(residuals[i] - residuals[i - 1], 2);
+    }
+    const denominator = residuals.reduce((acc, r) => acc + r * r, 0);
+    const statistic = numerator / denominator;
+    const passed = statistic >= 1.5 && statistic <= 2.5;
+    let message = 'No hay indicios de autocorrelación de primer orden entre residuos consecutivos.';
+    if (statistic < 1.5) {
+        message = 'Autocorrelación positiva: residuos consecutivos se parecen. Si los datos están ordenados en el tiempo, considera añadir rezagos o tendencia.';
+    } else if (statistic > 2.5) {
+        message = 'Autocorrelación negativa: residuos consecutivos tienden a alternar de signo.';
+    }
+    return {
+        name: 'Durbin–Watson (autocorrelación)',
+        statistic,
+        pValue: null,
+        verdict: passed ? 'pass' : 'warn',
+        message,
+    };
+};
+
+export const computeDiagnostics = (x: number[][], residuals: number[]): RegressionDiagnostics => ({
+    normality: jarqueBeraTest(residuals),
+    heteroscedasticity: breuschPaganTest(x, residuals),
+    autocorrelation: durbinWatsonTest(residuals),
+});
+
+/** Standardized residuals against theoretical normal quantiles (Blom plotting positions). */
+export const qqPoints = (residuals: number[]): { theoretical: number; sample: number }[] => {
+    const n = residuals.length;
+    const m = mean(residuals);
+    const sd = Math.sqrt(residuals.reduce((acc, r) => acc + Math.pow(r - m, 2), 0) / (n - 1));
+    return [...residuals]
+        .sort((a, b) => a - b)
+        .map((r, i) => ({
+            theoretical: probit((i + 1 - 0.375) / (n + 0.25)),
+            sample: sd === 0 ? 0 : (r - m) / sd,
+        }));
+};
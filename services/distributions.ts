@@ -0,0 +1,136 @@
+const logGamma = (x: number): number => {
+    // Lanczos approximation (g = 7, n = 9).
+    const c = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+        -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+        1.5056327351493116e-7,
+    ];
+    if (x < 0.5) {
+        return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+    }
+    x -= 1;
+    let a = c[0];
+    const t = x + 7.5;
+    for (let i = 1; i < 9; i++) {
+        a += c[i] / (x + i);
+    }
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+    const maxIterations = 300;
+    const epsilon = 3e-14;
+    const tiny = 1e-300;
+    const qab = a + b;
+    const qap = a + 1;
+    const qam = a - 1;
+    let c = 1;
+    let d = 1 - (qab * x) / qap;
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+    for (let m = 1; m <= maxIterations; m++) {
+        const m2 = 2 * m;
+        let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        h *= d * c;
+        aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < epsilon) break;
+    }
+    return h;
+};
+
+/** Regularized incomplete beta function I_x(a, b). */
+export const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    if (x < (a + 1) / (a + b + 2)) {
+        return (front * betaContinuedFraction(x, a, b)) / a;
+    }
+    return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+export const studentTCdf = (t: number, df: number): number => {
+    if (!isFinite(t)) return t > 0 ? 1 : 0;
+    const tail = 0.5 * regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+    return t > 0 ? 1 - tail : tail;
+};
+
+export const studentTTwoSidedPValue = (t: number, df: number): number => {
+    if (isNaN(t)) return NaN;
+    return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+export const studentTQuantile = (p: number, df: number): number => {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    let low = -1;
+    let high = 1;
+    while (studentTCdf(low, df) > p) low *= 2;
+    while (studentTCdf(high, df) < p) high *= 2;
+    for (let i = 0; i < 100; i++) {
+        const mid = (low + high) / 2;
+        if (studentTCdf(mid, df) < p) low = mid; else high = mid;
+    }
+    return (low + high) / 2;
+};
+
+/** Upper-tail probability P(F > f) for an F(d1, d2) distribution. */
+export const fSurvival = (f: number, d1: number, d2: number): number => {
+    if (isNaN(f)) return NaN;
+    if (f <= 0) return 1;
+    return regularizedIncompleteBeta(d2 / (d2 + d1 * f), d2 / 2, d1 / 2);
+};
+
+const regularizedGammaP = (a: number, x: number): number => {
+    if (x <= 0) return 0;
+    const logPrefix = -x + a * Math.log(x) - logGamma(a);
+    if (x < a + 1) {
+        // Series representation.
+        let sum = 1 / a;
+        let term = sum;
+        for (let n = 1; n < 500; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+        }
+        return sum * Math.exp(logPrefix);
+    }
+    // Continued fraction for the complement.
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i < 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < 1e-15) break;
+    }
+    return 1 - Math.exp(logPrefix) * h;
+};
+
+/** Upper-tail probability P(X > x) for a chi-squared distribution with k degrees of freedom. */
+export const chiSquareSurvival = (x: number, k: number): number => {
+    if (isNaN(x)) return NaN;
+    return 1 - regularizedGammaP(k / 2, x / 2);
+};
@@ -0,0 +1,206 @@
+import { serializeModel, parseModelArtifact } from './modelArtifactService';
+import type { LoadedModel } from './modelArtifactService';
+import type { ModelResults } from '../types';
+import { isPenalized, isRobust } from './modelService';
+import { chiSquareSurvival, fSurvival } from './distributions';
+
+/** Oldest runs are dropped beyond this, so the history does not grow without bound. */
+export const MAX_EXPERIMENT_RUNS = 50;
+
+/** The per-row facts the nested-model test needs, kept in place of the per-row results. */
+export interface RunFit {
+    n: number;
+    rss: number;
+    /** Hash of the training rows and their target values; equal hashes mean the same observations. */
+    observations: string;
+}
+
+export interface ExperimentRun {
+    id: string;
+    /** The model without its per-row results (fitted values, residuals, influence, IRLS weights). */
+    loaded: LoadedModel;
+    fit: RunFit;
+}
+
+export class ModelComparisonError extends Error {}
+
+const DB_NAME = 'prediccion-ventas';
+
+const residualSumOfSquares = (residuals: number[]) => residuals.reduce((acc, r) => acc + r * r, 0);
+const STORE_NAME = 'experiments';
+
+// Runs are stored as the same JSON as exported model files, so loading reuses the artifact validation.
+interface StoredRun {
+    id: string;
+    trainedAt: string;
+    artifact: string;
+    /** Absent in runs saved before the per-row results were dropped from storage. */
+    fit?: RunFit;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+const createRunId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Two 32-bit FNV-1a hashes with different offsets, so distinct row sets practically never collide.
+const hashText = (text: string) => [0x811c9dc5, 0x050c5d1f].map(offset => {
+    let hash = offset;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+}).join('');
+
+const runFit = (results: ModelResults): RunFit => ({
+    n: results.residuals.length,
+    rss: residualSumOfSquares(results.residuals),
+    // y = fitted + residual, rounded so that floating-point noise does not change the hash.
+    observations: hashText(results.trainRowIndices.map((row, i) => `${row}:${(results.fitted[i] + results.residuals[i]).toPrecision(10)}`).join(',')),
+});
+
+const withoutRowResults = (loaded: LoadedModel): LoadedModel => ({
+    ...loaded,
+    results: {
+        ...loaded.results,
+        fitted: [],
+        residuals: [],
+        trainRowIndices: [],
+        influence: [],
+        robust: loaded.results.robust && { ...loaded.results.robust, weights: [] },
+    },
+});
+
+/** A history entry for a freshly trained model; the per-row results stay with the active model only. */
+export const createExperimentRun = (loaded: LoadedModel): ExperimentRun => ({
+    id: createRunId(),
+    loaded: withoutRowResults(loaded),
+    fit: runFit(loaded.results),
+});
+
+export const saveExperimentRun = (run: ExperimentRun) =>
+    withStore('readwrite', store => store.put({
+        id: run.id,
+        trainedAt: run.loaded.metadata.trainedAt,
+        artifact: serializeModel(run.loaded, false),
+        fit: run.fit,
+    }));
+
+/** Saved runs, oldest first. Entries that no longer parse are skipped rather than failing the whole history. */
+export const loadExperimentRuns = async (): Promise<ExperimentRun[]> => {
+    const stored = await withStore<StoredRun[]>('readonly', store => store.getAll());
+    return stored
+        .sort((a, b) => a.trainedAt.localeCompare(b.trainedAt))
+        .flatMap(({ id, artifact, fit }) => {
+            let loaded: LoadedModel;
+            try {
+                loaded = parseModelArtifact(artifact);
+            } catch {
+                return [];
+            }
+            const run = { id, loaded: withoutRowResults(loaded), fit: fit ?? runFit(loaded.results) };
+            // Older entries hold the full artifact; rewriting them once shrinks the store.
+            if (!fit) saveExperimentRun(run).catch(() => undefined);
+            return [run];
+        });
+};
+
+export const deleteExperimentRun = (id: string) => withStore('readwrite', store => store.delete(id));
+
+export interface NestedModelComparison {
+    restricted: LoadedModel;
+    full: LoadedModel;
+    /** Terms in the larger model that the smaller one lacks. */
+    addedTerms: string[];
+    n: number;
+    rssRestricted: number;
+    rssFull: number;
+    fStatistic: number;
+    dfNumerator: number;
+    dfDenominator: number;
+    fPValue: number;
+    /** Likelihood-ratio statistic n·ln(RSSr/RSSf), χ² with dfNumerator degrees of freedom. */
+    lrStatistic: number;
+    lrPValue: number;
+    aicRestricted: number;
+    aicFull: number;
+}
+
+// Gaussian log-likelihood AIC up to a constant shared by both models: n·ln(RSS/n) + 2k.
+const aic = (rss: number, n: number, parameters: number) => n * Math.log(rss / n) + 2 * parameters;
+
+// The same rows could still hold a differently derived target, so the hash covers the target values too.
+const sameObservations = (a: ExperimentRun, b: ExperimentRun) =>
+    a.loaded.dependentVar === b.loaded.dependentVar
+    && a.loaded.metadata.fileName === b.loaded.metadata.fileName
+    && a.fit.n === b.fit.n
+    && a.fit.observations === b.fit.observations;
+
+/**
+ * F-test and likelihood-ratio test of a model against a larger one that contains all of its terms,
+ * both fitted by least squares on the same training rows. The order of the arguments does not matter.
+ */
+export const compareNestedModels = (a: ExperimentRun, b: ExperimentRun): NestedModelComparison => {
+    const [restrictedRun, fullRun] = a.loaded.results.termNames.length <= b.loaded.results.termNames.length ? [a, b] : [b, a];
+    const restricted = restrictedRun.loaded;
+    const full = fullRun.loaded;
+    if (isPenalized(restricted.results.modelType) || isPenalized(full.results.modelType)) {
+        throw new ModelComparisonError('La prueba F solo es válida para modelos de mínimos cuadrados, no penalizados.');
+    }
+    if ([restricted, full].some(m => isRobust(m.results.modelType) || m.results.weightColumn)) {
+        throw new ModelComparisonError('La prueba F del historial compara sumas de cuadrados sin ponderar; no admite modelos robustos ni ponderados.');
+    }
+    const fullTerms = full.results.termNames;
+    const restrictedTerms = restricted.results.termNames;
+    const addedTerms = fullTerms.filter(t => !restrictedTerms.includes(t));
+    if (addedTerms.length === 0 || restrictedTerms.some(t => !fullTerms.includes(t))) {
+        throw new ModelComparisonError('Los modelos no están anidados: los términos de uno deben ser un subconjunto estricto de los del otro.');
+    }
+    if (!sameObservations(restrictedRun, fullRun)) {
+        throw new ModelComparisonError('Los modelos no se entrenaron con la misma variable dependiente y las mismas filas, así que no son comparables.');
+    }
+
+    const n = fullRun.fit.n;
+    const rssRestricted = restrictedRun.fit.rss;
+    const rssFull = fullRun.fit.rss;
+    const dfNumerator = addedTerms.length;
+    const dfDenominator = n - fullTerms.length - 1;
+    if (dfDenominator <= 0) {
+        throw new ModelComparisonError('No hay grados de libertad residuales suficientes en el modelo mayor.');
+    }
+    const fStatistic = ((rssRestricted - rssFull) / dfNumerator) / (rssFull / dfDenominator);
+    const lrStatistic = n * Math.log(rssRestricted / rssFull);
+    return {
+        restricted,
+        full,
+        addedTerms,
+        n,
+        rssRestricted,
+        rssFull,
+        fStatistic,
+        dfNumerator,
+        dfDenominator,
+        fPValue: fSurvival(fStatistic, dfNumerator, dfDenominator),
+        lrStatistic,
+        lrPValue: chiSquareSurvival(lrStatistic, dfNumerator),
+        aicRestricted: aic(rssRestricted, n, restrictedTerms.length + 1),
+        aicFull: aic(rssFull, n, fullTerms.length + 1),
+    };
+};
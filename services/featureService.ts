@@ -0,0 +1,336 @@
+import { mean, median, standardDeviation } from 'simple-statistics';
+import { fitLinearRegression, selectCompleteRows } from './regressionService';
+import { isMissingValue } from './dataQualityService';
+import {
+    parseIsoDate, periodsBetween, seasonOf, FREQUENCY_LABELS, SEASONAL_PERIOD_LABELS, SEASON_PREFIX
+} from './timeSeriesService';
+import type { DataRow, DataSet, FeatureStep, ImputationStrategy, SeasonalPeriod, TimeFrequency } from '../types';
+
+export const createStepId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const featureInputColumns = (step: FeatureStep): string[] =>
+    step.kind === 'interaction' ? [...step.columns] : [step.column];
+
+export const featureOutputColumns = (step: FeatureStep): string[] => {
+    switch (step.kind) {
+        case 'dummy':
+            return step.levels.filter(l => l !== step.reference).map(l => `${step.column}_${l}`);
+        case 'log':
+            return [`log(${step.column})`];
+        case 'sqrt':
+            return [`sqrt(${step.column})`];
+        case 'standardize':
+            return [`z(${step.column})`];
+        case 'polynomial':
+            return Array.from({ length: step.degree - 1 }, (_, i) => `${step.column}^${i + 2}`);
+        case 'interaction':
+            return [`${step.columns[0]}×${step.columns[1]}`];
+        case 'lag':
+            return [`${step.column}_lag${step.lag}`];
+        case 'trend':
+            return [`${step.column}_tendencia`];
+        case 'seasonal':
+            return step.levels.filter(l => l !== step.reference).map(l => `${step.column}_${SEASON_PREFIX[step.period]}${l}`);
+        case 'impute':
+            // The column itself is filled in place; only the indicator is a new column.
+            return step.indicator ? [`${step.column}_faltante`] : [];
+    }
+};
+
+/** Original columns each derived column is computed from, following chains of steps. */
+export const derivedColumnSources = (steps: FeatureStep[]): Record<string, string[]> =>
+    steps.reduce<Record<string, string[]>>((sources, step) => {
+        const inputs = [...new Set(featureInputColumns(step).flatMap(column => sources[column] ?? [column]))];
+        featureOutputColumns(step).forEach(column => { sources[column] = inputs; });
+        return sources;
+    }, {});
+
+export const IMPUTATION_LABELS: Record<ImputationStrategy, string> = {
+    mean: 'media',
+    median: 'mediana',
+    mode: 'moda',
+    constant: 'constante',
+    forwardFill: 'valor anterior (forward-fill)',
+    regression: 'regresión',
+};
+
+export const describeFeatureStep = (step: FeatureStep): string => {
+    switch (step.kind) {
+        case 'dummy':
+            return `Variables dummy de ${step.column} (referencia: ${step.reference})`;
+        case 'log':
+            return `Logaritmo natural de ${step.column}`;
+        case 'sqrt':
+            return `Raíz cuadrada de ${step.column}`;
+        case 'standardize':
+            return `Estandarización de ${step.column} (media ${step.mean.toFixed(2)}, desv. ${step.std.toFixed(2)})`;
+        case 'polynomial':
+            return `Términos polinómicos de ${step.column} hasta grado ${step.degree}`;
+        case 'interaction':
+            return `Interacción ${step.columns[0]} × ${step.columns[1]}`;
+        case 'lag':
+            return `Rezago ${step.lag} de ${step.column}`;
+        case 'trend':
+            return `Tendencia ${FREQUENCY_LABELS[step.frequency].toLowerCase()} de ${step.column} (periodos desde ${step.origin})`;
+        case 'seasonal':
+            return `Estacionalidad por ${SEASONAL_PERIOD_LABELS[step.period]} de ${step.column} (referencia: ${step.reference})`;
+        case 'impute': {
+            const source = step.regression ? ` sobre ${step.regression.predictors.join(', ')}` : ` (${typeof step.fillValue === 'number' ? step.fillValue.toFixed(2) : step.fillValue})`;
+            return `Imputación de ${step.column} por ${IMPUTATION_LABELS[step.strategy]}${source}`;
+        }
+    }
+};
+
+const toNumber = (value: DataRow[string] | undefined): number =>
+    typeof value === 'number' ? value : NaN;
+
+/** Levels of a column ordered by frequency, most common first. */
+export const columnLevels = (data: DataRow[], column: string): string[] => {
+    const counts = new Map<string, number>();
+    data.forEach(row => {
+        const value = row[column];
+        if (value === undefined || value === '') return;
+        const key = String(value);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([level]) => level);
+};
+
+export const buildStandardizeStep = (data: DataRow[], column: string): FeatureStep => {
+    const values = data.map(row => row[column]).filter((v): v is number => typeof v === 'number' && !isNaN(v));
+    return {
+        id: createStepId(),
+        kind: 'standardize',
+        column,
+        mean: values.length > 0 ? mean(values) : 0,
+        std: values.length > 1 ? standardDeviation(values) : 1,
+    };
+};
+
+/** Trend counted from the earliest date in `data`; null if the column has no valid dates. */
+export const buildTrendStep = (data: DataRow[], column: string, frequency: TimeFrequency): FeatureStep | null => {
+    const dates = data.map(row => row[column]).filter((v): v is string => parseIsoDate(v) !== null).sort();
+    return dates.length > 0 ? { id: createStepId(), kind: 'trend', column, origin: dates[0], frequency } : null;
+};
+
+/** Dummies for the seasons present in `data`, the first as reference; null if fewer than two. */
+export const buildSeasonalStep = (data: DataRow[], column: string, period: SeasonalPeriod): FeatureStep | null => {
+    const seasons = new Set<number>();
+    data.forEach(row => {
+        const date = parseIsoDate(row[column]);
+        if (date) seasons.add(seasonOf(date, period));
+    });
+    const levels = [...seasons].sort((a, b) => a - b);
+    return levels.length >= 2 ? { id: createStepId(), kind: 'seasonal', column, period, levels, reference: levels[0] } : null;
+};
+
+const isMissingFor = (step: Extract<FeatureStep, { kind: 'impute' }>, value: DataRow[string] | undefined) =>
+    isMissingValue(value) || (typeof step.fillValue === 'number' && typeof value !== 'number');
+
+export interface ImputeOptions {
+    numeric: boolean;
+    constant: string;
+    predictors: string[];
+    indicator: boolean;
+}
+
+/**
+ * Fits an imputation rule on the observed values of `column`. Returns null when the
+ * strategy does not apply (e.g. a mean of text) or there is nothing to fit on.
+ */
+export const buildImputeStep = (data: DataRow[], column: string, strategy: ImputationStrategy, options: ImputeOptions): FeatureStep | null => {
+    const observed = data.map(row => row[column]).filter(v => !isMissingValue(v) && (!options.numeric || typeof v === 'number'));
+    const numbers = observed as number[];
+    const base = { id: createStepId(), kind: 'impute' as const, column, strategy, regression: null, indicator: options.indicator };
+    if (strategy === 'constant') {
+        const value = options.numeric ? parseFloat(options.constant) : options.constant.trim();
+        return value === '' || (typeof value === 'number' && isNaN(value)) ? null : { ...base, fillValue: value };
+    }
+    if (observed.length === 0) return null;
+    switch (strategy) {
+        case 'mean':
+            return options.numeric ? { ...base, fillValue: mean(numbers) } : null;
+        case 'median':
+            return options.numeric ? { ...base, fillValue: median(numbers) } : null;
+        case 'mode': {
+            const counts = new Map<string | number, number>();
+            observed.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+            const [mode] = [...counts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+            return { ...base, fillValue: mode };
+        }
+        case 'forwardFill':
+            // A new row follows the last training row, so it takes the last observed value.
+            return { ...base, fillValue: observed[observed.length - 1] };
+        case 'regression': {
+            const predictors = options.predictors.filter(p => p !== column);
+            if (!options.numeric || predictors.length === 0) return null;
+            const rows = selectCompleteRows(data, [column, ...predictors]);
+            if (rows.length <= predictors.length + 1) return null;
+            const model = fitLinearRegression(rows.map(row => predictors.map(p => row[p] as number)), rows.map(row => row[column] as number));
+            return {
+                ...base,
+                fillValue: mean(numbers),
+                regression: { predictors, intercept: model.intercept, coefficients: model.coefficients },
+            };
+        }
+    }
+};
+
+/** Fills `row[step.column]` with `fill` if it is missing and sets the indicator. Returns the resulting value. */
+const imputeRow = (row: DataRow, step: Extract<FeatureStep, { kind: 'impute' }>, fill: number | string) => {
+    const missing = isMissingFor(step, row[step.column]);
+    if (step.indicator) row[`${step.column}_faltante`] = missing ? 1 : 0;
+    if (missing) row[step.column] = fill;
+    return row[step.column];
+};
+
+const regressionFill = (row: DataRow, step: Extract<FeatureStep, { kind: 'impute' }>): number | string => {
+    if (!step.regression) return step.fillValue;
+    const values = step.regression.predictors.map(p => row[p]);
+    if (values.some(v => typeof v !== 'number' || isNaN(v))) return step.fillValue;
+    return (values as number[]).reduce((acc, v, i) => acc + v * step.regression!.coefficients[i], step.regression.intercept);
+};
+
+/**
+ * Writes the outputs of a single step into `row`. `lagged` is the row `step.lag`
+ * positions earlier (undefined at the start of the data).
+ */
+const applyStepToRow = (row: DataRow, step: FeatureStep, lagged?: DataRow) => {
+    const outputs = featureOutputColumns(step);
+    switch (step.kind) {
+        case 'dummy': {
+            const value = row[step.column];
+            const known = value !== undefined && value !== '';
+            step.levels.filter(l => l !== step.reference).forEach((level, i) => {
+                row[outputs[i]] = known ? (String(value) === level ? 1 : 0) : NaN;
+            });
+            break;
+        }
+        case 'log': {
+            const value = toNumber(row[step.column]);
+            row[outputs[0]] = value > 0 ? Math.log(value) : NaN;
+            break;
+        }
+        case 'sqrt': {
+            const value = toNumber(row[step.column]);
+            row[outputs[0]] = value >= 0 ? Math.sqrt(value) : NaN;
+            break;
+        }
+        case 'standardize': {
+            const value = toNumber(row[step.column]);
+            row[outputs[0]] = step.std === 0 ? 0 : (value - step.mean) / step.std;
+            break;
+        }
+        case 'polynomial': {
+            const value = toNumber(row[step.column]);
+            outputs.forEach((name, i) => { row[name] = Math.pow(value, i + 2); });
+            break;
+        }
+        case 'interaction':
+            row[outputs[0]] = toNumber(row[step.columns[0]]) * toNumber(row[step.columns[1]]);
+            break;
+        case 'lag':
+            row[outputs[0]] = lagged ? toNumber(lagged[step.column]) : NaN;
+            break;
+        case 'trend': {
+            const date = parseIsoDate(row[step.column]);
+            row[outputs[0]] = date ? periodsBetween(parseIsoDate(step.origin)!, date, step.frequency) : NaN;
+            break;
+        }
+        case 'seasonal': {
+            const date = parseIsoDate(row[step.column]);
+            const season = date ? seasonOf(date, step.period) : NaN;
+            step.levels.filter(l => l !== step.reference).forEach((level, i) => {
+                row[outputs[i]] = date ? (season === level ? 1 : 0) : NaN;
+            });
+            break;
+        }
+        case 'impute':
+            imputeRow(row, step, regressionFill(row, step));
+            break;
+    }
+};
+
+/** Applies the steps in order and returns a new DataSet with the derived columns appended. */
+export const applyFeatureSteps = (dataSet: DataSet, steps: FeatureStep[]): DataSet => {
+    if (steps.length === 0) return dataSet;
+    const data = dataSet.data.map(row => ({ ...row }));
+    const derived: string[] = [];
+    steps.forEach(step => {
+        if (step.kind === 'impute' && step.strategy === 'forwardFill') {
+            // Leading gaps take the first observed value; later ones carry the previous value forward.
+            let carry = data.map(row => row[step.column]).find(v => !isMissingFor(step, v)) ?? step.fillValue;
+            data.forEach(row => { carry = imputeRow(row, step, carry); });
+        } else {
+            data.forEach((row, i) => applyStepToRow(row, step, step.kind === 'lag' ? data[i - step.lag] : undefined));
+        }
+        derived.push(...featureOutputColumns(step));
+    });
+    const newColumns = derived.filter(c => !dataSet.headers.includes(c));
+    return {
+        data,
+        headers: [...dataSet.headers, ...newColumns],
+        numericHeaders: [...dataSet.numericHeaders, ...newColumns.filter(c => !dataSet.numericHeaders.includes(c))],
+    };
+};
+
+/** Applies the steps to a single hand-entered row. Lag outputs are expected as inputs. */
+export const applyFeatureStepsToRow = (row: DataRow, steps: FeatureStep[]): DataRow => {
+    const result = { ...row };
+    steps.forEach(step => {
+        if (step.kind !== 'lag') applyStepToRow(result, step);
+    });
+    return result;
+};
+
+/**
+ * Columns a user has to provide so that `variables` can be computed through `steps`.
+ * Lag outputs count as inputs because the previous period cannot be derived from one row.
+ */
+export const requiredInputColumns = (variables: string[], steps: FeatureStep[]): string[] => {
+    const producers = new Map<string, FeatureStep>();
+    steps.forEach(step => featureOutputColumns(step).forEach(c => producers.set(c, step)));
+    const required: string[] = [];
+    const visit = (column: string) => {
+        const step = producers.get(column);
+        if (!step || step.kind === 'lag') {
+            if (!required.includes(column)) required.push(column);
+            return;
+        }
+        featureInputColumns(step).forEach(visit);
+    };
+    variables.forEach(visit);
+    return required;
+};
+
+export const imputedColumns = (steps: FeatureStep[]): string[] =>
+    steps.filter(step => step.kind === 'impute').map(step => featureInputColumns(step)[0]);
+
+/** Columns read as dates by trend or seasonal steps. */
+export const dateInputColumns = (steps: FeatureStep[]): string[] =>
+    [...new Set(steps.filter(step => step.kind === 'trend' || step.kind === 'seasonal').map(step => featureInputColumns(step)[0]))];
+
+/**
+ * Inserts an imputation right after the step that creates its column (or first, for original
+ * columns) so that every later transformation sees the filled values. Other steps are appended.
+ */
+export const insertFeatureStep = (steps: FeatureStep[], step: FeatureStep): FeatureStep[] => {
+    if (step.kind !== 'impute') return [...steps, step];
+    let position = steps.reduce((last, existing, i) => (featureOutputColumns(existing).includes(step.column) ? i : last), -1) + 1;
+    while (position < steps.length && steps[position].kind === 'impute') position++;
+    return [...steps.slice(0, position), step, ...steps.slice(position)];
+};
+
+/** The step with `id` plus every later step that consumes its outputs, directly or transitively. */
+export const dependentStepIds = (steps: FeatureStep[], id: string): string[] => {
+    const removed = new Set([id]);
+    const removedColumns = new Set<string>();
+    steps.forEach(step => {
+        const consumesRemoved = featureInputColumns(step).some(c => removedColumns.has(c));
+        if (removed.has(step.id) || consumesRemoved) {
+            removed.add(step.id);
+            featureOutputColumns(step).forEach(c => removedColumns.add(c));
+        }
+    });
+    return [...removed];
+};
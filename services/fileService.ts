@@ -0,0 +1,271 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { DataRow, TaskProgress } from '../types';
+
+export class FileParseError extends Error {}
+
+/** Extensions accepted by the file inputs. */
+export const DATA_FILE_ACCEPT = '.csv,.tsv,.txt,.xlsx,.xls,.json,.ndjson,.jsonl';
+
+const MAX_REPORTED_ERRORS = 5;
+// Pasted delimited text is parsed in slices of this many characters so progress can be reported.
+const PARSE_CHUNK_SIZE = 1 << 20;
+const DELIMITERS_TO_GUESS = [';', ',', '\t', '|'];
+
+const extensionOf = (name: string) => name.toLowerCase().slice(name.lastIndexOf('.'));
+const isExcel = (name: string) => ['.xlsx', '.xls'].includes(extensionOf(name));
+
+export interface ParsedRows {
+    rows: DataRow[];
+    /** Rows the parser had to repair or skip; shown to the user but not fatal. */
+    warnings: string[];
+}
+
+export type DataSource =
+    | ({ kind: 'rows' } & ParsedRows)
+    | { kind: 'workbook'; workbook: XLSX.WorkBook };
+
+const readFileAs = <T,>(file: File, read: (reader: FileReader) => void): Promise<T> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as T);
+    reader.onerror = () => reject(new FileParseError(`No se pudo leer el archivo ${file.name}.`));
+    read(reader);
+});
+
+/**
+ * Reads a file as UTF-8 text. With `onProgress` and stream support the file is decoded chunk by
+ * chunk, reporting the share of bytes read; the text is the same as FileReader's (BOM dropped).
+ */
+export const readTextFile = async (file: File, onProgress?: (fraction: number) => void): Promise<string> => {
+    if (!onProgress || typeof file.stream !== 'function') return readFileAs<string>(file, reader => reader.readAsText(file));
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder('utf-8');
+    const parts: string[] = [];
+    let bytesRead = 0;
+    try {
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            parts.push(decoder.decode(chunk.value, { stream: true }));
+            bytesRead += chunk.value.byteLength;
+            onProgress(file.size > 0 ? bytesRead / file.size : 1);
+        }
+    } catch {
+        throw new FileParseError(`No se pudo leer el archivo ${file.name}.`);
+    }
+    parts.push(decoder.decode());
+    return parts.join('');
+};
+
+const summarizeErrors = (messages: string[]) =>
+    messages.length > MAX_REPORTED_ERRORS
+        ? [...messages.slice(0, MAX_REPORTED_ERRORS), `... y ${messages.length - MAX_REPORTED_ERRORS} avisos más`]
+        : messages;
+
+/** Gathers Papa's chunks into rows, with its errors as row-numbered warnings. */
+const createRowCollector = () => {
+    const data: DataRow[] = [];
+    const errors: Papa.ParseError[] = [];
+    return {
+        add: (results: Papa.ParseResult<DataRow>) => {
+            results.data.forEach(row => data.push(row));
+            results.errors.forEach(err => errors.push(err));
+        },
+        finish: (): ParsedRows => {
+            // Papa reports data rows from 0; +2 accounts for the header line and 1-based numbering.
+            const messages = errors.map(err => (err.row !== undefined ? `Fila ${err.row + 2}: ${err.message}` : err.message));
+            if (data.length === 0) {
+                throw new FileParseError(messages[0] ?? 'No se encontraron filas de datos.');
+            }
+            // Papa keeps surplus fields of malformed rows under this key; they have no header to map to.
+            const rows = data.map(({ __parsed_extra, ...row }) => row as DataRow);
+            return { rows, warnings: summarizeErrors(messages) };
+        },
+    };
+};
+
+/**
+ * Parses headed delimited text. The delimiter is detected among comma, semicolon, tab and
+ * pipe unless given, so Spanish "1,5;2,3" exports and spreadsheet pastes both work. The text is
+ * parsed in chunks (Papa keeps the header, delimiter and row numbers across them), reporting
+ * the share of characters consumed.
+ */
+export const parseDelimitedText = (text: string, delimiter = '', onProgress?: (fraction: number) => void): ParsedRows => {
+    const trimmed = text.trim();
+    const collector = createRowCollector();
+    // With a string input and a chunk callback Papa parses synchronously.
+    Papa.parse<DataRow>(trimmed, {
+        header: true,
+        skipEmptyLines: true,
+        delimiter,
+        delimitersToGuess: DELIMITERS_TO_GUESS,
+        chunkSize: PARSE_CHUNK_SIZE,
+        chunk: (results: Papa.ParseResult<DataRow>) => {
+            collector.add(results);
+            onProgress?.(trimmed.length > 0 ? results.meta.cursor / trimmed.length : 1);
+        },
+    });
+    return collector.finish();
+};
+
+/**
+ * A file's text as the Node-style readable stream Papa accepts. Papa's own File reader decodes
+ * fixed byte slices, which splits multi-byte characters (ñ, é) at the slice boundaries; a
+ * streaming TextDecoder carries them over to the next piece. Call `start` once Papa listens.
+ */
+const decodedTextStream = (file: File, onBytesRead: (bytes: number) => void) => {
+    type Listener = (value?: unknown) => void;
+    const listeners: Record<string, Listener[]> = { data: [], end: [], error: [] };
+    const emit = (event: string, value?: unknown) => listeners[event].slice().forEach(listener => listener(value));
+    return {
+        readable: true,
+        read: () => null,
+        on: (event: string, listener: Listener) => { listeners[event]?.push(listener); },
+        removeListener: (event: string, listener: Listener) => {
+            listeners[event] = (listeners[event] ?? []).filter(l => l !== listener);
+        },
+        pause: () => undefined,
+        resume: () => undefined,
+        start: async () => {
+            const decoder = new TextDecoder('utf-8');
+            let bytesRead = 0;
+            try {
+                const reader = file.stream().getReader();
+                for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                    bytesRead += chunk.value.byteLength;
+                    const text = decoder.decode(chunk.value, { stream: true });
+                    if (text) emit('data', text);
+                    onBytesRead(bytesRead);
+                }
+                const rest = decoder.decode();
+                if (rest) emit('data', rest);
+                emit('end');
+            } catch (error) {
+                emit('error', error);
+            }
+        },
+    };
+};
+
+/**
+ * Parses a delimited file while it is read, so the whole text is never held in one string;
+ * only the rows are. Progress is the share of bytes read.
+ */
+export const parseDelimitedFile = (file: File, delimiter = '', onProgress?: (fraction: number) => void): Promise<ParsedRows> =>
+    new Promise((resolve, reject) => {
+        const collector = createRowCollector();
+        const stream = decodedTextStream(file, bytes => onProgress?.(file.size > 0 ? bytes / file.size : 1));
+        Papa.parse<DataRow>(stream, {
+            header: true,
+            skipEmptyLines: true,
+            delimiter,
+            delimitersToGuess: DELIMITERS_TO_GUESS,
+            chunk: collector.add,
+            complete: () => {
+                try {
+                    resolve(collector.finish());
+                } catch (error) {
+                    reject(error);
+                }
+            },
+            error: () => reject(new FileParseError(`No se pudo leer el archivo ${file.name}.`)),
+        });
+        stream.start();
+    });
+
+const toCell = (value: unknown): DataRow[string] => {
+    if (typeof value === 'number' || typeof value === 'string') return value;
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const toRow = (value: unknown): DataRow | null => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    return Object.fromEntries(Object.entries(value).map(([key, cell]) => [key, toCell(cell)]));
+};
+
+/** Reads a JSON array of objects (optionally under `data`) or newline-delimited JSON. */
+export const parseJsonRows = (text: string): ParsedRows => {
+    const trimmed = text.trim();
+    const warnings: string[] = [];
+    let records: unknown[];
+    let whole: unknown = undefined;
+    try {
+        whole = JSON.parse(trimmed);
+    } catch {
+        // Not a single JSON document: read it as newline-delimited JSON below.
+    }
+    if (Array.isArray(whole)) {
+        records = whole;
+    } else if (whole && typeof whole === 'object') {
+        const data = (whole as { data?: unknown }).data;
+        records = Array.isArray(data) ? data : [whole];
+    } else {
+        records = [];
+        trimmed.split(/\r?\n/).forEach((line, i) => {
+            if (line.trim() === '') return;
+            try {
+                records.push(JSON.parse(line));
+            } catch {
+                warnings.push(`Línea ${i + 1}: JSON no válido`);
+            }
+        });
+    }
+    const rows: DataRow[] = [];
+    records.forEach((record, i) => {
+        const row = toRow(record);
+        if (row) rows.push(row);
+        else warnings.push(`Registro ${i + 1}: no es un objeto`);
+    });
+    if (rows.length === 0) throw new FileParseError('El archivo JSON no contiene registros.');
+    return { rows, warnings: summarizeErrors(warnings) };
+};
+
+/** Rows of one sheet, taking the column names from `headerRow` (1-based). */
+export const sheetToRows = (workbook: XLSX.WorkBook, sheetName: string, headerRow: number): DataRow[] => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) throw new FileParseError(`La hoja ${sheetName} no existe.`);
+    return XLSX.utils.sheet_to_json(worksheet, { range: Math.max(0, headerRow - 1) }) as DataRow[];
+};
+
+/** Reads any supported file. Workbooks are returned whole so the caller can choose a sheet. */
+export const readDataSource = async (file: File, onProgress?: (progress: TaskProgress) => void): Promise<DataSource> => {
+    const extension = extensionOf(file.name);
+    const reading = onProgress && ((fraction: number) => onProgress({ phase: 'Leyendo el archivo', fraction }));
+    if (isExcel(file.name)) {
+        onProgress?.({ phase: 'Leyendo el libro de Excel', fraction: 0 });
+        const buffer = await readFileAs<ArrayBuffer>(file, reader => reader.readAsArrayBuffer(file));
+        try {
+            return { kind: 'workbook', workbook: XLSX.read(new Uint8Array(buffer), { type: 'array', cellDates: true }) };
+        } catch {
+            throw new FileParseError('Error al leer el archivo Excel.');
+        }
+    }
+    if (['.csv', '.tsv', '.txt'].includes(extension)) {
+        return { kind: 'rows', ...await parseDelimitedFile(file, extension === '.tsv' ? '\t' : '', reading) };
+    }
+    if (['.json', '.ndjson', '.jsonl'].includes(extension)) {
+        return { kind: 'rows', ...parseJsonRows(await readTextFile(file, reading)) };
+    }
+    throw new FileParseError('Formato de archivo no soportado. Usa CSV, TSV, XLSX, XLS o JSON.');
+};
+
+export const triggerDownload = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/** Saves rows as a workbook or .csv depending on the extension of `fileName`. */
+export const downloadRows = (rows: DataRow[], headers: string[], fileName: string) => {
+    if (isExcel(fileName)) {
+        const worksheet = XLSX.utils.json_to_sheet(rows, { header: headers });
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, 'Datos');
+        XLSX.writeFile(workbook, fileName);
+        return;
+    }
+    const csv = Papa.unparse({ fields: headers, data: rows.map(row => headers.map(h => row[h] ?? '')) });
+    triggerDownload(new Blob([csv], { type: 'text/csv;charset=utf-8' }), fileName);
+};
@@ -0,0 +1,87 @@
+import { isMissingValue } from './dataQualityService';
+import type { DataRow, DataSet, FilterCondition, FilterOperator } from '../types';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+    eq: '=',
+    is: 'es exactamente',
+    neq: '≠',
+    lt: '<',
+    lte: '≤',
+    gt: '>',
+    gte: '≥',
+    contains: 'contiene',
+    in: 'es uno de',
+};
+
+/** Operators offered for numeric columns. */
+export const NUMERIC_FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in'];
+
+/** Operators offered for text columns. "is" is left out: only segment training sets it. */
+export const TEXT_FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'contains', 'in'];
+
+export const createFilterId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const listValues = (value: string) => value.split(',').map(v => v.trim()).filter(v => v !== '');
+
+export const describeFilter = (condition: FilterCondition): string =>
+    condition.operator === 'in'
+        ? `${condition.column} ${FILTER_OPERATOR_LABELS.in} {${listValues(condition.value).join(', ')}}`
+        : `${condition.column} ${FILTER_OPERATOR_LABELS[condition.operator]} ${condition.value}`;
+
+/** Why a condition cannot be applied, or null if it is valid for the dataset. */
+export const filterProblem = (dataSet: DataSet, condition: FilterCondition): string | null => {
+    if (!dataSet.headers.includes(condition.column)) return `La columna ${condition.column} no existe en el dataset.`;
+    if (condition.value.trim() === '') return `Falta el valor del filtro sobre ${condition.column}.`;
+    if (dataSet.numericHeaders.includes(condition.column)) {
+        if (condition.operator === 'contains') return `"contiene" solo se aplica a columnas de texto (${condition.column}).`;
+        const values = condition.operator === 'in' ? listValues(condition.value) : [condition.value.trim()];
+        if (values.some(v => !isFinite(Number(v)))) return `El filtro sobre ${condition.column} necesita valores numéricos.`;
+    }
+    return null;
+};
+
+/**
+ * Numeric columns compare as numbers. Text columns compare case-insensitively for equality and
+ * "contains", and in text order for <, >, which suits yyyy-mm-dd dates. "is" matches the stored
+ * value exactly, as segment models group rows. Missing values never match.
+ */
+const matches = (value: DataRow[string] | undefined, condition: FilterCondition, numeric: boolean): boolean => {
+    if (isMissingValue(value)) return false;
+    const { operator } = condition;
+    if (numeric) {
+        if (typeof value !== 'number') return false;
+        if (operator === 'in') return listValues(condition.value).map(Number).includes(value);
+        const target = Number(condition.value);
+        switch (operator) {
+            case 'eq':
+            case 'is': return value === target;
+            case 'neq': return value !== target;
+            case 'lt': return value < target;
+            case 'lte': return value <= target;
+            case 'gt': return value > target;
+            case 'gte': return value >= target;
+            default: return false;
+        }
+    }
+    if (operator === 'is') return String(value) === condition.value;
+    const text = String(value).trim().toLowerCase();
+    const target = condition.value.trim().toLowerCase();
+    switch (operator) {
+        case 'eq': return text === target;
+        case 'neq': return text !== target;
+        case 'lt': return text < target;
+        case 'lte': return text <= target;
+        case 'gt': return text > target;
+        case 'gte': return text >= target;
+        case 'contains': return text.includes(target);
+        case 'in': return listValues(target).includes(text);
+    }
+};
+
+/** Positions of the rows that satisfy every condition. Invalid conditions (see `filterProblem`) are ignored. */
+export const filterRowIndices = (dataSet: DataSet, conditions: FilterCondition[]): number[] => {
+    const active = conditions
+        .filter(c => filterProblem(dataSet, c) === null)
+        .map(c => ({ condition: c, numeric: dataSet.numericHeaders.includes(c.column) }));
+    return dataSet.data.map((_, i) => i).filter(i => active.every(({ condition, numeric }) => matches(dataSet.data[i][condition.column], condition, numeric)));
+};
@@ -0,0 +1,71 @@
+import { applyFeatureSteps } from './featureService';
+import { predictWithIntervals } from './predictionService';
+import { studentTQuantile } from './distributions';
+import { addPeriods, parseIsoDate } from './timeSeriesService';
+import type { ScoringModel } from './predictionService';
+import type { DataSet, ForecastPoint, TimeSeriesConfig } from '../types';
+
+export const MAX_FORECAST_HORIZON = 60;
+
+export interface ForecastModel extends ScoringModel {
+    dependentVar: string;
+}
+
+/**
+ * Recursive forecast for the `horizon` periods after the last dated row. Each future row copies
+ * the other columns of the last observation, and each prediction is written back as the
+ * dependent variable so that its lags see the earlier forecasts. Stops at the first period
+ * whose predictors cannot be computed.
+ *
+ * The prediction interval of period h also carries the errors of the forecasts fed back into its
+ * lags: with ψⱼ the response of period h to a shock in period j < h, its variance is
+ * s²·(1 + leverage + Σψⱼ²). The ψⱼ are measured by rerunning the recursion with a one-s shock, which
+ * is exact for linear lags and a linearization otherwise.
+ */
+export const forecastSeries = (history: DataSet, forecastModel: ForecastModel, config: TimeSeriesConfig, horizon: number): ForecastPoint[] => {
+    const { model, inference, independentVars, dependentVar, featureSteps } = forecastModel;
+    const dated = history.data.filter(row => parseIsoDate(row[config.dateColumn]) !== null);
+    if (dated.length === 0) return [];
+
+    // Only lags look back, so the last `maxLag` rows are enough context for every step.
+    const maxLag = featureSteps.reduce((acc, step) => (step.kind === 'lag' ? Math.max(acc, step.lag) : acc), 1);
+    const context = dated.slice(-maxLag);
+    const last = dated[dated.length - 1];
+    const lastDate = last[config.dateColumn] as string;
+
+    // Runs the recursion, adding `shock` to the value fed back from period `shockAt` (1-based).
+    const recurse = (shockAt = 0, shock = 0): { date: string; x: number[] }[] => {
+        const future: DataSet['data'] = [];
+        const steps: { date: string; x: number[] }[] = [];
+        for (let h = 1; h <= horizon; h++) {
+            const row = { ...last, [config.dateColumn]: addPeriods(lastDate, config.frequency, h), [dependentVar]: '' };
+            future.push(row);
+            const engineered = applyFeatureSteps({ ...history, data: [...context, ...future] }, featureSteps);
+            const features = engineered.data[engineered.data.length - 1];
+            const x = independentVars.map(v => features[v] as number);
+            if (x.some(v => typeof v !== 'number' || !isFinite(v))) break;
+            row[dependentVar] = model.predict(x) + (h === shockAt ? shock : 0);
+            steps.push({ date: row[config.dateColumn] as string, x });
+        }
+        return steps;
+    };
+
+    const base = recurse();
+    const values = base.map(step => model.predict(step.x));
+    const s = inference?.residualStdError ?? 0;
+    // responses[j][h]: change in period h's forecast per unit of error in period j's.
+    const responses = s > 0 && inference?.xtxInverse
+        ? base.slice(0, -1).map((_, j) => recurse(j + 1, s).map((step, h) => (h > j ? (model.predict(step.x) - values[h]) / s : 0)))
+        : [];
+    const tCritical = inference ? studentTQuantile(1 - (1 - inference.confidenceLevel) / 2, inference.dfResidual) : 0;
+
+    return base.map((step, h) => {
+        const prediction = predictWithIntervals(model, inference, step.x);
+        if (!prediction.intervals || h === 0) return { date: step.date, ...prediction };
+        const propagated = responses.reduce((acc, response) => acc + (response[h] ?? 0) ** 2, 0);
+        const oneStep = (prediction.intervals.prediction[1] - prediction.value) / (tCritical * s);
+        const halfWidth = tCritical * s * Math.sqrt(oneStep ** 2 + propagated);
+        const bounds: [number, number] = [prediction.value - halfWidth, prediction.value + halfWidth];
+        return { date: step.date, ...prediction, intervals: { ...prediction.intervals, prediction: bounds } };
+    });
+};
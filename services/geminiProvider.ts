@@ -0,0 +1,64 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import {
+    AiProviderError, insightsPrompt, interpretationPrompt, parseInterpretation, parseSuggestion, suggestionPrompt
+} from './aiCommon';
+import type { AiProvider } from './aiCommon';
+import type { AiProviderConfig } from '../types';
+
+const SUGGESTION_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        dependentVar: { type: Type.STRING, description: 'Columna numérica a predecir.' },
+        independentVars: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columnas numéricas predictoras.' },
+    },
+    required: ['dependentVar', 'independentVars'],
+};
+
+const INTERPRETATION_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING },
+        coefficients: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { term: { type: Type.STRING }, meaning: { type: Type.STRING } },
+                required: ['term', 'meaning'],
+            },
+        },
+        caveats: { type: Type.ARRAY, items: { type: Type.STRING } },
+        nextSteps: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['summary', 'coefficients', 'caveats', 'nextSteps'],
+};
+
+const describeError = (error: unknown) =>
+    new AiProviderError(`Gemini no respondió: ${error instanceof Error ? error.message : String(error)}`);
+
+export const createGeminiProvider = ({ apiKey, model }: AiProviderConfig): AiProvider => {
+    if (!apiKey.trim()) throw new AiProviderError('Falta la clave de API de Gemini.');
+    const ai = new GoogleGenAI({ apiKey: apiKey.trim() });
+
+    const generate = async (contents: string, config?: object) => {
+        let text: string | undefined;
+        try {
+            text = (await ai.models.generateContent({ model, contents, config })).text;
+        } catch (error) {
+            throw describeError(error);
+        }
+        if (!text?.trim()) throw new AiProviderError('Gemini devolvió una respuesta vacía.');
+        return text;
+    };
+
+    return {
+        generateInsights: context => generate(insightsPrompt(context)),
+        suggestVariables: async context => parseSuggestion(
+            await generate(suggestionPrompt(context), { responseMimeType: 'application/json', responseSchema: SUGGESTION_SCHEMA }),
+            context
+        ),
+        interpretModel: async context => parseInterpretation(
+            await generate(interpretationPrompt(context), { responseMimeType: 'application/json', responseSchema: INTERPRETATION_SCHEMA }),
+            context
+        ),
+    };
+};
@@ -0,0 +1,108 @@
+import { predictScenario } from './scenarioService';
+import type { ScoringModel } from './predictionService';
+import type { DataRow } from '../types';
+
+/** An input the solver may move, within [min, max], paying `cost` per unit of change. */
+export interface GoalVariable {
+    column: string;
+    min: number;
+    max: number;
+    cost: number;
+}
+
+export interface GoalSeekChange {
+    column: string;
+    /** Null when the input was blank; the solver then starts from the middle of its bounds. */
+    from: number | null;
+    to: number;
+}
+
+export interface GoalSeekResult {
+    /** Inputs after the changes; the fixed ones are copied unchanged. */
+    inputs: DataRow;
+    /** Prediction at `inputs`: the target if reachable, otherwise the closest value within the bounds. */
+    achieved: number;
+    reachable: boolean;
+    changes: GoalSeekChange[];
+    totalCost: number;
+}
+
+export class GoalSeekError extends Error {}
+
+// Several passes are only needed when transformations make the prediction non-linear in the inputs.
+const MAX_PASSES = 20;
+
+const predictValue = (inputs: DataRow, scoring: ScoringModel) => {
+    const value = predictScenario(inputs, scoring)?.value;
+    if (value === undefined) throw new GoalSeekError('Los valores actuales no producen una predicción válida.');
+    return value;
+};
+
+/** Rate of change of the prediction with respect to one input, by central difference within its bounds. */
+const slopeAt = (inputs: DataRow, variable: GoalVariable, scoring: ScoringModel) => {
+    const x = inputs[variable.column] as number;
+    const h = Math.max((variable.max - variable.min) * 1e-4, 1e-9);
+    const low = Math.max(variable.min, x - h);
+    const high = Math.min(variable.max, x + h);
+    if (high <= low) return 0;
+    const fLow = predictScenario({ ...inputs, [variable.column]: low }, scoring)?.value;
+    const fHigh = predictScenario({ ...inputs, [variable.column]: high }, scoring)?.value;
+    return fLow === undefined || fHigh === undefined ? 0 : (fHigh - fLow) / (high - low);
+};
+
+/**
+ * Least-cost inputs that move the prediction to `target`. For a model linear in the inputs this
+ * is the exact optimum of the linear programme min Σ cost·|Δx| subject to Σ slope·Δx = gap: inputs
+ * are moved in order of cost per unit of prediction gained until the gap closes or every bound is
+ * hit. With transformations the slopes are re-linearised and the result is a local approximation.
+ */
+export const seekGoal = (target: number, baseInputs: DataRow, variables: GoalVariable[], scoring: ScoringModel): GoalSeekResult => {
+    if (variables.length === 0) throw new GoalSeekError('Elige al menos una variable que pueda cambiar.');
+    const invalid = variables.find(v => !(v.min <= v.max) || !(v.cost >= 0));
+    if (invalid) throw new GoalSeekError(`Los límites o el coste de ${invalid.column} no son válidos.`);
+
+    const inputs: DataRow = { ...baseInputs };
+    variables.forEach(v => {
+        const x = inputs[v.column];
+        inputs[v.column] = typeof x === 'number' && isFinite(x) ? Math.min(v.max, Math.max(v.min, x)) : (v.min + v.max) / 2;
+    });
+    const tolerance = 1e-6 * Math.max(1, Math.abs(target));
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        const gap = target - predictValue(inputs, scoring);
+        if (Math.abs(gap) <= tolerance) break;
+        const ranked = variables
+            .map(v => {
+                const slope = slopeAt(inputs, v, scoring);
+                const direction = Math.sign(gap * slope);
+                const x = inputs[v.column] as number;
+                return { v, slope: Math.abs(slope), direction, headroom: direction > 0 ? v.max - x : x - v.min };
+            })
+            .filter(c => c.slope > 0 && c.headroom > 0)
+            .sort((a, b) => a.v.cost / a.slope - b.v.cost / b.slope);
+        if (ranked.length === 0) break;
+
+        let remaining = Math.abs(gap);
+        for (const { v, slope, direction, headroom } of ranked) {
+            if (remaining <= 0) break;
+            const step = Math.min(headroom, remaining / slope);
+            inputs[v.column] = (inputs[v.column] as number) + direction * step;
+            remaining -= step * slope;
+        }
+    }
+
+    const achieved = predictValue(inputs, scoring);
+    const changes = variables
+        .map(v => {
+            const from = baseInputs[v.column];
+            return { column: v.column, from: typeof from === 'number' && isFinite(from) ? from : null, to: inputs[v.column] as number, cost: v.cost };
+        })
+        .filter(c => c.from !== c.to);
+    return {
+        inputs,
+        achieved,
+        reachable: Math.abs(target - achieved) <= tolerance * 10,
+        changes: changes.map(({ column, from, to }) => ({ column, from, to })),
+        totalCost: changes.reduce((acc, c) => acc + (c.from === null ? 0 : c.cost * Math.abs(c.to - c.from)), 0),
+    };
+};
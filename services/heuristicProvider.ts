@@ -0,0 +1,172 @@
+import { AiProviderError } from './aiCommon';
+import type { AiProvider, DatasetContext, ModelContext } from './aiCommon';
+import type { ModelInterpretation, VariableSuggestion } from '../types';
+
+/** Column names that usually hold the quantity to forecast. */
+const TARGET_PATTERN = /venta|sales|ingreso|revenue|factura|importe|demanda|unidades|pedido/i;
+/** Predictors weaker than this against the target are not suggested. */
+const MIN_CORRELATION = 0.1;
+/** A candidate this correlated with an already chosen predictor adds little and is skipped. */
+const REDUNDANT_CORRELATION = 0.9;
+const MAX_SUGGESTED = 8;
+
+const absCorrelation = (context: DatasetContext, a: string, b: string) => {
+    const r = context.correlation[a]?.[b];
+    return typeof r === 'number' && isFinite(r) ? Math.abs(r) : 0;
+};
+
+const strength = (r: number) => (Math.abs(r) >= 0.7 ? 'fuerte' : Math.abs(r) >= 0.4 ? 'moderada' : 'débil');
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/** Numeric columns that vary; constant ones cannot explain or be explained by anything. */
+const varyingColumns = (context: DatasetContext) =>
+    context.numericHeaders.filter(h => context.stats[h] && context.stats[h].std > 0);
+
+/** Transformations of the target itself would leak it into the predictors. */
+const isTransformOf = (column: string, target: string) =>
+    [`log(${target})`, `sqrt(${target})`, `z(${target})`].includes(column) || column.startsWith(`${target}^`);
+
+const chooseTarget = (context: DatasetContext, columns: string[]) =>
+    columns.find(h => TARGET_PATTERN.test(h))
+    ?? columns.reduce((best, h) => {
+        const total = (c: string) => columns.reduce((acc, other) => acc + (other === c ? 0 : absCorrelation(context, c, other)), 0);
+        return total(h) > total(best) ? h : best;
+    });
+
+const suggestVariables = (context: DatasetContext): VariableSuggestion => {
+    const columns = varyingColumns(context);
+    if (columns.length < 2) {
+        throw new AiProviderError('Se necesitan al menos dos columnas numéricas con variación para sugerir un modelo.');
+    }
+    const dependentVar = chooseTarget(context, columns);
+    const ranked = columns
+        .filter(h => h !== dependentVar && !isTransformOf(h, dependentVar))
+        .sort((a, b) => absCorrelation(context, b, dependentVar) - absCorrelation(context, a, dependentVar));
+    const independentVars: string[] = [];
+    ranked.forEach(h => {
+        if (independentVars.length >= MAX_SUGGESTED || absCorrelation(context, h, dependentVar) < MIN_CORRELATION) return;
+        if (independentVars.some(chosen => absCorrelation(context, chosen, h) > REDUNDANT_CORRELATION)) return;
+        independentVars.push(h);
+    });
+    if (independentVars.length === 0 && ranked.length > 0) independentVars.push(ranked[0]);
+    return { dependentVar, independentVars };
+};
+
+const generateInsights = (context: DatasetContext): string => {
+    const columns = varyingColumns(context);
+    const lines: string[] = [
+        '### Resumen',
+        `- El dataset tiene **${context.rowCount}** filas y **${context.headers.length}** columnas, ${context.numericHeaders.length} de ellas numéricas.`,
+    ];
+
+    if (columns.length >= 2) {
+        const target = chooseTarget(context, columns);
+        const predictors = columns.filter(h => h !== target && !isTransformOf(h, target));
+        const related = predictors
+            .map(h => ({ column: h, r: context.correlation[target]?.[h] ?? NaN }))
+            .filter(({ r }) => isFinite(r))
+            .sort((a, b) => Math.abs(b.r) - Math.abs(a.r))
+            .slice(0, 3);
+        lines.push('', '### Variable objetivo probable', `- **${target}** parece la variable a predecir.`);
+        related.forEach(({ column, r }) => {
+            lines.push(`- Relación ${strength(r)} ${r >= 0 ? 'positiva' : 'negativa'} con **${column}** (r = ${r.toFixed(2)}).`);
+        });
+
+        const pairs: string[] = [];
+        predictors.forEach((a, i) => predictors.slice(i + 1).forEach(b => {
+            const r = context.correlation[a]?.[b];
+            if (typeof r === 'number' && Math.abs(r) >= 0.8) pairs.push(`- **${a}** y **${b}** (r = ${r.toFixed(2)}): usar ambas puede causar multicolinealidad.`);
+        }));
+        if (pairs.length > 0) lines.push('', '### Predictores muy relacionados entre sí', ...pairs);
+    }
+
+    const distribution: string[] = [];
+    context.numericHeaders.forEach(h => {
+        const s = context.stats[h];
+        if (!s) return;
+        if (s.std === 0) {
+            distribution.push(`- **${h}** es constante (${formatValue(s.mean)}) y no aporta información al modelo.`);
+            return;
+        }
+        const skew = (s.mean - s.median) / s.std;
+        if (skew > 0.3) {
+            distribution.push(`- **${h}** es asimétrica a la derecha (media ${formatValue(s.mean)} > mediana ${formatValue(s.median)}); un logaritmo puede ayudar.`);
+        } else if (skew < -0.3) {
+            distribution.push(`- **${h}** es asimétrica a la izquierda (media ${formatValue(s.mean)} < mediana ${formatValue(s.median)}).`);
+        }
+        if (s.mean !== 0 && s.std / Math.abs(s.mean) > 1) {
+            distribution.push(`- **${h}** tiene una dispersión alta (coeficiente de variación ${(s.std / Math.abs(s.mean)).toFixed(2)}); revisa posibles outliers.`);
+        }
+        if (s.count < context.rowCount) {
+            distribution.push(`- **${h}** tiene ${context.rowCount - s.count} valores faltantes o no numéricos.`);
+        }
+    });
+    if (distribution.length > 0) lines.push('', '### Distribuciones y calidad', ...distribution);
+
+    lines.push(
+        '',
+        '### Próximos pasos',
+        '- Revisa los outliers y los valores faltantes antes de entrenar.',
+        '- Empieza con los predictores más correlacionados con la variable objetivo y comprueba los VIF.',
+        '',
+        '_Análisis generado localmente con reglas estadísticas; no se ha enviado ningún dato fuera del navegador._'
+    );
+    return lines.join('\n');
+};
+
+// Figures are written with a point and few decimals so the cross-check can match them to the results.
+const formatFigure = (value: number) => value.toFixed(Math.abs(value) >= 1 ? 2 : 4);
+const formatPercent = (ratio: number) => (ratio * 100).toFixed(1);
+const formatP = (pValue: number) => (pValue < 0.0001 ? 'p < 0.0001' : `p = ${pValue.toFixed(4)}`);
+
+const interpretModel = (context: ModelContext): ModelInterpretation => {
+    const { dependentVar, coefficientStats, trainMetrics, testMetrics, diagnostics } = context;
+    const alpha = 1 - (context.confidenceLevel ?? 0.95);
+    const statOf = (term: string) => coefficientStats?.find(s => s.name === term) ?? null;
+    const insignificant = context.termNames.filter(term => {
+        const stat = statOf(term);
+        return stat !== null && !(stat.pValue < alpha);
+    });
+
+    const coefficients = context.termNames.map((term, i) => {
+        const b = context.coefficients[i];
+        const stat = statOf(term);
+        let meaning = `Si ${term} aumenta en una unidad y el resto de variables no cambia, ${dependentVar} ${b >= 0 ? 'aumenta' : 'disminuye'} de media en ${formatFigure(Math.abs(b))} unidades.`;
+        if (stat) {
+            meaning += stat.pValue < alpha
+                ? ` El efecto es estadísticamente significativo (${formatP(stat.pValue)}).`
+                : ` El efecto no es estadísticamente significativo (${formatP(stat.pValue)}): podría ser nulo.`;
+        }
+        return { term, meaning };
+    });
+
+    const caveats: string[] = Object.values(diagnostics).filter(d => d.verdict !== 'pass').map(d => `${d.name}: ${d.message}`);
+    if (insignificant.length > 0) caveats.push(`Los coeficientes de ${insignificant.join(', ')} no son significativos; sus efectos son inciertos.`);
+    if (trainMetrics.rSquared - testMetrics.rSquared > 0.1) {
+        caveats.push(`El R² baja de ${formatFigure(trainMetrics.rSquared)} en entrenamiento a ${formatFigure(testMetrics.rSquared)} en validación: posible sobreajuste.`);
+    }
+    if (!coefficientStats) caveats.push('El modelo está penalizado: los coeficientes están contraídos hacia cero y no tienen p-valores.');
+
+    const nextSteps: string[] = [];
+    if (insignificant.length > 0) nextSteps.push(`Prueba a quitar ${insignificant.join(', ')} y compara las métricas de validación.`);
+    if (diagnostics.heteroscedasticity.verdict !== 'pass') nextSteps.push(`Prueba a transformar ${dependentVar} con un logaritmo para estabilizar la varianza.`);
+    if (diagnostics.autocorrelation.verdict !== 'pass') nextSteps.push('Añade rezagos o tendencia, o trata los datos como serie temporal.');
+    if (testMetrics.rSquared < 0.5) nextSteps.push('Busca variables adicionales que expliquen mejor la variación de las ventas.');
+    nextSteps.push('Usa la sección de predicción con escenarios realistas y revisa los intervalos antes de tomar decisiones.');
+
+    return {
+        summary: `El modelo ${context.modelLabel} explica el ${formatPercent(trainMetrics.rSquared)}% de la variación de ${dependentVar} en entrenamiento `
+            + `y el ${formatPercent(testMetrics.rSquared)}% en validación. El error típico de predicción (RMSE de validación) es de ${formatFigure(testMetrics.rmse)} unidades de ${dependentVar}.`,
+        coefficients,
+        caveats,
+        nextSteps,
+    };
+};
+
+/** Rule-based provider: deterministic, instant and fully offline. */
+export const heuristicProvider: AiProvider = {
+    generateInsights: async context => generateInsights(context),
+    suggestVariables: async context => suggestVariables(context),
+    interpretModel: async context => interpretModel(context),
+};
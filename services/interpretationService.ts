@@ -0,0 +1,134 @@
+import { MODEL_LABELS } from './modelService';
+import { derivedColumnSources } from './featureService';
+import type { ModelContext } from './aiCommon';
+import type { LoadedModel } from './modelArtifactService';
+import type { ModelInterpretation } from '../types';
+
+export const buildModelContext = ({ model, results, dependentVar, independentVars, featureSteps }: LoadedModel): ModelContext => ({
+    modelLabel: MODEL_LABELS[results.modelType],
+    dependentVar,
+    termNames: results.termNames,
+    intercept: results.intercept,
+    coefficients: results.coefficients,
+    coefficientStats: results.inference?.coefficientStats ?? null,
+    confidenceLevel: results.inference?.confidenceLevel ?? null,
+    rSquaredAdjusted: results.rSquaredAdjusted,
+    trainSize: results.trainSize,
+    testSize: results.testSize,
+    trainMetrics: results.trainMetrics,
+    testMetrics: results.testMetrics,
+    diagnostics: results.diagnostics,
+    // Polynomial models expand each variable into `degree` consecutive terms.
+    termColumns: independentVars.flatMap(column => Array<string>(model.type === 'polynomial' ? model.hyperparameters.degree ?? 2 : 1).fill(column)),
+    derivedFrom: derivedColumnSources(featureSteps),
+});
+
+/** Every number the interpretation may legitimately quote, with its sign, and the p-values apart for bounds. */
+const knownFigures = (context: ModelContext): { values: number[]; pValues: number[] } => {
+    const pValues = [
+        ...(context.coefficientStats ?? []).map(s => s.pValue),
+        ...Object.values(context.diagnostics).flatMap(d => (d.pValue === null ? [] : [d.pValue])),
+    ].filter(v => isFinite(v));
+    const ratios = [
+        context.trainMetrics.rSquared, context.testMetrics.rSquared, context.rSquaredAdjusted,
+        ...(context.confidenceLevel !== null ? [context.confidenceLevel] : []),
+        ...pValues,
+    ];
+    const values = [
+        context.intercept,
+        ...context.coefficients,
+        ...(context.coefficientStats ?? []).flatMap(s => [s.estimate, s.stdError, s.tStat, s.ciLower, s.ciUpper]),
+        ...Object.values(context.trainMetrics),
+        ...Object.values(context.testMetrics),
+        context.trainSize,
+        context.testSize,
+        ...Object.values(context.diagnostics).map(d => d.statistic),
+        // Ratios are often quoted as percentages.
+        ...ratios,
+        ...ratios.map(r => r * 100),
+    ].filter(v => isFinite(v));
+    return { values, pValues };
+};
+
+/** Reads a number written in either English or Spanish notation; ambiguous ones yield both readings. */
+const readings = (token: string): { value: number; decimals: number }[] => {
+    const digits = token.replace(/[\s%−-]/g, '');
+    const reading = (thousands: string, decimal: string) => {
+        const [whole, fraction = ''] = digits.split(decimal);
+        return { value: Number(`${whole.split(thousands).join('')}.${fraction || '0'}`), decimals: fraction.length };
+    };
+    const hasPoint = digits.includes('.');
+    const hasComma = digits.includes(',');
+    if (hasPoint && hasComma) {
+        return [digits.lastIndexOf(',') > digits.lastIndexOf('.') ? reading('.', ',') : reading(',', '.')];
+    }
+    const separator = hasComma ? ',' : hasPoint ? '.' : null;
+    if (!separator) return [{ value: Number(digits), decimals: 0 }];
+    const groups = digits.split(separator);
+    const other = separator === ',' ? '.' : ',';
+    if (groups.length > 2) return [reading(separator, other)];
+    // "1,234" or "1.234" may be a thousands separator or a decimal one.
+    return groups[1].length === 3
+        ? [reading(other, separator), reading(separator, other)]
+        : [reading(other, separator)];
+};
+
+/** A figure matches when rounding it to the decimals the text prints gives exactly the quoted value. */
+const matchesFigure = ({ value, decimals }: { value: number; decimals: number }, figures: number[]) =>
+    figures.some(f => Math.abs(Number(f.toFixed(Math.min(decimals, 20))) - value) < 1e-9);
+
+// "reduce en 1.49" quotes a negative coefficient without its sign.
+const DECREASE_PATTERN = /(?:^|[^\p{L}])(?:reduc\p{L}*|disminu\p{L}*|descen\p{L}*|caen?|caída|restan?)(?!\p{L})[^.;:\d]{0,30}$/iu;
+// Only p-values are quoted as bounds ("p < 0.001"), and only against the usual significance levels.
+const MAX_P_VALUE_BOUND = 0.05;
+const BOUND_PATTERN = /(?:<|≤|menor que|menor de|inferior a)\s*$/i;
+
+const FIGURE_PATTERN = /[-−]?\d+(?:[.,]\d+)*(?:\s?%)?/g;
+
+export interface FigureSegment {
+    text: string;
+    /** Present for numbers that were checked; plain text otherwise. */
+    verified?: boolean;
+}
+
+/**
+ * Splits a text into plain runs and the figures it quotes, marking which figures match the
+ * fitted results. Numbers inside variable names and small integers ("1 unidad") are not checked.
+ */
+export const checkFigures = (text: string, context: ModelContext): FigureSegment[] => {
+    const { values: figures, pValues } = knownFigures(context);
+    // Blank out variable names so digits inside them ("ventas_lag12", "x^2") are ignored.
+    const names = [context.dependentVar, ...context.termNames].sort((a, b) => b.length - a.length);
+    const masked = names.reduce((acc, name) => acc.split(name).join('_'.repeat(name.length)), text);
+
+    const segments: FigureSegment[] = [];
+    let last = 0;
+    for (const match of masked.matchAll(FIGURE_PATTERN)) {
+        const start = match.index as number;
+        const token = match[0];
+        if (start > 0 && /[\w.,]/.test(masked[start - 1])) continue;
+        const unsigned = readings(token);
+        if (unsigned.every(c => c.decimals === 0 && c.value <= 10)) continue;
+        const before = masked.slice(0, start);
+        const sign = /^[-−]/.test(token) || DECREASE_PATTERN.test(before) ? -1 : 1;
+        const candidates = unsigned.map(c => ({ ...c, value: sign * c.value }));
+        const bound = BOUND_PATTERN.test(before);
+        const verified = bound
+            ? candidates.some(c => c.value > 0 && c.value <= MAX_P_VALUE_BOUND && pValues.some(p => p < c.value))
+            : candidates.some(c => matchesFigure(c, figures));
+        if (start > last) segments.push({ text: text.slice(last, start) });
+        segments.push({ text: text.slice(start, start + token.length), verified });
+        last = start + token.length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last) });
+    return segments;
+};
+
+/** Figures in the whole interpretation that do not match the results, for a summary warning. */
+export const unverifiedFigures = (interpretation: ModelInterpretation, context: ModelContext): string[] =>
+    [
+        interpretation.summary,
+        ...interpretation.coefficients.map(c => c.meaning),
+        ...interpretation.caveats,
+        ...interpretation.nextSteps,
+    ].flatMap(text => checkFigures(text, context).filter(s => s.verified === false).map(s => s.text));
@@ -0,0 +1,72 @@
+export type Matrix = number[][];
+
+export const transpose = (a: Matrix): Matrix =>
+    a.length === 0 ? [] : a[0].map((_, j) => a.map(row => row[j]));
+
+export const multiply = (a: Matrix, b: Matrix): Matrix =>
+    a.map(row => b[0].map((_, j) => row.reduce((acc, value, k) => acc + value * b[k][j], 0)));
+
+export const multiplyVector = (a: Matrix, v: number[]): number[] =>
+    a.map(row => row.reduce((acc, value, k) => acc + value * v[k], 0));
+
+export const identity = (n: number): Matrix =>
+    Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+/** Gauss–Jordan inverse with partial pivoting. Returns null for (numerically) singular matrices. */
+export const invert = (a: Matrix): Matrix | null => {
+    const n = a.length;
+    const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+    const scale = Math.max(...a.flat().map(Math.abs), 1);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12 * scale) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        const p = m[col][col];
+        for (let j = 0; j < 2 * n; j++) m[col][j] /= p;
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const factor = m[r][col];
+            if (factor === 0) continue;
+            for (let j = 0; j < 2 * n; j++) m[r][j] -= factor * m[col][j];
+        }
+    }
+    return m.map(row => row.slice(n));
+};
+
+/** Eigenvalues of a symmetric matrix using cyclic Jacobi rotations. */
+export const symmetricEigenvalues = (a: Matrix): number[] => {
+    const n = a.length;
+    const m = a.map(row => [...row]);
+    for (let sweep = 0; sweep < 100; sweep++) {
+        let offDiagonal = 0;
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) offDiagonal += m[i][j] * m[i][j];
+        }
+        if (offDiagonal < 1e-20) break;
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (Math.abs(m[p][q]) < 1e-300) continue;
+                const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+                for (let k = 0; k < n; k++) {
+                    const mkp = m[k][p];
+                    const mkq = m[k][q];
+                    m[k][p] = c * mkp - s * mkq;
+                    m[k][q] = s * mkp + c * mkq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const mpk = m[p][k];
+                    const mqk = m[q][k];
+                    m[p][k] = c * mpk - s * mqk;
+                    m[q][k] = s * mpk + c * mqk;
+                }
+            }
+        }
+    }
+    return m.map((row, i) => row[i]);
+};
@@ -0,0 +1,89 @@
+import { createTrainedModel } from './regressionService';
+import type { FeatureStep, ModelArtifact, ModelResults, TrainedModel, TrainingMetadata } from '../types';
+
+export const MODEL_ARTIFACT_FORMAT = 'regresion-multiple/model';
+export const MODEL_ARTIFACT_VERSION = 1;
+
+export class ModelArtifactError extends Error {}
+
+export interface LoadedModel {
+    model: TrainedModel;
+    results: ModelResults;
+    independentVars: string[];
+    dependentVar: string;
+    featureSteps: FeatureStep[];
+    metadata: TrainingMetadata;
+}
+
+// JSON has no NaN or ±Infinity (e.g. undefined p-values or VIFs); they are stored as tagged strings.
+const NON_FINITE_PREFIX = '__number:';
+
+const encodeNonFinite = (_key: string, value: unknown) =>
+    typeof value === 'number' && !isFinite(value) ? NON_FINITE_PREFIX + String(value) : value;
+
+const decodeNonFinite = (_key: string, value: unknown) =>
+    typeof value === 'string' && value.startsWith(NON_FINITE_PREFIX) ? Number(value.slice(NON_FINITE_PREFIX.length)) : value;
+
+/** Exported files are indented for reading; `pretty: false` writes compact JSON for storage. */
+export const serializeModel = (loaded: LoadedModel, pretty = true): string => {
+    const { predict, ...params } = loaded.model;
+    const artifact: ModelArtifact = {
+        format: MODEL_ARTIFACT_FORMAT,
+        version: MODEL_ARTIFACT_VERSION,
+        dependentVar: loaded.dependentVar,
+        independentVars: loaded.independentVars,
+        model: params,
+        featureSteps: loaded.featureSteps,
+        results: loaded.results,
+        metadata: loaded.metadata,
+    };
+    return JSON.stringify(artifact, encodeNonFinite, pretty ? 2 : undefined);
+};
+
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(v => typeof v === 'number');
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/** Parses and validates an exported model, throwing a `ModelArtifactError` describing the first problem. */
+export const parseModelArtifact = (text: string): LoadedModel => {
+    let artifact: Partial<ModelArtifact>;
+    try {
+        artifact = JSON.parse(text, decodeNonFinite);
+    } catch {
+        throw new ModelArtifactError('El archivo no es un JSON válido.');
+    }
+    if (!artifact || artifact.format !== MODEL_ARTIFACT_FORMAT) {
+        throw new ModelArtifactError('El archivo no es un modelo exportado por esta aplicación.');
+    }
+    if (typeof artifact.version !== 'number' || artifact.version > MODEL_ARTIFACT_VERSION) {
+        throw new ModelArtifactError(`Versión de modelo no soportada (${artifact.version}); esta aplicación lee hasta la versión ${MODEL_ARTIFACT_VERSION}.`);
+    }
+
+    const { model, results, metadata } = artifact;
+    if (typeof artifact.dependentVar !== 'string' || !isStringArray(artifact.independentVars) || artifact.independentVars.length === 0) {
+        throw new ModelArtifactError('Faltan las variables dependiente o independientes del modelo.');
+    }
+    if (!model || typeof model.intercept !== 'number' || !isNumberArray(model.coefficients) || !isStringArray(model.termNames)) {
+        throw new ModelArtifactError('Los coeficientes del modelo están incompletos.');
+    }
+    if (model.coefficients.length !== model.termNames.length) {
+        throw new ModelArtifactError('El número de coeficientes no coincide con el de términos del modelo.');
+    }
+    if (!results || !results.trainMetrics || !results.testMetrics || !results.diagnostics || !results.validation) {
+        throw new ModelArtifactError('Faltan los resultados de entrenamiento del modelo.');
+    }
+    if (!Array.isArray(artifact.featureSteps) || !metadata) {
+        throw new ModelArtifactError('Faltan los pasos de preprocesamiento o los metadatos del modelo.');
+    }
+
+    return {
+        model: createTrainedModel({ ...model, hyperparameters: model.hyperparameters ?? {} }),
+        results,
+        independentVars: artifact.independentVars,
+        dependentVar: artifact.dependentVar,
+        featureSteps: artifact.featureSteps,
+        metadata,
+    };
+};
+
+export const modelFileName = (loaded: LoadedModel) =>
+    `modelo_${loaded.dependentVar.replace(/[^\w-]+/g, '_')}_${loaded.metadata.trainedAt.slice(0, 10)}.json`;
@@ -0,0 +1,209 @@
+import { mean, median } from 'simple-statistics';
+import {
+    createTrainedModel, fitLinearRegression, fitWeightedLeastSquares, expandPolynomial, polynomialTermNames, crossValidate, kFoldIndices,
+    computeMetrics, predictRows
+} from './regressionService';
+import type { ModelConfig, ModelType, RobustFitSummary, TrainedModel } from '../types';
+
+export const MODEL_LABELS: Record<ModelType, string> = {
+    ols: 'MCO (lineal)',
+    ridge: 'Ridge',
+    lasso: 'Lasso',
+    elasticNet: 'Elastic Net',
+    polynomial: 'Polinómica',
+    huber: 'Robusta (Huber)',
+    bisquare: 'Robusta (bicuadrada de Tukey)',
+};
+
+/** Configurations trained side by side by "Comparar Modelos". */
+export const LEADERBOARD_CONFIGS: ModelConfig[] = [
+    { type: 'ols', degree: 2, alpha: 0.5 },
+    { type: 'ridge', degree: 2, alpha: 0 },
+    { type: 'lasso', degree: 2, alpha: 1 },
+    { type: 'elasticNet', degree: 2, alpha: 0.5 },
+    { type: 'polynomial', degree: 2, alpha: 0.5 },
+    { type: 'huber', degree: 2, alpha: 0.5 },
+];
+
+export const LAMBDA_CV_FOLDS = 5;
+const LAMBDA_GRID_SIZE = 25;
+
+export const isPenalized = (type: ModelType) => type === 'ridge' || type === 'lasso' || type === 'elasticNet';
+
+type RobustType = 'huber' | 'bisquare';
+
+export const isRobust = (type: ModelType): type is RobustType => type === 'huber' || type === 'bisquare';
+
+// Usual constants giving 95% efficiency over least squares when the errors are normal.
+const ROBUST_TUNING: Record<RobustType, number> = { huber: 1.345, bisquare: 4.685 };
+const MAX_IRLS_ITERATIONS = 100;
+
+const penaltyMixing = (config: ModelConfig) => {
+    if (config.type === 'ridge') return 0;
+    if (config.type === 'lasso') return 1;
+    return config.alpha;
+};
+
+const standardizeColumns = (x: number[][]) => {
+    const n = x.length;
+    const p = x[0]?.length ?? 0;
+    const means = Array.from({ length: p }, (_, j) => mean(x.map(row => row[j])));
+    // Population SD so that (1/n)·Σz² = 1, which keeps the coordinate update closed-form.
+    const sds = means.map((m, j) => Math.sqrt(x.reduce((acc, row) => acc + Math.pow(row[j] - m, 2), 0) / n));
+    const z = x.map(row => row.map((v, j) => (sds[j] === 0 ? 0 : (v - means[j]) / sds[j])));
+    return { z, means, sds };
+};
+
+/**
+ * Elastic Net by cyclic coordinate descent on standardized predictors, minimizing
+ * (1/2n)·‖y − Xβ‖² + λ·(α‖β‖₁ + (1 − α)/2·‖β‖²). α = 0 is Ridge, α = 1 is Lasso.
+ * Coefficients are returned on the original scale of the predictors. `type` is the model the user
+ * chose, recorded as is: an Elastic Net whose α sits at an end of the range is still an Elastic Net.
+ */
+export const fitElasticNet = (
+    x: number[][], y: number[], lambda: number, alpha: number, termNames: string[], type: ModelType
+): TrainedModel => {
+    const n = y.length;
+    const { z, means, sds } = standardizeColumns(x);
+    const p = means.length;
+    const yMean = mean(y);
+    const residual = y.map(v => v - yMean);
+    const beta = new Array<number>(p).fill(0);
+    const l1 = lambda * alpha;
+    const l2 = lambda * (1 - alpha);
+
+    for (let iteration = 0; iteration < 1000; iteration++) {
+        let maxChange = 0;
+        for (let j = 0; j < p; j++) {
+            if (sds[j] === 0) continue;
+            let rho = 0;
+            for (let i = 0; i < n; i++) rho += z[i][j] * (residual[i] + z[i][j] * beta[j]);
+            rho /= n;
+            const updated = Math.sign(rho) * Math.max(Math.abs(rho) - l1, 0) / (1 + l2);
+            const delta = updated - beta[j];
+            if (delta !== 0) {
+                for (let i = 0; i < n; i++) residual[i] -= z[i][j] * delta;
+                beta[j] = updated;
+                maxChange = Math.max(maxChange, Math.abs(delta));
+            }
+        }
+        if (maxChange < 1e-8) break;
+    }
+
+    const coefficients = beta.map((b, j) => (sds[j] === 0 ? 0 : b / sds[j]));
+    const intercept = yMean - coefficients.reduce((acc, c, j) => acc + c * means[j], 0);
+    return createTrainedModel({ type, intercept, coefficients, termNames, hyperparameters: { lambda, alpha } });
+};
+
+/**
+ * Log-spaced grid starting at the smallest λ that zeroes every coefficient. Ridge never
+ * zeroes coefficients, so its λmax uses α = 10⁻³ and the grid spans more decades.
+ */
+export const lambdaGrid = (x: number[][], y: number[], alpha: number): number[] => {
+    const { z } = standardizeColumns(x);
+    const yMean = mean(y);
+    const n = y.length;
+    const correlations = z[0].map((_, j) => Math.abs(z.reduce((acc, row, i) => acc + row[j] * (y[i] - yMean), 0)) / n);
+    const lambdaMax = Math.max(...correlations, 1e-6) / Math.max(alpha, 1e-3);
+    const ratio = alpha < 0.01 ? 1e-7 : 1e-4;
+    return Array.from({ length: LAMBDA_GRID_SIZE }, (_, i) => lambdaMax * Math.pow(ratio, i / (LAMBDA_GRID_SIZE - 1)));
+};
+
+export const selectLambda = (
+    x: number[][], y: number[], alpha: number, seed: number, type: ModelType
+): { lambda: number; path: { lambda: number; cvRmse: number }[] } => {
+    const folds = Math.min(LAMBDA_CV_FOLDS, y.length);
+    const path = lambdaGrid(x, y, alpha).map(lambda => {
+        const { outOfFold } = crossValidate(x, y, kFoldIndices(y.length, folds, seed), (xf, yf) => fitElasticNet(xf, yf, lambda, alpha, [], type));
+        return { lambda, cvRmse: computeMetrics(y, outOfFold).rmse };
+    });
+    const best = path.reduce((acc, point) => (point.cvRmse < acc.cvRmse ? point : acc), path[0]);
+    return { lambda: best.lambda, path };
+};
+
+const robustWeight = (type: RobustType, u: number) => {
+    const a = Math.abs(u);
+    if (type === 'huber') return a <= 1 ? 1 : 1 / a;
+    return a < 1 ? Math.pow(1 - a * a, 2) : 0;
+};
+
+const leastSquares = (x: number[][], y: number[], weights: number[] | undefined, names: string[]) =>
+    weights ? fitWeightedLeastSquares(x, y, weights, names) : fitLinearRegression(x, y, names);
+
+/**
+ * M-estimation by iteratively reweighted least squares: each pass refits with weights
+ * ψ(u)/u of the residuals scaled by c·s, where s = MAD/0.6745 is re-estimated every pass.
+ * Prior weights (WLS) multiply the robust ones. The bisquare objective is not convex, so it
+ * starts from the Huber solution instead of least squares, which outliers may have dragged.
+ */
+export const fitRobustRegression = (
+    x: number[][], y: number[], type: RobustType, names: string[], priorWeights?: number[]
+): { model: TrainedModel; summary: RobustFitSummary } => {
+    const prior = priorWeights ?? y.map(() => 1);
+    const ols = leastSquares(x, y, priorWeights, names);
+    const start = type === 'bisquare' ? fitRobustRegression(x, y, 'huber', names, priorWeights).model : ols;
+    const tuning = ROBUST_TUNING[type];
+    let model = start;
+    let weights = y.map(() => 1);
+    let scale = 0;
+    let iterations = 0;
+    let converged = false;
+    while (iterations < MAX_IRLS_ITERATIONS && !converged) {
+        const residuals = predictRows(model, x).map((p, i) => (y[i] - p) * Math.sqrt(prior[i]));
+        scale = median(residuals.map(Math.abs)) / 0.6745;
+        // More than half the rows fit exactly: nothing to downweight.
+        if (scale === 0) {
+            converged = true;
+            break;
+        }
+        weights = residuals.map(r => robustWeight(type, r / (tuning * scale)));
+        const next = fitWeightedLeastSquares(x, y, weights.map((w, i) => w * prior[i]), names);
+        iterations++;
+        const previous = [model.intercept, ...model.coefficients];
+        const size = Math.max(1, ...previous.map(Math.abs));
+        converged = [next.intercept, ...next.coefficients].every((b, j) => Math.abs(b - previous[j]) <= 1e-8 * size);
+        model = next;
+    }
+    return {
+        model: createTrainedModel({ ...model, type, hyperparameters: { tuning } }),
+        summary: { olsIntercept: ols.intercept, olsCoefficients: ols.coefficients, weights, scale, iterations, converged },
+    };
+};
+
+export interface FittedModel {
+    model: TrainedModel;
+    /** Returns a model of the same kind and hyperparameters fit on other data (used for cross-validation). */
+    refit: (x: number[][], y: number[], weights?: number[]) => TrainedModel;
+    lambdaPath: { lambda: number; cvRmse: number }[];
+    /** IRLS details, for robust fits only. */
+    robust: RobustFitSummary | null;
+}
+
+/** `weights` are WLS prior weights, one per row; penalized models do not accept them. */
+export const fitModel = (config: ModelConfig, x: number[][], y: number[], names: string[], seed: number, weights?: number[]): FittedModel => {
+    if (config.type === 'polynomial') {
+        const degree = config.degree;
+        const termNames = polynomialTermNames(names, degree);
+        const refit = (xf: number[][], yf: number[], wf?: number[]) => {
+            const ols = leastSquares(xf.map(row => expandPolynomial(row, degree)), yf, wf, termNames);
+            return createTrainedModel({ ...ols, type: 'polynomial', hyperparameters: { degree } });
+        };
+        return { model: refit(x, y, weights), refit, lambdaPath: [], robust: null };
+    }
+    if (isRobust(config.type)) {
+        const type = config.type;
+        const { model, summary } = fitRobustRegression(x, y, type, names, weights);
+        const refit = (xf: number[][], yf: number[], wf?: number[]) => fitRobustRegression(xf, yf, type, names, wf).model;
+        return { model, refit, lambdaPath: [], robust: summary };
+    }
+    if (isPenalized(config.type)) {
+        const alpha = penaltyMixing(config);
+        const type = config.type;
+        const { lambda, path } = selectLambda(x, y, alpha, seed, type);
+        // λ is chosen once on the training data and then held fixed for outer validation folds.
+        const refit = (xf: number[][], yf: number[]) => fitElasticNet(xf, yf, lambda, alpha, names, type);
+        return { model: refit(x, y), refit, lambdaPath: path, robust: null };
+    }
+    const refit = (xf: number[][], yf: number[], wf?: number[]) => leastSquares(xf, yf, wf, names);
+    return { model: refit(x, y, weights), refit, lambdaPath: [], robust: null };
+};
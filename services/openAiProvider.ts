@@ -0,0 +1,52 @@
+import {
+    AiProviderError, insightsPrompt, interpretationPrompt, parseInterpretation, parseSuggestion, suggestionPrompt
+} from './aiCommon';
+import type { AiProvider } from './aiCommon';
+import type { AiProviderConfig } from '../types';
+
+/** Local models can be slow on the first request while they load. */
+const REQUEST_TIMEOUT_MS = 120_000;
+
+/**
+ * Any server implementing the OpenAI chat completions API: OpenAI itself or a local
+ * one such as Ollama or LM Studio, which usually need no key.
+ */
+export const createOpenAiProvider = ({ apiKey, model, baseUrl }: AiProviderConfig): AiProvider => {
+    const url = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+
+    const complete = async (prompt: string) => {
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}),
+                },
+                body: JSON.stringify({ model, temperature: 0.2, messages: [{ role: 'user', content: prompt }] }),
+                signal: controller.signal,
+            });
+        } catch (error) {
+            throw new AiProviderError(controller.signal.aborted
+                ? `El servidor ${baseUrl} no respondió a tiempo.`
+                : `No se pudo conectar con ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            clearTimeout(timeout);
+        }
+        if (!response.ok) {
+            throw new AiProviderError(`El servidor respondió con el estado ${response.status}${response.status === 401 ? ' (revisa la clave de API)' : ''}.`);
+        }
+        const body = await response.json().catch(() => null);
+        const text = body?.choices?.[0]?.message?.content;
+        if (typeof text !== 'string' || !text.trim()) throw new AiProviderError('El servidor devolvió una respuesta vacía.');
+        return text;
+    };
+
+    return {
+        generateInsights: context => complete(insightsPrompt(context)),
+        suggestVariables: async context => parseSuggestion(await complete(suggestionPrompt(context)), context),
+        interpretModel: async context => parseInterpretation(await complete(interpretationPrompt(context)), context),
+    };
+};
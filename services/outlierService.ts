@@ -0,0 +1,76 @@
+import { mean, standardDeviation, quantile } from 'simple-statistics';
+import { invert, transpose, multiply } from './linearAlgebra';
+import type { DataRow, ColumnOutlierSummary, InfluenceMeasure } from '../types';
+
+export const IQR_MULTIPLIER = 1.5;
+export const Z_SCORE_THRESHOLD = 3;
+
+/**
+ * IQR fences and |z| > 3 per numeric column. `rowIndices[i]` is the original
+ * dataset position of `data[i]`, so flagged rows can be excluded and restored later.
+ */
+export const detectUnivariateOutliers = (data: DataRow[], numericHeaders: string[], rowIndices: number[]): ColumnOutlierSummary[] =>
+    numericHeaders.map(column => {
+        const entries = data
+            .map((row, i) => ({ rowIndex: rowIndices[i], value: row[column] }))
+            .filter((e): e is { rowIndex: number; value: number } => typeof e.value === 'number' && !isNaN(e.value));
+        const values = entries.map(e => e.value);
+        if (values.length < 4) {
+            return { column, lowerFence: NaN, upperFence: NaN, iqrCount: 0, zCount: 0, flagged: [] };
+        }
+        const q1 = quantile(values, 0.25);
+        const q3 = quantile(values, 0.75);
+        const iqr = q3 - q1;
+        const lowerFence = q1 - IQR_MULTIPLIER * iqr;
+        const upperFence = q3 + IQR_MULTIPLIER * iqr;
+        const m = mean(values);
+        const sd = standardDeviation(values);
+
+        const flagged = entries
+            .map(({ rowIndex, value }) => {
+                const zScore = sd === 0 ? 0 : (value - m) / sd;
+                const byIqr = value < lowerFence || value > upperFence;
+                const byZ = Math.abs(zScore) > Z_SCORE_THRESHOLD;
+                return { rowIndex, value, zScore, byIqr, byZ };
+            })
+            .filter(f => f.byIqr || f.byZ);
+
+        return {
+            column,
+            lowerFence,
+            upperFence,
+            iqrCount: flagged.filter(f => f.byIqr).length,
+            zCount: flagged.filter(f => f.byZ).length,
+            flagged,
+        };
+    });
+
+/**
+ * Leverage (hat values), externally studentized residuals and Cook's distance
+ * for an OLS fit with intercept.
+ */
+export const computeInfluence = (x: number[][], residuals: number[], rowIndices: number[]): InfluenceMeasure[] => {
+    const n = residuals.length;
+    const design = x.map(row => [1, ...row]);
+    const p = design[0].length;
+    const xtxInverse = invert(multiply(transpose(design), design));
+    if (!xtxInverse || n <= p + 1) return [];
+
+    const ssResidual = residuals.reduce((acc, e) => acc + e * e, 0);
+    const s2 = ssResidual / (n - p);
+    const leverageThreshold = (2 * p) / n;
+    const cooksThreshold = 4 / n;
+
+    return design.map((row, i) => {
+        const leverage = row.reduce((acc, xi, a) => acc + xi * row.reduce((inner, xj, b) => inner + xtxInverse[a][b] * xj, 0), 0);
+        const e = residuals[i];
+        const internal = e / Math.sqrt(s2 * (1 - leverage));
+        const studentized = internal * Math.sqrt((n - p - 1) / Math.max(n - p - internal * internal, 1e-12));
+        const cooksDistance = (internal * internal * leverage) / (p * (1 - leverage));
+        const flags: InfluenceMeasure['flags'] = [];
+        if (leverage > leverageThreshold) flags.push('leverage');
+        if (Math.abs(studentized) > Z_SCORE_THRESHOLD) flags.push('residual');
+        if (cooksDistance > cooksThreshold) flags.push('cooks');
+        return { rowIndex: rowIndices[i], leverage, studentizedResidual: studentized, cooksDistance, flags };
+    });
+};
@@ -0,0 +1,126 @@
+import { designRow } from './regressionService';
+import { studentTQuantile } from './distributions';
+import { applyFeatureStepsToRow, imputedColumns, dateInputColumns } from './featureService';
+import { parseLocaleNumber, parseDate, inferColumnSchema } from './schemaService';
+import type { DataRow, DecimalSeparator, FeatureStep, IntervalPrediction, RegressionInference, ScoredRow, TrainedModel } from '../types';
+
+/**
+ * Point forecast plus, for least-squares fits, the confidence interval of the mean response
+ * (s·√h) and the prediction interval of a single new observation (s·√(1 + h)), where
+ * h = x₀'(X'X)⁻¹x₀ is the leverage of the new point.
+ */
+export const predictWithIntervals = (model: TrainedModel, inference: RegressionInference | null, x: number[]): IntervalPrediction => {
+    const value = model.predict(x);
+    if (!inference?.xtxInverse) return { value, intervals: null };
+
+    const design = [1, ...designRow(model, x)];
+    const leverage = design.reduce((acc, di, i) => acc + di * design.reduce((inner, dj, j) => inner + inference.xtxInverse![i][j] * dj, 0), 0);
+    const s = inference.residualStdError;
+    const tCritical = studentTQuantile(1 - (1 - inference.confidenceLevel) / 2, inference.dfResidual);
+    const confidenceHalfWidth = tCritical * s * Math.sqrt(leverage);
+    const predictionHalfWidth = tCritical * s * Math.sqrt(1 + leverage);
+    return {
+        value,
+        intervals: {
+            confidenceLevel: inference.confidenceLevel,
+            confidence: [value - confidenceHalfWidth, value + confidenceHalfWidth],
+            prediction: [value - predictionHalfWidth, value + predictionHalfWidth],
+        },
+    };
+};
+
+/** Levels each dummy-encoded input column accepts, keyed by column. */
+export const categoricalInputLevels = (steps: FeatureStep[], inputColumns: string[]): Record<string, string[]> =>
+    steps.reduce<Record<string, string[]>>((acc, step) => (
+        step.kind === 'dummy' && inputColumns.includes(step.column) ? { ...acc, [step.column]: step.levels } : acc
+    ), {});
+
+export const missingInputColumns = (rows: DataRow[], inputColumns: string[]): string[] => {
+    const present = new Set(rows.flatMap(row => Object.keys(row)));
+    return inputColumns.filter(column => !present.has(column));
+};
+
+/** Parses the model inputs of one raw uploaded row, collecting a message per invalid cell. */
+const parseInputs = (
+    row: DataRow,
+    inputColumns: string[],
+    levels: Record<string, string[]>,
+    imputed: string[],
+    dates: string[],
+    decimals: Record<string, DecimalSeparator>
+): { inputs: DataRow; errors: string[] } => {
+    const inputs: DataRow = {};
+    const errors: string[] = [];
+    inputColumns.forEach(column => {
+        const raw = row[column];
+        const text = raw === undefined || raw === null ? '' : String(raw).trim();
+        if (text === '' && imputed.includes(column)) {
+            inputs[column] = '';
+        } else if (text === '') {
+            errors.push(`Falta el valor de «${column}»`);
+        } else if (levels[column]) {
+            if (levels[column].includes(text)) inputs[column] = text;
+            else errors.push(`«${column}»: categoría desconocida "${text}"`);
+        } else if (dates.includes(column)) {
+            const date = parseDate(raw);
+            if (date) inputs[column] = date;
+            else errors.push(`«${column}» debe ser una fecha (recibido "${text}")`);
+        } else {
+            const value = parseLocaleNumber(raw, decimals[column]);
+            if (isFinite(value)) inputs[column] = value;
+            else errors.push(`«${column}» debe ser numérico (recibido "${text}")`);
+        }
+    });
+    return { inputs, errors };
+};
+
+export interface ScoringModel {
+    model: TrainedModel;
+    inference: RegressionInference | null;
+    independentVars: string[];
+    featureSteps: FeatureStep[];
+}
+
+/** Validates and scores every raw uploaded row; invalid rows keep their errors and get no result. */
+export const scoreRows = (rows: DataRow[], inputColumns: string[], scoring: ScoringModel): ScoredRow[] => {
+    const levels = categoricalInputLevels(scoring.featureSteps, inputColumns);
+    const imputed = imputedColumns(scoring.featureSteps);
+    const dates = dateInputColumns(scoring.featureSteps);
+    // The decimal separator is inferred per column, as on the main upload.
+    const decimals = Object.fromEntries(inputColumns.map(column => [column, inferColumnSchema(rows, column).decimal]));
+    return rows.map(row => {
+        const { inputs, errors } = parseInputs(row, inputColumns, levels, imputed, dates, decimals);
+        if (errors.length > 0) return { row, result: null, errors };
+
+        const engineered = applyFeatureStepsToRow(inputs, scoring.featureSteps);
+        const x = scoring.independentVars.map(v => engineered[v] as number);
+        if (x.some(v => typeof v !== 'number' || !isFinite(v))) {
+            return { row, result: null, errors: ['Las transformaciones producen valores no válidos (p. ej. log de un número ≤ 0)'] };
+        }
+        return { row, result: predictWithIntervals(scoring.model, scoring.inference, x), errors: [] };
+    });
+};
+
+/** Output column names appended to the scored file. */
+export const scoredColumnNames = (dependentVar: string) => ({
+    prediction: `pred_${dependentVar}`,
+    confidenceLower: 'ic_inferior',
+    confidenceUpper: 'ic_superior',
+    predictionLower: 'ip_inferior',
+    predictionUpper: 'ip_superior',
+    error: 'error_validacion',
+});
+
+export const scoredRowsToTable = (scored: ScoredRow[], headers: string[], dependentVar: string): { rows: DataRow[]; headers: string[] } => {
+    const names = scoredColumnNames(dependentVar);
+    const rows = scored.map(({ row, result, errors }) => ({
+        ...row,
+        [names.prediction]: result ? result.value : '',
+        [names.confidenceLower]: result?.intervals ? result.intervals.confidence[0] : '',
+        [names.confidenceUpper]: result?.intervals ? result.intervals.confidence[1] : '',
+        [names.predictionLower]: result?.intervals ? result.intervals.prediction[0] : '',
+        [names.predictionUpper]: result?.intervals ? result.intervals.prediction[1] : '',
+        [names.error]: errors.join('; '),
+    }));
+    return { rows, headers: [...headers, ...Object.values(names)] };
+};
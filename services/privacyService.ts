@@ -0,0 +1,140 @@
+import type { DatasetContext, ModelContext } from './aiCommon';
+import type { AiPayloadMode, AiPrivacyPolicy, ColumnPrivacy, DataRow } from '../types';
+
+export const MAX_SAMPLE_ROWS = 20;
+
+export const PAYLOAD_MODE_LABELS: Record<AiPayloadMode, string> = {
+    aggregates: 'Solo esquema y estadísticas agregadas',
+    samples: 'Esquema, estadísticas y filas de muestra',
+};
+
+export const COLUMN_PRIVACY_LABELS: Record<ColumnPrivacy, string> = {
+    send: 'Enviar',
+    mask: 'Enmascarar',
+    hash: 'Hash',
+};
+
+/** Nothing row-level leaves the browser unless the user asks for it. */
+export const DEFAULT_PRIVACY_POLICY: AiPrivacyPolicy = { mode: 'aggregates', maxSampleRows: 5, columnRules: {} };
+
+const MASK = '***';
+
+/**
+ * 32-bit FNV-1a. Equal values keep equal hashes so the model can still see repetition,
+ * but this is pseudonymisation, not encryption: short values can be guessed by brute force.
+ */
+const hashValue = (value: string | number) => {
+    let hash = 0x811c9dc5;
+    for (const char of String(value)) {
+        hash ^= char.codePointAt(0) as number;
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `h_${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+/** The strictest rule among a column and the original columns it was derived from. */
+export const effectiveColumnRule = (
+    column: string,
+    rules: Record<string, ColumnPrivacy>,
+    derivedFrom: Record<string, string[]>
+): ColumnPrivacy => {
+    const applied = [column, ...(derivedFrom[column] ?? [])].map(c => rules[c] ?? 'send');
+    return applied.includes('mask') ? 'mask' : applied.includes('hash') ? 'hash' : 'send';
+};
+
+/**
+ * The name under which a column may be sent, or null if it must be left out. Derived names can
+ * embed raw values (a dummy is named after its category), so protected ones are hashed or dropped;
+ * original column names are part of the schema and always kept.
+ */
+export const protectColumnName = (
+    column: string,
+    rules: Record<string, ColumnPrivacy>,
+    derivedFrom: Record<string, string[]>
+): string | null => {
+    if (!derivedFrom[column]) return column;
+    const rule = effectiveColumnRule(column, rules, derivedFrom);
+    if (rule === 'mask') return null;
+    return rule === 'hash' ? hashValue(column) : column;
+};
+
+const protectRow = (row: DataRow, rules: Record<string, ColumnPrivacy>, derivedFrom: Record<string, string[]>): DataRow =>
+    Object.fromEntries(Object.entries(row).flatMap(([column, value]) => {
+        const name = protectColumnName(column, rules, derivedFrom);
+        if (name === null) return [];
+        const rule = effectiveColumnRule(column, rules, derivedFrom);
+        if (rule === 'mask') return [[name, MASK]];
+        if (rule === 'hash') return [[name, hashValue(value)]];
+        return [[name, value]];
+    }));
+
+/**
+ * The context a remote provider is allowed to see under the policy. Statistics and correlations
+ * of masked or hashed columns are left out too, since min, max and median are row values.
+ */
+export const applyPrivacyPolicy = (context: DatasetContext, policy: AiPrivacyPolicy): DatasetContext => {
+    const { columnRules: rules } = policy;
+    const { derivedFrom } = context;
+    const isProtected = (column: string) => effectiveColumnRule(column, rules, derivedFrom) !== 'send';
+    const names = (columns: string[]) =>
+        columns.map(column => protectColumnName(column, rules, derivedFrom)).filter((name): name is string => name !== null);
+    const unprotected = <T,>(record: Record<string, T>) => Object.fromEntries(Object.entries(record).filter(([column]) => !isProtected(column)));
+    const rows = policy.mode === 'samples'
+        ? context.sampleRows.slice(0, Math.max(0, Math.min(MAX_SAMPLE_ROWS, Math.floor(policy.maxSampleRows))))
+        : [];
+    return {
+        headers: names(context.headers),
+        numericHeaders: names(context.numericHeaders),
+        rowCount: context.rowCount,
+        stats: unprotected(context.stats),
+        correlation: Object.fromEntries(Object.entries(unprotected(context.correlation)).map(([column, values]) => [column, unprotected(values)])),
+        sampleRows: rows.map(row => protectRow(row, rules, derivedFrom)),
+        // The keys are derived names, which may hold raw values.
+        derivedFrom: {},
+    };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Raw values of masked or hashed columns that still appear in a payload: derived column names
+ * and text cells of the sample rows. Empty when the policy held; remote calls are refused otherwise.
+ */
+export const findPrivacyLeaks = (payload: string, context: DatasetContext, policy: AiPrivacyPolicy): string[] => {
+    const { derivedFrom } = context;
+    const protectedColumns = context.headers.filter(column => effectiveColumnRule(column, policy.columnRules, derivedFrom) !== 'send');
+    const derivedNames = protectedColumns
+        .filter(column => derivedFrom[column])
+        .filter(column => new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(column)}(?![\\p{L}\\p{N}_])`, 'u').test(payload));
+    const cells = context.sampleRows
+        .flatMap(row => protectedColumns.map(column => row[column]))
+        .filter((value): value is string => typeof value === 'string' && value.trim() !== '' && payload.includes(JSON.stringify(value)));
+    return [...new Set([...derivedNames, ...cells])];
+};
+
+/**
+ * The model context a remote provider is allowed to see. Terms of masked columns are left out
+ * with their figures; terms of hashed derived columns (a dummy named after a customer) are
+ * renamed. `names` maps every name that is sent back to the real term.
+ */
+export const applyModelPrivacyPolicy = (context: ModelContext, policy: AiPrivacyPolicy): { allowed: ModelContext; names: Record<string, string> } => {
+    const { derivedFrom } = context;
+    const sent = context.termNames.map((term, i) => {
+        const column = context.termColumns[i];
+        const rule = effectiveColumnRule(column, policy.columnRules, derivedFrom);
+        if (rule === 'mask') return null;
+        return rule === 'hash' && derivedFrom[column] ? hashValue(term) : term;
+    });
+    const kept = sent.flatMap((name, i) => (name === null ? [] : [i]));
+    return {
+        allowed: {
+            ...context,
+            termNames: kept.map(i => sent[i] as string),
+            coefficients: kept.map(i => context.coefficients[i]),
+            coefficientStats: context.coefficientStats && kept.map(i => ({ ...context.coefficientStats![i], name: sent[i] as string })),
+            termColumns: [],
+            derivedFrom: {},
+        },
+        names: Object.fromEntries(kept.map(i => [sent[i] as string, context.termNames[i]])),
+    };
+};
@@ -0,0 +1,303 @@
+import { mean, standardDeviation } from 'simple-statistics';
+import { MultivariateLinearRegression } from 'ml-regression';
+import { studentTQuantile, studentTTwoSidedPValue, fSurvival } from './distributions';
+import { invert, multiply, multiplyVector, transpose } from './linearAlgebra';
+import type { Matrix } from './linearAlgebra';
+import type {
+    DataRow, RegressionMetrics, FoldMetrics, TrainedModel, LinearModelParams, CoefficientStat, RegressionInference, CovarianceType
+} from '../types';
+
+/** Mulberry32: small deterministic PRNG so splits are reproducible for a given seed. */
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const shuffledIndices = (length: number, seed: number): number[] => {
+    const random = createSeededRandom(seed);
+    const indices = Array.from({ length }, (_, i) => i);
+    for (let i = indices.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices;
+};
+
+export const trainTestSplitIndices = (length: number, testRatio: number, seed: number): { train: number[]; test: number[] } => {
+    const indices = shuffledIndices(length, seed);
+    const testSize = Math.min(length - 1, Math.max(1, Math.round(length * testRatio)));
+    // Both sets keep the original row order so time-ordered diagnostics stay meaningful.
+    const byPosition = (a: number, b: number) => a - b;
+    return { test: indices.slice(0, testSize).sort(byPosition), train: indices.slice(testSize).sort(byPosition) };
+};
+
+/** Time-ordered holdout: the oldest rows train and the most recent `testRatio` share tests. */
+export const chronologicalSplitIndices = (length: number, testRatio: number): { train: number[]; test: number[] } => {
+    const testSize = Math.min(length - 1, Math.max(1, Math.round(length * testRatio)));
+    const indices = Array.from({ length }, (_, i) => i);
+    return { train: indices.slice(0, length - testSize), test: indices.slice(length - testSize) };
+};
+
+export const kFoldIndices = (length: number, folds: number, seed: number): { train: number[]; test: number[] }[] => {
+    const indices = shuffledIndices(length, seed);
+    const result: { train: number[]; test: number[] }[] = [];
+    for (let f = 0; f < folds; f++) {
+        const start = Math.floor((f * length) / folds);
+        const end = Math.floor(((f + 1) * length) / folds);
+        result.push({
+            test: indices.slice(start, end),
+            train: [...indices.slice(0, start), ...indices.slice(end)],
+        });
+    }
+    return result;
+};
+
+/**
+ * Expanding-window folds for time-ordered rows: the data is cut into `folds + 1` consecutive
+ * blocks and fold f trains on blocks 0..f and tests block f + 1, so no fold sees the future.
+ */
+export const expandingWindowIndices = (length: number, folds: number): { train: number[]; test: number[] }[] => {
+    const indices = Array.from({ length }, (_, i) => i);
+    const boundary = (b: number) => Math.floor((b * length) / (folds + 1));
+    return Array.from({ length: folds }, (_, f) => ({
+        train: indices.slice(0, boundary(f + 1)),
+        test: indices.slice(boundary(f + 1), boundary(f + 2)),
+    }));
+};
+
+const isCompleteRow = (row: DataRow, columns: string[]) =>
+    columns.every(c => typeof row[c] === 'number' && !isNaN(row[c] as number));
+
+/** Rows where every requested column holds a finite number. */
+export const selectCompleteRows = (data: DataRow[], columns: string[]): DataRow[] =>
+    data.filter(row => isCompleteRow(row, columns));
+
+export const selectCompleteRowIndices = (data: DataRow[], columns: string[]): number[] =>
+    data.map((row, i) => (isCompleteRow(row, columns) ? i : -1)).filter(i => i >= 0);
+
+/** Powers 1..degree of every input, grouped by variable: [x1, x1², x2, x2², ...]. */
+export const expandPolynomial = (row: number[], degree: number): number[] =>
+    row.flatMap(value => Array.from({ length: degree }, (_, d) => Math.pow(value, d + 1)));
+
+export const polynomialTermNames = (names: string[], degree: number): string[] =>
+    names.flatMap(name => Array.from({ length: degree }, (_, d) => (d === 0 ? name : `${name}^${d + 1}`)));
+
+/** Maps raw predictor values to the terms the coefficients apply to. */
+export const designRow = (params: Pick<LinearModelParams, 'type' | 'hyperparameters'>, row: number[]): number[] =>
+    params.type === 'polynomial' ? expandPolynomial(row, params.hyperparameters.degree ?? 2) : row;
+
+/** Rebuilds a predictive model from its plain parameters (e.g. after deserialization). */
+export const createTrainedModel = (params: LinearModelParams): TrainedModel => ({
+    ...params,
+    predict: (row: number[]) =>
+        designRow(params, row).reduce((acc, value, i) => acc + value * params.coefficients[i], params.intercept),
+});
+
+export const fitLinearRegression = (x: number[][], y: number[], termNames: string[] = []): TrainedModel => {
+    const regression = new MultivariateLinearRegression(x, y.map(v => [v]));
+    const weights: number[][] = regression.weights;
+    // ml-regression stores the intercept in the last row of `weights`.
+    return createTrainedModel({
+        type: 'ols',
+        intercept: weights[weights.length - 1][0],
+        coefficients: weights.slice(0, -1).map(w => w[0]),
+        termNames,
+        hyperparameters: {},
+    });
+};
+
+/**
+ * Weighted least squares, minimizing Σ wᵢ·(yᵢ − ŷᵢ)² through the normal equations (X'WX)β = X'Wy.
+ * A singular system yields NaN coefficients, like a collinear OLS fit.
+ */
+export const fitWeightedLeastSquares = (x: number[][], y: number[], weights: number[], termNames: string[] = []): TrainedModel => {
+    const design = x.map(row => [1, ...row]);
+    const weighted = design.map((row, i) => row.map(v => v * weights[i]));
+    const xtwxInverse = invert(multiply(transpose(weighted), design));
+    const beta = xtwxInverse
+        ? multiplyVector(xtwxInverse, multiplyVector(transpose(weighted), y))
+        : new Array<number>(design[0].length).fill(NaN);
+    return createTrainedModel({ type: 'ols', intercept: beta[0], coefficients: beta.slice(1), termNames, hyperparameters: {} });
+};
+
+export const predictRows = (model: TrainedModel, x: number[][]): number[] =>
+    x.map(row => model.predict(row));
+
+export const computeMetrics = (actual: number[], predicted: number[]): RegressionMetrics => {
+    const n = actual.length;
+    const yMean = mean(actual);
+    let ssTotal = 0;
+    let ssResidual = 0;
+    let absError = 0;
+    let absPercentError = 0;
+    let percentCount = 0;
+    actual.forEach((value, i) => {
+        const error = value - predicted[i];
+        ssTotal += Math.pow(value - yMean, 2);
+        ssResidual += Math.pow(error, 2);
+        absError += Math.abs(error);
+        if (value !== 0) {
+            absPercentError += Math.abs(error / value);
+            percentCount++;
+        }
+    });
+    return {
+        rSquared: ssTotal === 0 ? NaN : 1 - ssResidual / ssTotal,
+        rmse: Math.sqrt(ssResidual / n),
+        mae: absError / n,
+        // MAPE ignores rows where the actual value is zero.
+        mape: percentCount > 0 ? (absPercentError / percentCount) * 100 : NaN,
+    };
+};
+
+export const summarizeFolds = (folds: FoldMetrics[]): { mean: RegressionMetrics; std: RegressionMetrics } => {
+    const keys: (keyof RegressionMetrics)[] = ['rSquared', 'rmse', 'mae', 'mape'];
+    const meanMetrics = {} as RegressionMetrics;
+    const stdMetrics = {} as RegressionMetrics;
+    keys.forEach(key => {
+        const values = folds.map(f => f[key]).filter(v => !isNaN(v));
+        meanMetrics[key] = values.length > 0 ? mean(values) : NaN;
+        stdMetrics[key] = values.length > 1 ? standardDeviation(values) : 0;
+    });
+    return { mean: meanMetrics, std: stdMetrics };
+};
+
+/** `weights` is only passed when the rows carry weights. */
+export type ModelFitter = (x: number[][], y: number[], weights?: number[]) => TrainedModel;
+
+/** Fits each split and scores its test rows; rows no split tests stay NaN in `outOfFold`. */
+export const crossValidate = (
+    x: number[][], y: number[], splits: { train: number[]; test: number[] }[], fit: ModelFitter = (xf, yf) => fitLinearRegression(xf, yf), weights: number[] | null = null
+): { folds: FoldMetrics[]; outOfFold: number[] } => {
+    const outOfFold = new Array<number>(y.length).fill(NaN);
+    const foldMetrics = splits.map(({ train, test }, f) => {
+        const model = fit(train.map(i => x[i]), train.map(i => y[i]), weights ? train.map(i => weights[i]) : undefined);
+        const predicted = predictRows(model, test.map(i => x[i]));
+        test.forEach((rowIndex, i) => { outOfFold[rowIndex] = predicted[i]; });
+        return {
+            fold: f + 1,
+            trainSize: train.length,
+            testSize: test.length,
+            ...computeMetrics(test.map(i => y[i]), predicted),
+        };
+    });
+    return { folds: foldMetrics, outOfFold };
+};
+
+export const INTERCEPT_LABEL = '(Intercepto)';
+
+/** (X'X)⁻¹ for the design matrix with a leading intercept column, or null if singular. */
+export const designCrossProductInverse = (model: TrainedModel, x: number[][]): Matrix | null => {
+    const design = x.map(row => [1, ...designRow(model, row)]);
+    return invert(multiply(transpose(design), design));
+};
+
+export const COVARIANCE_LABELS: Record<CovarianceType, string> = {
+    classical: 'Clásicos (varianza constante)',
+    HC0: 'HC0 (White)',
+    HC1: 'HC1 (White con corrección n/(n−k−1))',
+    HC2: 'HC2 (corrección por apalancamiento)',
+    HC3: 'HC3 (recomendado en muestras pequeñas)',
+};
+
+export interface InferenceOptions {
+    /** Row weights of a weighted fit (WLS prior weights, times the final IRLS weights for robust fits). */
+    weights?: number[];
+    covariance?: CovarianceType;
+}
+
+/**
+ * White's sandwich (X'X)⁻¹·X'ΩX·(X'X)⁻¹ with Ω = diag(ωᵢ·eᵢ²): ω = 1 (HC0), n/(n−p) (HC1),
+ * 1/(1−hᵢ) (HC2) or 1/(1−hᵢ)² (HC3), where hᵢ is the leverage of row i.
+ */
+const sandwichCovariance = (design: Matrix, residuals: number[], bread: Matrix, type: Exclude<CovarianceType, 'classical'>): Matrix => {
+    const n = design.length;
+    const p = bread.length;
+    const meat = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+    design.forEach((row, i) => {
+        const leverage = row.reduce((acc, xa, a) => acc + xa * row.reduce((inner, xb, b) => inner + bread[a][b] * xb, 0), 0);
+        const e2 = residuals[i] * residuals[i];
+        const omega = type === 'HC0' ? e2
+            : type === 'HC1' ? e2 * n / (n - p)
+            : type === 'HC2' ? e2 / (1 - leverage)
+            : e2 / Math.pow(1 - leverage, 2);
+        for (let a = 0; a < p; a++) {
+            for (let b = 0; b < p; b++) meat[a][b] += omega * row[a] * row[b];
+        }
+    });
+    return multiply(multiply(bread, meat), bread);
+};
+
+/**
+ * Standard errors, t-tests and confidence intervals for the intercept and each
+ * coefficient, plus the overall F-test, computed on the data the model was fit on.
+ * Only meaningful for least-squares fits (OLS and polynomial) and their weighted and
+ * IRLS variants, which are handled as least squares on rows scaled by √wᵢ. With HC
+ * errors the F-test becomes a Wald test on the robust covariance. Weighted fits keep
+ * no (X'X)⁻¹: a prediction interval would need the weight of the new observation.
+ */
+export const computeInference = (
+    model: TrainedModel, x: number[][], y: number[], confidenceLevel: number, options: InferenceOptions = {}
+): RegressionInference => {
+    const { weights, covariance = 'classical' } = options;
+    const w = weights ?? y.map(() => 1);
+    const n = y.length;
+    const k = model.termNames.length;
+    const dfResidual = n - k - 1;
+    const predicted = predictRows(model, x);
+    const weightSum = w.reduce((acc, wi) => acc + wi, 0);
+    const yMean = y.reduce((acc, val, i) => acc + w[i] * val, 0) / weightSum;
+    const ssTotal = y.reduce((acc, val, i) => acc + w[i] * Math.pow(val - yMean, 2), 0);
+    const ssResidual = y.reduce((acc, val, i) => acc + w[i] * Math.pow(val - predicted[i], 2), 0);
+    const sigma2 = ssResidual / dfResidual;
+    const tCritical = studentTQuantile(1 - (1 - confidenceLevel) / 2, dfResidual);
+
+    const scaledDesign = x.map((row, i) => [1, ...designRow(model, row)].map(v => v * Math.sqrt(w[i])));
+    const xtxInverse = invert(multiply(transpose(scaledDesign), scaledDesign));
+    const scaledResiduals = y.map((val, i) => (val - predicted[i]) * Math.sqrt(w[i]));
+    const covarianceMatrix = !xtxInverse ? null
+        : covariance === 'classical' ? xtxInverse.map(row => row.map(v => v * sigma2))
+        : sandwichCovariance(scaledDesign, scaledResiduals, xtxInverse, covariance);
+
+    const estimates = [model.intercept, ...model.coefficients];
+    const errors = estimates.map((_, i) => (covarianceMatrix ? Math.sqrt(covarianceMatrix[i][i]) : NaN));
+    const coefficientStats: CoefficientStat[] = [INTERCEPT_LABEL, ...model.termNames].map((name, i) => {
+        const tStat = errors[i] === 0 ? NaN : estimates[i] / errors[i];
+        return {
+            name,
+            estimate: estimates[i],
+            stdError: errors[i],
+            tStat,
+            pValue: studentTTwoSidedPValue(tStat, dfResidual),
+            ciLower: estimates[i] - tCritical * errors[i],
+            ciUpper: estimates[i] + tCritical * errors[i],
+        };
+    });
+
+    let fStatistic = ((ssTotal - ssResidual) / k) / (ssResidual / dfResidual);
+    if (covariance !== 'classical') {
+        // Wald test that every slope is zero: β'V⁻¹β / k over the slope block of the covariance.
+        const slopes = model.coefficients;
+        const slopeCovarianceInverse = covarianceMatrix ? invert(covarianceMatrix.slice(1).map(row => row.slice(1))) : null;
+        fStatistic = slopeCovarianceInverse
+            ? slopes.reduce((acc, bi, i) => acc + bi * slopes.reduce((inner, bj, j) => inner + slopeCovarianceInverse[i][j] * bj, 0), 0) / k
+            : NaN;
+    }
+    return {
+        coefficientStats,
+        confidenceLevel,
+        dfModel: k,
+        dfResidual,
+        residualStdError: Math.sqrt(sigma2),
+        fStatistic,
+        fPValue: fSurvival(fStatistic, k, dfResidual),
+        xtxInverse: weights ? null : xtxInverse,
+        covariance,
+    };
+};
@@ -0,0 +1,267 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Markdown from 'react-markdown';
+import { describeFeatureStep } from './featureService';
+import { describeFilter } from './filterService';
+import { MODEL_LABELS } from './modelService';
+import { INTERCEPT_LABEL, COVARIANCE_LABELS } from './regressionService';
+import { FREQUENCY_LABELS } from './timeSeriesService';
+import type { LoadedModel } from './modelArtifactService';
+import type {
+    CorrelationMatrix, DataSet, DescriptiveStats, DiagnosticTest, FeatureStep, PredictionRecord,
+    RegressionMetrics, TimeSeriesConfig
+} from '../types';
+
+export type ReportBlock =
+    | { kind: 'paragraph'; text: string }
+    | { kind: 'list'; items: string[] }
+    | { kind: 'table'; headers: string[]; rows: string[][] }
+    /** Text that is already Markdown, such as the AI insights. */
+    | { kind: 'markdown'; text: string };
+
+export interface ReportSection {
+    title: string;
+    blocks: ReportBlock[];
+}
+
+export interface AnalysisReport {
+    title: string;
+    generatedAt: string;
+    sections: ReportSection[];
+}
+
+export interface ReportInput {
+    /** Active dataset: engineered columns included, excluded rows removed. */
+    dataSet: DataSet;
+    excludedRows: number;
+    featureSteps: FeatureStep[];
+    timeSeries: TimeSeriesConfig | null;
+    stats: DescriptiveStats;
+    correlation: CorrelationMatrix;
+    insights: string;
+    model: LoadedModel | null;
+    predictions: PredictionRecord[];
+}
+
+const formatNumber = (value: number, digits = 4) => (typeof value === 'number' && isFinite(value) ? value.toFixed(digits) : 'N/A');
+
+const formatPValue = (pValue: number | null) => {
+    if (pValue === null || isNaN(pValue)) return '—';
+    return pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4);
+};
+
+const formatInterval = (interval: [number, number]) => `[${formatNumber(interval[0], 2)}, ${formatNumber(interval[1], 2)}]`;
+
+const METRICS: { key: keyof RegressionMetrics; label: string }[] = [
+    { key: 'rSquared', label: 'R²' },
+    { key: 'rmse', label: 'RMSE' },
+    { key: 'mae', label: 'MAE' },
+    { key: 'mape', label: 'MAPE (%)' },
+];
+
+const datasetSection = ({ dataSet, excludedRows, featureSteps, timeSeries }: ReportInput): ReportSection => {
+    const items = [
+        `Archivo: ${dataSet.fileName ?? 'datos pegados'}`,
+        `Registros analizados: ${dataSet.data.length}${excludedRows > 0 ? ` (${excludedRows} excluidos)` : ''}`,
+        `Columnas: ${dataSet.headers.length} (${dataSet.numericHeaders.length} numéricas)`,
+    ];
+    if (timeSeries) items.push(`Serie temporal: ${timeSeries.dateColumn}, frecuencia ${FREQUENCY_LABELS[timeSeries.frequency].toLowerCase()}`);
+    const blocks: ReportBlock[] = [{ kind: 'list', items }];
+    if (featureSteps.length > 0) {
+        blocks.push({ kind: 'paragraph', text: 'Transformaciones aplicadas:' }, { kind: 'list', items: featureSteps.map(describeFeatureStep) });
+    }
+    return { title: 'Resumen del Dataset', blocks };
+};
+
+const statsSection = ({ stats }: ReportInput): ReportSection => ({
+    title: 'Estadísticas Descriptivas',
+    blocks: [{
+        kind: 'table',
+        headers: ['Variable', 'n', 'Media', 'Mediana', 'Desv. estándar', 'Mínimo', 'Máximo'],
+        rows: Object.entries(stats).map(([name, s]) => [
+            name, String(s.count), formatNumber(s.mean, 2), formatNumber(s.median, 2), formatNumber(s.std, 2), formatNumber(s.min, 2), formatNumber(s.max, 2),
+        ]),
+    }],
+});
+
+const correlationSection = ({ correlation }: ReportInput): ReportSection => {
+    const columns = Object.keys(correlation);
+    return {
+        title: 'Matriz de Correlación',
+        blocks: [{
+            kind: 'table',
+            headers: ['', ...columns],
+            rows: columns.map(row => [row, ...columns.map(column => formatNumber(correlation[row][column], 2))]),
+        }],
+    };
+};
+
+const diagnosticRow = (test: DiagnosticTest) => [test.name, formatNumber(test.statistic), formatPValue(test.pValue), test.verdict === 'pass' ? 'OK' : 'Revisar', test.message];
+
+const modelSections = (loaded: LoadedModel): ReportSection[] => {
+    const { results, dependentVar, independentVars, metadata } = loaded;
+    const { validation, inference } = results;
+    const evaluation = validation.mode === 'holdout'
+        ? `prueba ${Math.round(validation.testRatio * 100)}%`
+        : `${validation.folds} particiones`;
+    const order = validation.chronological ? 'orden cronológico' : `semilla ${validation.seed}`;
+
+    const coefficients: ReportBlock = inference
+        ? {
+            kind: 'table',
+            headers: ['Término', 'Coeficiente', 'Error est.', 't', 'p-valor', `IC ${Math.round(inference.confidenceLevel * 100)}%`],
+            rows: inference.coefficientStats.map(stat => [
+                stat.name, formatNumber(stat.estimate), formatNumber(stat.stdError), formatNumber(stat.tStat), formatPValue(stat.pValue),
+                formatInterval([stat.ciLower, stat.ciUpper]),
+            ]),
+        }
+        : {
+            kind: 'table',
+            headers: ['Término', 'Coeficiente'],
+            rows: [[INTERCEPT_LABEL, formatNumber(results.intercept)], ...results.termNames.map((name, i) => [name, formatNumber(results.coefficients[i])])],
+        };
+
+    return [
+        {
+            title: 'Modelo',
+            blocks: [
+                {
+                    kind: 'list',
+                    items: [
+                        `Tipo: ${MODEL_LABELS[results.modelType]}`,
+                        `Variable dependiente: ${dependentVar}`,
+                        `Variables independientes: ${independentVars.join(', ')}`,
+                        `Validación: ${evaluation}, ${order}`,
+                        `Entrenado el ${new Date(metadata.trainedAt).toLocaleString()} con ${results.trainSize} filas`,
+                        ...(metadata.filters?.length ? [`Filtros: ${metadata.filters.map(describeFilter).join('; ')}`] : []),
+                        ...(results.weightColumn ? [`Pesos por fila: ${results.weightColumn}`] : []),
+                        ...(inference ? [`Errores estándar: ${COVARIANCE_LABELS[inference.covariance ?? 'classical']}`] : []),
+                    ],
+                },
+                coefficients,
+                {
+                    kind: 'table',
+                    headers: ['Métrica', `Entrenamiento (n=${results.trainSize})`, `${validation.mode === 'holdout' ? 'Prueba' : 'Validación cruzada'} (n=${results.testSize})`],
+                    rows: [
+                        ...METRICS.map(({ key, label }) => [label, formatNumber(results.trainMetrics[key]), formatNumber(results.testMetrics[key])]),
+                        ['R² ajustado', formatNumber(results.rSquaredAdjusted), '—'],
+                    ],
+                },
+            ],
+        },
+        {
+            title: 'Diagnóstico de Supuestos',
+            blocks: [{
+                kind: 'table',
+                headers: ['Prueba', 'Estadístico', 'p-valor', 'Resultado', 'Interpretación'],
+                rows: [results.diagnostics.normality, results.diagnostics.heteroscedasticity, results.diagnostics.autocorrelation].map(diagnosticRow),
+            }],
+        },
+    ];
+};
+
+const predictionsSection = ({ predictions }: ReportInput): ReportSection => ({
+    title: 'Predicciones de la Sesión',
+    blocks: [{
+        kind: 'table',
+        headers: ['Fecha', 'Variable', 'Entradas', 'Predicción', 'IC', 'IP'],
+        rows: predictions.map(p => [
+            new Date(p.madeAt).toLocaleString(),
+            p.dependentVar,
+            Object.entries(p.inputs).map(([k, v]) => `${k} = ${v === '' ? '(imputado)' : v}`).join('; '),
+            formatNumber(p.value, 2),
+            p.intervals ? formatInterval(p.intervals.confidence) : '—',
+            p.intervals ? formatInterval(p.intervals.prediction) : '—',
+        ]),
+    }],
+});
+
+// Embedded Markdown sits under a section title, so its headings are pushed down one level.
+const nestHeadings = (markdown: string) => markdown.trim().replace(/^(#{1,5}) /gm, '#$1 ');
+
+/** Collects the state of the whole workflow into a format-neutral document. */
+export const buildReport = (input: ReportInput): AnalysisReport => {
+    const sections = [datasetSection(input), statsSection(input), correlationSection(input)];
+    if (input.insights.trim()) {
+        sections.push({ title: 'Análisis con IA', blocks: [{ kind: 'markdown', text: nestHeadings(input.insights) }] });
+    }
+    if (input.model) sections.push(...modelSections(input.model));
+    if (input.predictions.length > 0) sections.push(predictionsSection(input));
+    return { title: 'Informe de Predicción de Ventas', generatedAt: new Date().toISOString(), sections };
+};
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const blockToMarkdown = (block: ReportBlock): string => {
+    switch (block.kind) {
+        case 'paragraph':
+            return block.text;
+        case 'list':
+            return block.items.map(item => `- ${item}`).join('\n');
+        case 'table':
+            return [
+                `| ${block.headers.map(escapeMarkdownCell).join(' | ')} |`,
+                `| ${block.headers.map(() => '---').join(' | ')} |`,
+                ...block.rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+            ].join('\n');
+        case 'markdown':
+            return block.text;
+    }
+};
+
+export const renderMarkdown = (report: AnalysisReport): string => [
+    `# ${report.title}`,
+    `_Generado el ${new Date(report.generatedAt).toLocaleString()}_`,
+    ...report.sections.map(section => [`## ${section.title}`, ...section.blocks.map(blockToMarkdown)].join('\n\n')),
+].join('\n\n') + '\n';
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const blockToHtml = (block: ReportBlock): string => {
+    switch (block.kind) {
+        case 'paragraph':
+            return `<p>${escapeHtml(block.text)}</p>`;
+        case 'list':
+            return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+        case 'table':
+            return `<table><thead><tr>${block.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+                + `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        case 'markdown':
+            return `<div class="markdown">${renderToStaticMarkup(createElement(Markdown, null, block.text))}</div>`;
+    }
+};
+
+// Light theme so the document prints well; tables never split a row across pages.
+const REPORT_CSS = `
+body { font-family: ui-sans-serif, system-ui, sans-serif; color: #0f172a; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { color: #0e7490; margin-bottom: 0; }
+h2 { border-bottom: 2px solid #0e7490; padding-bottom: 0.25rem; margin-top: 2rem; }
+.generated { color: #64748b; font-size: 0.875rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.8rem; margin: 0.75rem 0; }
+th, td { border: 1px solid #cbd5e1; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #e2e8f0; }
+tr { break-inside: avoid; }
+section { break-inside: auto; }
+h2 { break-after: avoid; }
+@media print { body { margin: 0; max-width: none; } @page { margin: 1.5cm; } }
+`;
+
+/** A standalone HTML page with inline styles, suitable for sharing or printing to PDF. */
+export const renderHtml = (report: AnalysisReport): string => `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="generated">Generado el ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>
+${report.sections.map(section => `<section><h2>${escapeHtml(section.title)}</h2>${section.blocks.map(blockToHtml).join('\n')}</section>`).join('\n')}
+</body>
+</html>
+`;
+
+export const reportFileName = (report: AnalysisReport, extension: string) =>
+    `informe_${report.generatedAt.slice(0, 10)}.${extension}`;
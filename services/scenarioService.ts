@@ -0,0 +1,67 @@
+import { computeDescriptiveStats } from './statisticsService';
+import { predictWithIntervals } from './predictionService';
+import type { ScoringModel } from './predictionService';
+import { applyFeatureStepsToRow } from './featureService';
+import type { DataRow, DataSet, DescriptiveStats, IntervalPrediction } from '../types';
+
+export interface Scenario {
+    id: string;
+    name: string;
+    inputs: DataRow;
+}
+
+export interface Extrapolation {
+    column: string;
+    value: number;
+    min: number;
+    max: number;
+}
+
+/** Prediction with one input at its observed minimum and maximum, the rest unchanged. */
+export interface SensitivityBar {
+    column: string;
+    min: number;
+    max: number;
+    atMin: number;
+    atMax: number;
+}
+
+export const createScenario = (name: string, inputs: DataRow): Scenario =>
+    ({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name, inputs: { ...inputs } });
+
+/** Summary of the raw numeric inputs over the rows a model was trained on (original positions). */
+export const trainingInputStats = (dataSet: DataSet, rowIndices: number[], inputColumns: string[]): DescriptiveStats =>
+    computeDescriptiveStats({
+        ...dataSet,
+        data: rowIndices.map(i => dataSet.data[i]).filter(row => row !== undefined),
+        numericHeaders: inputColumns.filter(c => dataSet.numericHeaders.includes(c)),
+    });
+
+/** Training means, rounded for display; columns without stats keep the given fallback. */
+export const defaultInputs = (inputColumns: string[], stats: DescriptiveStats, fallback: (column: string) => string | number): DataRow =>
+    Object.fromEntries(inputColumns.map(c => [c, stats[c] ? Number(stats[c].mean.toFixed(2)) : fallback(c)]));
+
+export const predictScenario = (inputs: DataRow, scoring: ScoringModel): IntervalPrediction | null => {
+    const row = applyFeatureStepsToRow(inputs, scoring.featureSteps);
+    const x = scoring.independentVars.map(v => row[v] as number);
+    if (x.some(v => typeof v !== 'number' || !isFinite(v))) return null;
+    return predictWithIntervals(scoring.model, scoring.inference, x);
+};
+
+/** Inputs outside the range seen in training, where the linear fit is an extrapolation. */
+export const findExtrapolations = (inputs: DataRow, stats: DescriptiveStats): Extrapolation[] =>
+    Object.entries(stats).flatMap(([column, s]) => {
+        const value = inputs[column];
+        return typeof value === 'number' && (value < s.min || value > s.max) ? [{ column, value, min: s.min, max: s.max }] : [];
+    });
+
+/** One bar per numeric input, largest swing first, for a tornado chart around `inputs`. */
+export const sensitivityBars = (inputs: DataRow, stats: DescriptiveStats, scoring: ScoringModel): SensitivityBar[] =>
+    Object.entries(stats)
+        .filter(([column, s]) => column in inputs && s.max > s.min)
+        .flatMap(([column, s]) => {
+            const atMin = predictScenario({ ...inputs, [column]: s.min }, scoring)?.value;
+            const atMax = predictScenario({ ...inputs, [column]: s.max }, scoring)?.value;
+            return atMin !== undefined && atMax !== undefined ? [{ column, min: s.min, max: s.max, atMin, atMax }] : [];
+        })
+        .sort((a, b) => Math.abs(b.atMax - b.atMin) - Math.abs(a.atMax - a.atMin));
@@ -0,0 +1,150 @@
+import { isMissingValue } from './dataQualityService';
+import type { ColumnSchema, ColumnType, DataRow, DataSet, DecimalSeparator } from '../types';
+
+/** Raw cell as read from a file; Excel date cells arrive as `Date` objects. */
+type RawValue = DataRow[string] | Date | undefined | null;
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+    numeric: 'Numérica',
+    categorical: 'Categórica',
+    date: 'Fecha',
+    id: 'Identificador',
+};
+
+/** Share of parseable values above which a column is treated as numeric or date. */
+const TYPE_THRESHOLD = 0.9;
+const ID_NAME_PATTERN = /^(id|cod|codigo|código|sku|ref|referencia|folio)\b|_id$|\bid_/i;
+
+// Optional sign, currency, percent and spaces around the digits ("-1.234,56 €", "$ 12.5", "15%").
+const CURRENCY_PATTERN = /[€$£¥]|\b(EUR|USD|MXN|COP|ARS|CLP|PEN)\b/gi;
+const NUMBER_PATTERNS: Record<DecimalSeparator, RegExp> = {
+    ',': /^-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?$/,
+    '.': /^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/,
+};
+
+/**
+ * Parses a number written with the given decimal separator, accepting thousands
+ * separators, currency symbols, percentages and accounting negatives "(12,5)".
+ * Returns NaN for anything else, so "12abc" is not silently read as 12.
+ */
+export const parseLocaleNumber = (raw: RawValue, decimal: DecimalSeparator): number => {
+    if (typeof raw === 'number') return raw;
+    if (raw === undefined || raw === null || raw instanceof Date) return NaN;
+    let text = String(raw).replace(CURRENCY_PATTERN, '').replace(/[\s ]/g, '');
+    let sign = 1;
+    if (/^\(.*\)$/.test(text)) {
+        sign = -1;
+        text = text.slice(1, -1);
+    }
+    const percent = text.endsWith('%');
+    if (percent) text = text.slice(0, -1);
+    if (text.startsWith('+')) text = text.slice(1);
+    if (!NUMBER_PATTERNS[decimal].test(text)) return NaN;
+    const thousands = decimal === ',' ? '.' : ',';
+    const value = Number(text.split(thousands).join('').replace(decimal, '.'));
+    return sign * (percent ? value / 100 : value);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Parses ISO (yyyy-mm-dd) or day-first (dd/mm/yyyy, dd-mm-yyyy, dd.mm.yyyy) dates into yyyy-mm-dd. */
+export const parseDate = (raw: RawValue): string | null => {
+    if (raw instanceof Date) {
+        return isNaN(raw.getTime()) ? null : `${raw.getFullYear()}-${pad(raw.getMonth() + 1)}-${pad(raw.getDate())}`;
+    }
+    if (typeof raw !== 'string') return null;
+    const text = raw.trim();
+    let year: number, month: number, day: number;
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})([T ].*)?$/);
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})( .*)?$/);
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (dayFirst) {
+        [day, month, year] = [Number(dayFirst[1]), Number(dayFirst[2]), Number(dayFirst[3])];
+        if (dayFirst[3].length === 2) year += year < 70 ? 2000 : 1900;
+    } else {
+        return null;
+    }
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/** Every header that appears in any row, in first-seen order (Excel omits keys of empty cells). */
+export const collectHeaders = (rows: DataRow[]): string[] => {
+    const headers = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+    return [...headers];
+};
+
+/** Infers the type of one column from all of its non-empty values. */
+export const inferColumnSchema = (rows: DataRow[], column: string): ColumnSchema => {
+    const values = rows.map(row => row[column] as RawValue).filter(v => !isMissingValue(v as DataRow[string]));
+    const base = { source: column, name: column, include: true };
+    if (values.length === 0) return { ...base, type: 'categorical', decimal: ',', confidence: 0 };
+
+    const share = (predicate: (v: RawValue) => boolean) => values.filter(predicate).length / values.length;
+    // Spanish exports use the comma as decimal separator, so it wins ties ("1.234" reads as 1234).
+    const commaShare = share(v => !isNaN(parseLocaleNumber(v, ',')));
+    const dotShare = share(v => !isNaN(parseLocaleNumber(v, '.')));
+    const decimal: DecimalSeparator = dotShare > commaShare ? '.' : ',';
+    const numericShare = Math.max(commaShare, dotShare);
+    const dateShare = share(v => parseDate(v) !== null);
+
+    if (dateShare >= TYPE_THRESHOLD && dateShare >= numericShare) return { ...base, type: 'date', decimal, confidence: dateShare };
+    if (numericShare >= TYPE_THRESHOLD) {
+        const numbers = values.map(v => parseLocaleNumber(v, decimal)).filter(v => !isNaN(v));
+        const uniqueIntegers = numbers.every(Number.isInteger) && new Set(numbers).size === numbers.length;
+        if (uniqueIntegers && ID_NAME_PATTERN.test(column.trim())) return { ...base, type: 'id', decimal, confidence: numericShare };
+        return { ...base, type: 'numeric', decimal, confidence: numericShare };
+    }
+    return { ...base, type: 'categorical', decimal, confidence: 1 - numericShare };
+};
+
+export const inferSchema = (rows: DataRow[]): ColumnSchema[] =>
+    collectHeaders(rows).map(column => inferColumnSchema(rows, column));
+
+/** Names must be non-empty and unique among included columns. Returns one message per problem. */
+export const validateSchema = (schema: ColumnSchema[]): string[] => {
+    const included = schema.filter(c => c.include);
+    const errors: string[] = [];
+    if (included.length === 0) errors.push('Incluye al menos una columna.');
+    if (included.some(c => c.name.trim() === '')) errors.push('Todas las columnas incluidas necesitan un nombre.');
+    const names = included.map(c => c.name.trim());
+    const duplicated = names.filter((name, i) => name !== '' && names.indexOf(name) !== i);
+    if (duplicated.length > 0) errors.push(`Nombres repetidos: ${[...new Set(duplicated)].join(', ')}`);
+    return errors;
+};
+
+const convertValue = (raw: RawValue, column: ColumnSchema): DataRow[string] => {
+    if (isMissingValue(raw as DataRow[string])) return '';
+    switch (column.type) {
+        case 'numeric': {
+            const value = parseLocaleNumber(raw, column.decimal);
+            return isNaN(value) ? String(raw) : value;
+        }
+        case 'date':
+            return parseDate(raw) ?? String(raw);
+        default:
+            return raw instanceof Date ? parseDate(raw) ?? '' : String(raw);
+    }
+};
+
+/**
+ * Builds the DataSet from raw rows following the schema. Values that do not parse as the
+ * column's type are kept as text so the data-quality report can flag them.
+ */
+export const applySchema = (rows: DataRow[], schema: ColumnSchema[], fileName?: string): DataSet => {
+    const included = schema.filter(c => c.include);
+    const data = rows.map(row => {
+        const converted: DataRow = {};
+        included.forEach(column => { converted[column.name.trim()] = convertValue(row[column.source] as RawValue, column); });
+        return converted;
+    });
+    return {
+        data,
+        headers: included.map(c => c.name.trim()),
+        numericHeaders: included.filter(c => c.type === 'numeric').map(c => c.name.trim()),
+        fileName,
+    };
+};
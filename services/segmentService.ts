@@ -0,0 +1,71 @@
+import { columnLevels } from './featureService';
+import { selectCompleteRowIndices } from './regressionService';
+import { trainModel, minimumTrainingRows, TrainingError } from './trainingService';
+import type { TrainingOutcome, TrainingRequest } from './trainingService';
+import type { DataSet, TaskProgress } from '../types';
+
+/** Columns with more levels than this are not offered for segmentation. */
+export const MAX_SEGMENTS = 30;
+
+// Below this many complete rows per coefficient the estimates are too unstable to compare.
+const RECOMMENDED_ROWS_PER_TERM = 10;
+
+export interface SegmentResult {
+    level: string;
+    rowCount: number;
+    /** Rows of the segment with valid values in every chosen variable. */
+    completeRows: number;
+    outcome: TrainingOutcome | null;
+    error: string | null;
+    /** Too few complete rows to fit the chosen variables; `error` says how many are missing. */
+    tooSmall: boolean;
+    /** Trained, but with few rows per coefficient. */
+    warning: string | null;
+}
+
+/** Text columns with between 2 and MAX_SEGMENTS distinct values. */
+export const segmentColumns = (dataSet: DataSet): string[] =>
+    dataSet.headers.filter(header => {
+        if (dataSet.numericHeaders.includes(header)) return false;
+        const levels = columnLevels(dataSet.data, header).length;
+        return levels >= 2 && levels <= MAX_SEGMENTS;
+    });
+
+/**
+ * Trains the requested model once per value of `column`, on the rows holding that value.
+ * Rows with a blank segment value belong to no segment.
+ */
+export const trainSegmentModels = (request: TrainingRequest, column: string, onProgress?: (progress: TaskProgress) => void): SegmentResult[] => {
+    const { dataSet, rowIndices, dependentVar, independentVars, weightColumn, modelConfig } = request;
+    const levels = columnLevels(dataSet.data, column);
+    if (levels.length > MAX_SEGMENTS) {
+        throw new TrainingError(`${column} tiene ${levels.length} valores distintos; el máximo para entrenar por segmento es ${MAX_SEGMENTS}.`);
+    }
+    const variables = [dependentVar, ...independentVars, ...(weightColumn ? [weightColumn] : [])];
+    const minimum = minimumTrainingRows(modelConfig, independentVars);
+    const terms = minimum - 1;
+
+    return levels.map((level, index) => {
+        onProgress?.({ phase: `Entrenando el segmento ${level}`, fraction: index / levels.length });
+        const positions = dataSet.data.map((_, i) => i).filter(i => String(dataSet.data[i][column]) === level);
+        const data = positions.map(i => dataSet.data[i]);
+        const completeRows = selectCompleteRowIndices(data, variables).length;
+        const base = { level, rowCount: positions.length, completeRows };
+        if (completeRows < minimum) {
+            return {
+                ...base, outcome: null, tooSmall: true, warning: null,
+                error: `Solo ${completeRows} filas completas; el modelo necesita al menos ${minimum}.`,
+            };
+        }
+        try {
+            const outcome = trainModel({ ...request, dataSet: { ...dataSet, data }, rowIndices: positions.map(i => rowIndices[i]) });
+            const warning = completeRows < terms * RECOMMENDED_ROWS_PER_TERM
+                ? `Pocas filas (${completeRows}) para ${terms} coeficientes: las estimaciones son inestables.`
+                : null;
+            return { ...base, outcome, error: null, tooSmall: false, warning };
+        } catch (error) {
+            if (!(error instanceof TrainingError)) throw error;
+            return { ...base, outcome: null, error: error.message, tooSmall: false, warning: null };
+        }
+    });
+};
@@ -0,0 +1,112 @@
+import { mean } from 'simple-statistics';
+import { fitLinearRegression, predictRows, selectCompleteRows } from './regressionService';
+import type { DataRow, SelectionCriterion, SelectionMethod, SelectionResult, SelectionStep, TaskProgress } from '../types';
+
+export const MAX_BEST_SUBSET_CANDIDATES = 12;
+
+export const SELECTION_METHOD_LABELS: Record<SelectionMethod, string> = {
+    forward: 'Hacia adelante (forward)',
+    backward: 'Hacia atrás (backward)',
+    bidirectional: 'Bidireccional (stepwise)',
+    bestSubset: 'Mejor subconjunto (exhaustivo)',
+};
+
+export const SELECTION_CRITERION_LABELS: Record<SelectionCriterion, string> = {
+    aic: 'AIC',
+    bic: 'BIC',
+    adjR2: 'R² ajustado',
+};
+
+/** Scores where lower is better; adjusted R² is negated so every criterion is minimized. */
+const createScorer = (rows: DataRow[], dependentVar: string, criterion: SelectionCriterion) => {
+    const y = rows.map(row => row[dependentVar] as number);
+    const n = y.length;
+    const yMean = mean(y);
+    const ssTotal = y.reduce((acc, v) => acc + Math.pow(v - yMean, 2), 0);
+    const cache = new Map<string, number>();
+
+    return (variables: string[]): number => {
+        const key = [...variables].sort().join('\u0000');
+        const cached = cache.get(key);
+        if (cached !== undefined) return cached;
+
+        let ssResidual = ssTotal;
+        if (variables.length > 0) {
+            const x = rows.map(row => variables.map(v => row[v] as number));
+            const predicted = predictRows(fitLinearRegression(x, y), x);
+            ssResidual = y.reduce((acc, v, i) => acc + Math.pow(v - predicted[i], 2), 0);
+        }
+        const k = variables.length;
+        let score: number;
+        if (n - k - 1 <= 0 || !isFinite(ssResidual)) {
+            score = Infinity;
+        } else if (criterion === 'adjR2') {
+            score = -(1 - ((ssResidual / ssTotal) * (n - 1)) / (n - k - 1));
+        } else {
+            const logLikelihoodTerm = n * Math.log(Math.max(ssResidual, 1e-300) / n);
+            score = logLikelihoodTerm + (criterion === 'aic' ? 2 : Math.log(n)) * (k + 1);
+        }
+        cache.set(key, score);
+        return score;
+    };
+};
+
+const displayScore = (score: number, criterion: SelectionCriterion) => (criterion === 'adjR2' ? -score : score);
+
+export const runVariableSelection = (
+    data: DataRow[],
+    dependentVar: string,
+    candidates: string[],
+    method: SelectionMethod,
+    criterion: SelectionCriterion,
+    onProgress?: (progress: TaskProgress) => void
+): SelectionResult => {
+    // All subsets are scored on the same rows so the criteria stay comparable.
+    const rows = selectCompleteRows(data, [dependentVar, ...candidates]);
+    const score = createScorer(rows, dependentVar, criterion);
+    const path: SelectionStep[] = [];
+    const record = (action: SelectionStep['action'], variable: string | null, variables: string[], value: number) => {
+        path.push({ step: path.length, action, variable, variables: [...variables], score: displayScore(value, criterion) });
+    };
+
+    if (method === 'bestSubset') {
+        const p = candidates.length;
+        const bestBySize = new Map<number, { variables: string[]; score: number }>();
+        const subsets = (1 << p) - 1;
+        for (let mask = 1; mask <= subsets; mask++) {
+            if (mask % 64 === 1) onProgress?.({ phase: `Evaluando subconjuntos (${mask} de ${subsets})`, fraction: (mask - 1) / subsets });
+            const subset = candidates.filter((_, j) => mask & (1 << j));
+            const value = score(subset);
+            const current = bestBySize.get(subset.length);
+            if (!current || value < current.score) bestBySize.set(subset.length, { variables: subset, score: value });
+        }
+        const bests = [...bestBySize.entries()].sort((a, b) => a[0] - b[0]).map(([, best]) => best);
+        bests.forEach(best => record('best', null, best.variables, best.score));
+        const overall = bests.reduce((acc, best) => (best.score < acc.score ? best : acc), bests[0]);
+        return { method, criterion, rowsUsed: rows.length, selected: overall?.variables ?? [], path };
+    }
+
+    let current = method === 'backward' ? [...candidates] : [];
+    let currentScore = score(current);
+    record('start', null, current, currentScore);
+
+    const maxSteps = candidates.length * 4;
+    for (let iteration = 0; iteration < maxSteps; iteration++) {
+        onProgress?.({ phase: `Paso ${iteration + 1} de la selección`, fraction: Math.min(1, iteration / Math.max(1, candidates.length)) });
+        const moves: { action: 'add' | 'remove'; variable: string; variables: string[] }[] = [];
+        if (method === 'forward' || method === 'bidirectional') {
+            candidates.filter(c => !current.includes(c)).forEach(c => moves.push({ action: 'add', variable: c, variables: [...current, c] }));
+        }
+        if (method === 'backward' || method === 'bidirectional') {
+            current.forEach(c => moves.push({ action: 'remove', variable: c, variables: current.filter(v => v !== c) }));
+        }
+        const scored = moves.map(move => ({ ...move, score: score(move.variables) }));
+        const best = scored.reduce<typeof scored[number] | null>((acc, move) => (!acc || move.score < acc.score ? move : acc), null);
+        if (!best || best.score >= currentScore - 1e-10) break;
+        current = best.variables;
+        currentScore = best.score;
+        record(best.action, best.variable, current, currentScore);
+    }
+
+    return { method, criterion, rowsUsed: rows.length, selected: current, path };
+};
@@ -0,0 +1,40 @@
+import { mean, median, standardDeviation, min, max } from 'simple-statistics';
+import { pairwiseCorrelation } from './chartDataService';
+import type { CorrelationMatrix, DataSet, DescriptiveStats } from '../types';
+
+export const computeDescriptiveStats = ({ data, numericHeaders }: DataSet): DescriptiveStats => {
+    const descStats: DescriptiveStats = {};
+    numericHeaders.forEach(header => {
+        const values = data.map(row => row[header]).filter((v): v is number => typeof v === 'number' && !isNaN(v));
+        if (values.length > 0) {
+            descStats[header] = {
+                count: values.length,
+                min: min(values),
+                max: max(values),
+                mean: mean(values),
+                median: median(values),
+                std: standardDeviation(values),
+            };
+        }
+    });
+    return descStats;
+};
+
+/** `onProgress` receives the share of columns done; pairs are O(p²·n), so this dominates on wide files. */
+export const computeCorrelationMatrix = ({ data, numericHeaders }: DataSet, onProgress?: (fraction: number) => void): CorrelationMatrix => {
+    const matrix: CorrelationMatrix = {};
+    numericHeaders.forEach((h1, i) => {
+        matrix[h1] = {};
+        numericHeaders.forEach(h2 => {
+            if (h1 === h2) {
+                matrix[h1][h2] = 1;
+            } else if (matrix[h2] && typeof matrix[h2][h1] !== 'undefined') {
+                matrix[h1][h2] = matrix[h2][h1];
+            } else {
+                matrix[h1][h2] = pairwiseCorrelation(data, h1, h2);
+            }
+        });
+        onProgress?.((i + 1) / numericHeaders.length);
+    });
+    return matrix;
+};
@@ -0,0 +1,152 @@
+import { median } from 'simple-statistics';
+import { isMissingValue } from './dataQualityService';
+import type { DataRow, DataSet, SeasonalPeriod, TimeFrequency } from '../types';
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 86400000;
+
+/** Share of non-empty values that must be dates for a text column to count as a date column. */
+const DATE_COLUMN_THRESHOLD = 0.9;
+
+export const FREQUENCY_LABELS: Record<TimeFrequency, string> = {
+    day: 'Diaria',
+    week: 'Semanal',
+    month: 'Mensual',
+    quarter: 'Trimestral',
+    year: 'Anual',
+};
+
+export const SEASONAL_PERIOD_LABELS: Record<SeasonalPeriod, string> = {
+    month: 'mes',
+    quarter: 'trimestre',
+    weekday: 'día de la semana',
+};
+
+/** Suffix of the seasonal dummy columns, e.g. `Fecha_mes3`. */
+export const SEASON_PREFIX: Record<SeasonalPeriod, string> = {
+    month: 'mes',
+    quarter: 'trim',
+    weekday: 'dia',
+};
+
+export interface DateParts {
+    year: number;
+    month: number;
+    day: number;
+    /** Days since 1970-01-01, so differences are exact whole days. */
+    dayNumber: number;
+}
+
+/** Reads a yyyy-mm-dd value as written by the schema step; anything else is null. */
+export const parseIsoDate = (value: DataRow[string] | undefined): DateParts | null => {
+    if (typeof value !== 'string') return null;
+    const match = ISO_DATE.exec(value);
+    if (!match) return null;
+    const [year, month, day] = match.slice(1).map(Number);
+    const time = Date.UTC(year, month - 1, day);
+    const date = new Date(time);
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return { year, month, day, dayNumber: time / DAY_MS };
+};
+
+const formatDayNumber = (dayNumber: number) => new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+
+/** Whole periods from `origin` to `date`; weeks are rounded to the nearest one. */
+export const periodsBetween = (origin: DateParts, date: DateParts, frequency: TimeFrequency): number => {
+    switch (frequency) {
+        case 'day':
+            return date.dayNumber - origin.dayNumber;
+        case 'week':
+            return Math.round((date.dayNumber - origin.dayNumber) / 7);
+        case 'month':
+            return (date.year - origin.year) * 12 + date.month - origin.month;
+        case 'quarter':
+            return (date.year - origin.year) * 4 + Math.floor((date.month - 1) / 3) - Math.floor((origin.month - 1) / 3);
+        case 'year':
+            return date.year - origin.year;
+    }
+};
+
+/** The date `count` periods after `date`. Month-based steps keep the day, clamped to the month's length. */
+export const addPeriods = (date: string, frequency: TimeFrequency, count: number): string => {
+    const parts = parseIsoDate(date);
+    if (!parts) return '';
+    if (frequency === 'day' || frequency === 'week') {
+        return formatDayNumber(parts.dayNumber + count * (frequency === 'week' ? 7 : 1));
+    }
+    const months = count * (frequency === 'year' ? 12 : frequency === 'quarter' ? 3 : 1);
+    const monthIndex = parts.year * 12 + parts.month - 1 + months;
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex - year * 12;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return formatDayNumber(Date.UTC(year, month, Math.min(parts.day, lastDay)) / DAY_MS);
+};
+
+/** Season number of a date: month 1–12, quarter 1–4 or weekday 1–7 (Monday = 1). */
+export const seasonOf = (date: DateParts, period: SeasonalPeriod): number => {
+    switch (period) {
+        case 'month':
+            return date.month;
+        case 'quarter':
+            return Math.floor((date.month - 1) / 3) + 1;
+        case 'weekday':
+            // 1970-01-01 was a Thursday.
+            return ((date.dayNumber + 3) % 7 + 7) % 7 + 1;
+    }
+};
+
+/** Text columns whose values are mostly yyyy-mm-dd dates, i.e. the columns typed as dates on load. */
+export const dateColumns = (dataSet: DataSet): string[] =>
+    dataSet.headers.filter(header => {
+        if (dataSet.numericHeaders.includes(header)) return false;
+        const values = dataSet.data.map(row => row[header]).filter(v => !isMissingValue(v));
+        return values.length > 0 && values.filter(v => parseIsoDate(v) !== null).length / values.length >= DATE_COLUMN_THRESHOLD;
+    });
+
+/** Guesses the sampling frequency from the median gap between consecutive distinct dates. */
+export const inferFrequency = (data: DataRow[], column: string): TimeFrequency => {
+    const days = [...new Set(data.map(row => parseIsoDate(row[column])?.dayNumber).filter((d): d is number => d !== undefined))]
+        .sort((a, b) => a - b);
+    if (days.length < 2) return 'month';
+    const gap = median(days.slice(1).map((d, i) => d - days[i]));
+    if (gap <= 2) return 'day';
+    if (gap <= 10) return 'week';
+    if (gap <= 45) return 'month';
+    if (gap <= 135) return 'quarter';
+    return 'year';
+};
+
+/**
+ * Stable sort of the rows by date. Rows without a valid date are moved to the end and their
+ * new positions returned so they can be excluded from training.
+ */
+export const sortByDate = (dataSet: DataSet, column: string): { dataSet: DataSet; undatedRows: number[] } => {
+    const keyed = dataSet.data.map((row, i) => ({ row, i, day: parseIsoDate(row[column])?.dayNumber ?? Infinity }));
+    keyed.sort((a, b) => (a.day === b.day ? a.i - b.i : a.day - b.day));
+    const undatedRows = keyed.map((k, i) => (k.day === Infinity ? i : -1)).filter(i => i >= 0);
+    return { dataSet: { ...dataSet, data: keyed.map(k => k.row) }, undatedRows };
+};
+
+export interface SeriesSummary {
+    first: string | null;
+    last: string | null;
+    /** Rows that share their date with an earlier row. */
+    duplicates: number;
+    /** Periods with no row between the first and last date. */
+    gaps: number;
+}
+
+export const summarizeSeries = (data: DataRow[], column: string, frequency: TimeFrequency): SeriesSummary => {
+    const dates = data.map(row => row[column]).filter((v): v is string => parseIsoDate(v) !== null).sort();
+    const distinct = [...new Set(dates)];
+    const gaps = distinct.slice(1).reduce((acc, date, i) => {
+        const step = periodsBetween(parseIsoDate(distinct[i])!, parseIsoDate(date)!, frequency);
+        return acc + Math.max(0, step - 1);
+    }, 0);
+    return {
+        first: distinct[0] ?? null,
+        last: distinct[distinct.length - 1] ?? null,
+        duplicates: dates.length - distinct.length,
+        gaps,
+    };
+};
@@ -0,0 +1,154 @@
+import {
+    trainTestSplitIndices, chronologicalSplitIndices, kFoldIndices, expandingWindowIndices, predictRows, computeMetrics, crossValidate, summarizeFolds,
+    computeInference, selectCompleteRowIndices, designRow
+} from './regressionService';
+import { computeDiagnostics } from './diagnosticsService';
+import { computeInfluence } from './outlierService';
+import { fitModel, isPenalized, isRobust } from './modelService';
+import type {
+    DataSet, ModelConfig, ModelResults, TrainedModel, ValidationConfig, RegressionMetrics, FoldMetrics, CovarianceType
+} from '../types';
+
+/** Validation problems the user can fix; the message is shown as-is. */
+export class TrainingError extends Error {}
+
+export interface TrainingRequest {
+    dataSet: DataSet;
+    /** Original dataset position of each row in `dataSet.data`. */
+    rowIndices: number[];
+    dependentVar: string;
+    independentVars: string[];
+    validation: ValidationConfig;
+    confidenceLevel: number;
+    modelConfig: ModelConfig;
+    /** Numeric column of positive row weights for weighted least squares, e.g. 1/size when the variance grows with size. */
+    weightColumn: string | null;
+    covariance: CovarianceType;
+}
+
+export interface TrainingOutcome {
+    model: TrainedModel;
+    results: ModelResults;
+}
+
+/** Terms of the model plus the intercept and one residual degree of freedom. */
+export const minimumTrainingRows = (modelConfig: ModelConfig, independentVars: string[]) =>
+    (modelConfig.type === 'polynomial' ? independentVars.length * modelConfig.degree : independentVars.length) + 2;
+
+export const trainModel = (request: TrainingRequest): TrainingOutcome => {
+    const { dataSet, rowIndices, dependentVar, independentVars, validation, confidenceLevel, modelConfig, weightColumn, covariance } = request;
+    if (!dependentVar || independentVars.length === 0) {
+        throw new TrainingError('Por favor, selecciona la variable dependiente y al menos una independiente.');
+    }
+    if (weightColumn && isPenalized(modelConfig.type)) {
+        throw new TrainingError('Los modelos penalizados no admiten pesos por fila. Elige MCO, polinómica o una regresión robusta, o quita la columna de pesos.');
+    }
+
+    const allVars = weightColumn ? [dependentVar, ...independentVars, weightColumn] : [dependentVar, ...independentVars];
+    const cleanIndices = selectCompleteRowIndices(dataSet.data, allVars);
+    const cleanData = cleanIndices.map(i => dataSet.data[i]);
+    const k = minimumTrainingRows(modelConfig, independentVars) - 2;
+
+    if (cleanData.length < k + 2) {
+        throw new TrainingError('No hay suficientes datos limpios (numéricos y sin valores faltantes) para entrenar el modelo con las variables seleccionadas. Por favor, verifica tu archivo de datos.');
+    }
+
+    const y = cleanData.map(row => row[dependentVar] as number);
+    const x = cleanData.map(row => independentVars.map(key => row[key] as number));
+
+    const weights = weightColumn ? cleanData.map(row => row[weightColumn] as number) : null;
+    if (weights && weights.some(w => !(w > 0) || !isFinite(w))) {
+        throw new TrainingError(`La columna de pesos "${weightColumn}" debe contener solo valores positivos.`);
+    }
+
+    if (y.every(v => v === y[0])) {
+        throw new TrainingError('No se puede entrenar el modelo: la variable dependiente tiene varianza cero (todos los valores son iguales).');
+    }
+
+    const holdoutSplit = validation.chronological
+        ? chronologicalSplitIndices(y.length, validation.testRatio)
+        : trainTestSplitIndices(y.length, validation.testRatio, validation.seed);
+    const split = validation.mode === 'holdout' ? holdoutSplit : { train: y.map((_, i) => i), test: [] as number[] };
+
+    if (split.train.length < k + 2) {
+        throw new TrainingError('El conjunto de entrenamiento es demasiado pequeño para el número de variables seleccionadas. Reduce la proporción de prueba o el número de variables.');
+    }
+    // Expanding windows start from a single block, so their smallest training set is much smaller.
+    const smallestFoldTrain = validation.chronological
+        ? Math.floor(y.length / (validation.folds + 1))
+        : y.length - Math.ceil(y.length / validation.folds);
+    if (validation.mode === 'kfold' && (validation.folds < 2 || validation.folds > y.length || smallestFoldTrain < k + 2)) {
+        throw new TrainingError('El número de particiones (k) no es válido para la cantidad de datos disponibles.');
+    }
+
+    const xTrain = split.train.map(i => x[i]);
+    const yTrain = split.train.map(i => y[i]);
+    const wTrain = weights ? split.train.map(i => weights[i]) : undefined;
+
+    const { model, refit, lambdaPath, robust } = fitModel(modelConfig, xTrain, yTrain, independentVars, validation.seed, wTrain);
+
+    if (isNaN(model.intercept) || model.coefficients.some(isNaN)) {
+        throw new TrainingError('Error al entrenar el modelo. Los coeficientes resultantes no son válidos (NaN). Esto puede deberse a una multicolinealidad perfecta (variables predictoras idénticas o muy correlacionadas).');
+    }
+
+    const fitted = predictRows(model, xTrain);
+    const residuals = yTrain.map((v, i) => v - fitted[i]);
+    const trainMetrics = computeMetrics(yTrain, fitted);
+    const trainRowIndices = split.train.map(i => rowIndices[cleanIndices[i]]);
+    const n = yTrain.length;
+    const rSquaredAdjusted = 1 - ((1 - trainMetrics.rSquared) * (n - 1)) / (n - k - 1);
+
+    let testMetrics: RegressionMetrics;
+    let folds: FoldMetrics[] = [];
+    let testSize: number;
+    if (validation.mode === 'holdout') {
+        const yTest = split.test.map(i => y[i]);
+        testMetrics = computeMetrics(yTest, predictRows(model, split.test.map(i => x[i])));
+        testSize = yTest.length;
+    } else {
+        const splits = validation.chronological
+            ? expandingWindowIndices(y.length, validation.folds)
+            : kFoldIndices(y.length, validation.folds, validation.seed);
+        const cv = crossValidate(x, y, splits, refit, weights);
+        const tested = splits.flatMap(s => s.test);
+        folds = cv.folds;
+        testMetrics = computeMetrics(tested.map(i => y[i]), tested.map(i => cv.outOfFold[i]));
+        testSize = tested.length;
+    }
+
+    // Standard errors and hat values assume an unpenalized least-squares fit. Weighted and IRLS
+    // fits are least squares on rows scaled by √w; the hat values are only kept for plain fits.
+    const leastSquares = !isPenalized(model.type);
+    const designTrain = xTrain.map(row => designRow(model, row));
+    const inferenceWeights = robust ? robust.weights.map((w, i) => w * (wTrain?.[i] ?? 1)) : wTrain;
+    // Pearson residuals √w·e, so the diagnostics check whether the weights removed the heteroscedasticity.
+    const scaledResiduals = wTrain ? residuals.map((r, i) => r * Math.sqrt(wTrain[i])) : residuals;
+
+    const results: ModelResults = {
+        modelType: model.type,
+        termNames: model.termNames,
+        hyperparameters: model.hyperparameters,
+        lambdaPath,
+        coefficients: model.coefficients,
+        intercept: model.intercept,
+        rSquared: trainMetrics.rSquared,
+        rSquaredAdjusted,
+        rmse: trainMetrics.rmse,
+        validation,
+        trainSize: n,
+        testSize,
+        trainMetrics,
+        testMetrics,
+        folds,
+        foldSummary: folds.length > 0 ? summarizeFolds(folds) : null,
+        inference: leastSquares ? computeInference(model, xTrain, yTrain, confidenceLevel, { weights: inferenceWeights, covariance }) : null,
+        fitted,
+        residuals,
+        diagnostics: computeDiagnostics(designTrain, scaledResiduals),
+        trainRowIndices,
+        influence: leastSquares && !wTrain && !isRobust(model.type) ? computeInfluence(designTrain, residuals, trainRowIndices) : [],
+        weightColumn,
+        robust,
+    };
+    return { model, results };
+};
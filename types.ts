@@ -1,11 +1,10 @@
-import { MultivariateLinearRegression } from 'ml-regression';
-
 export type DataRow = Record<string, string | number>;
 
 export interface DataSet {
   data: DataRow[];
   headers: string[];
   numericHeaders: string[];
+  fileName?: string;
 }
 
 export interface DescriptiveStats {
@@ -25,12 +24,382 @@ export interface CorrelationMatrix {
   };
 }
 
+/** Progress of a long computation: the step under way and its completed share (0–1). */
+export interface TaskProgress {
+  phase: string;
+  fraction: number;
+}
+
+export type ValidationMode = 'holdout' | 'kfold';
+
+export interface ValidationConfig {
+  mode: ValidationMode;
+  testRatio: number;
+  folds: number;
+  seed: number;
+  /** Keep row order instead of shuffling: the latest rows are held out (time-series mode). */
+  chronological?: boolean;
+}
+
+export interface RegressionMetrics {
+  rSquared: number;
+  rmse: number;
+  mae: number;
+  mape: number;
+}
+
+export interface FoldMetrics extends RegressionMetrics {
+  fold: number;
+  trainSize: number;
+  testSize: number;
+}
+
+export interface CoefficientStat {
+  name: string;
+  estimate: number;
+  stdError: number;
+  tStat: number;
+  pValue: number;
+  ciLower: number;
+  ciUpper: number;
+}
+
+export interface RegressionInference {
+  coefficientStats: CoefficientStat[];
+  confidenceLevel: number;
+  dfModel: number;
+  dfResidual: number;
+  residualStdError: number;
+  fStatistic: number;
+  fPValue: number;
+  /** (X'X)⁻¹ of the training design, kept for interval forecasts; null if singular or the fit is weighted. */
+  xtxInverse: number[][] | null;
+  /** Estimator behind the standard errors; absent in models saved before it was selectable (classical). */
+  covariance?: CovarianceType;
+}
+
+export interface PredictionIntervals {
+  confidenceLevel: number;
+  confidence: [number, number];
+  prediction: [number, number];
+}
+
+export interface IntervalPrediction {
+  value: number;
+  intervals: PredictionIntervals | null;
+}
+
+export interface ScoredRow {
+  row: DataRow;
+  result: IntervalPrediction | null;
+  errors: string[];
+}
+
+/** A single prediction made from the Predictor form during the session. */
+export interface PredictionRecord extends IntervalPrediction {
+  dependentVar: string;
+  /** Values as typed, before the feature steps are applied. */
+  inputs: DataRow;
+  madeAt: string;
+}
+
+export type DiagnosticVerdict = 'pass' | 'warn';
+
+export interface DiagnosticTest {
+  name: string;
+  statistic: number;
+  pValue: number | null;
+  verdict: DiagnosticVerdict;
+  message: string;
+}
+
+export interface RegressionDiagnostics {
+  normality: DiagnosticTest;
+  heteroscedasticity: DiagnosticTest;
+  autocorrelation: DiagnosticTest;
+}
+
 export interface ModelResults {
+  modelType: ModelType;
+  termNames: string[];
+  hyperparameters: ModelHyperparameters;
+  /** Cross-validated RMSE for each λ tried (penalized models only). */
+  lambdaPath: { lambda: number; cvRmse: number }[];
   coefficients: number[];
   intercept: number;
   rSquared: number;
   rSquaredAdjusted: number;
   rmse: number;
+  validation: ValidationConfig;
+  trainSize: number;
+  testSize: number;
+  trainMetrics: RegressionMetrics;
+  testMetrics: RegressionMetrics;
+  folds: FoldMetrics[];
+  foldSummary: { mean: RegressionMetrics; std: RegressionMetrics } | null;
+  inference: RegressionInference | null;
+  fitted: number[];
+  residuals: number[];
+  diagnostics: RegressionDiagnostics;
+  trainRowIndices: number[];
+  influence: InfluenceMeasure[];
+  /** Column whose values weighted each training row (weighted least squares); absent or null if unweighted. */
+  weightColumn?: string | null;
+  /** IRLS details of robust fits (Huber, bisquare); absent or null otherwise. */
+  robust?: RobustFitSummary | null;
+}
+
+export interface RobustFitSummary {
+  /** Least-squares fit on the same rows (and prior weights), for comparison with the robust one. */
+  olsIntercept: number;
+  olsCoefficients: number[];
+  /** Final IRLS weight of each training row, in `trainRowIndices` order: 1 is a full vote, 0 is ignored. */
+  weights: number[];
+  /** Robust residual scale (MAD / 0.6745) at convergence. */
+  scale: number;
+  iterations: number;
+  converged: boolean;
+}
+
+export interface VifEntry {
+  name: string;
+  vif: number;
+  rSquared: number;
+}
+
+export interface CollinearityReport {
+  vif: VifEntry[];
+  conditionNumber: number;
+  worstVariable: string | null;
+}
+
+export interface FlaggedValue {
+  rowIndex: number;
+  value: number;
+  zScore: number;
+  byIqr: boolean;
+  byZ: boolean;
 }
 
-export type TrainedModel = MultivariateLinearRegression;
+export interface ColumnOutlierSummary {
+  column: string;
+  lowerFence: number;
+  upperFence: number;
+  iqrCount: number;
+  zCount: number;
+  flagged: FlaggedValue[];
+}
+
+export interface InfluenceMeasure {
+  rowIndex: number;
+  leverage: number;
+  studentizedResidual: number;
+  cooksDistance: number;
+  flags: ('leverage' | 'residual' | 'cooks')[];
+}
+
+export interface ExclusionRecord {
+  rowIndex: number;
+  reason: string;
+  excludedAt: string;
+}
+
+export type FeatureStep =
+  | { id: string; kind: 'dummy'; column: string; levels: string[]; reference: string }
+  | { id: string; kind: 'log' | 'sqrt'; column: string }
+  | { id: string; kind: 'standardize'; column: string; mean: number; std: number }
+  | { id: string; kind: 'polynomial'; column: string; degree: number }
+  | { id: string; kind: 'interaction'; columns: [string, string] }
+  | { id: string; kind: 'lag'; column: string; lag: number }
+  /** Periods elapsed since `origin` (the first date of the training data). */
+  | { id: string; kind: 'trend'; column: string; origin: string; frequency: TimeFrequency }
+  | { id: string; kind: 'seasonal'; column: string; period: SeasonalPeriod; levels: number[]; reference: number }
+  | {
+      id: string;
+      kind: 'impute';
+      column: string;
+      strategy: ImputationStrategy;
+      /** Value used for new rows, and for regression imputation when a predictor is missing. */
+      fillValue: number | string;
+      regression: ImputationRegression | null;
+      indicator: boolean;
+    };
+
+export type TimeFrequency = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type SeasonalPeriod = 'month' | 'quarter' | 'weekday';
+
+export interface TimeSeriesConfig {
+  /** Column holding yyyy-mm-dd dates; rows are sorted by it. */
+  dateColumn: string;
+  frequency: TimeFrequency;
+}
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  intervals: PredictionIntervals | null;
+}
+
+export type ColumnType = 'numeric' | 'categorical' | 'date' | 'id';
+
+export type DecimalSeparator = ',' | '.';
+
+export interface ColumnSchema {
+  /** Header in the uploaded file. */
+  source: string;
+  /** Name used in the DataSet; editable by the user. */
+  name: string;
+  type: ColumnType;
+  decimal: DecimalSeparator;
+  include: boolean;
+  /** Share of non-empty values that parse as the inferred type (0–1). */
+  confidence: number;
+}
+
+export interface MissingValueSummary {
+  column: string;
+  numeric: boolean;
+  missing: number;
+  /** Non-numeric text in a numeric column. */
+  invalid: number;
+  percent: number;
+}
+
+export type ImputationStrategy = 'mean' | 'median' | 'mode' | 'constant' | 'forwardFill' | 'regression';
+
+export interface ImputationRegression {
+  predictors: string[];
+  intercept: number;
+  coefficients: number[];
+}
+
+export type SelectionMethod = 'forward' | 'backward' | 'bidirectional' | 'bestSubset';
+
+export type SelectionCriterion = 'aic' | 'bic' | 'adjR2';
+
+export interface SelectionStep {
+  step: number;
+  action: 'start' | 'add' | 'remove' | 'best';
+  variable: string | null;
+  variables: string[];
+  score: number;
+}
+
+export interface SelectionResult {
+  method: SelectionMethod;
+  criterion: SelectionCriterion;
+  rowsUsed: number;
+  selected: string[];
+  path: SelectionStep[];
+}
+
+export type FilterOperator = 'eq' | 'is' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'contains' | 'in';
+
+/** A row condition; `value` is kept as typed and parsed against the column (a comma-separated list for 'in'). */
+export interface FilterCondition {
+  id: string;
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export type ModelType = 'ols' | 'ridge' | 'lasso' | 'elasticNet' | 'polynomial' | 'huber' | 'bisquare';
+
+/** Classical (constant variance) or White's heteroscedasticity-consistent HC0–HC3 standard errors. */
+export type CovarianceType = 'classical' | 'HC0' | 'HC1' | 'HC2' | 'HC3';
+
+export interface ModelConfig {
+  type: ModelType;
+  /** Polynomial degree, only used by 'polynomial'. */
+  degree: number;
+  /** Elastic Net mixing between L1 (1) and L2 (0), only used by 'elasticNet'. */
+  alpha: number;
+}
+
+export interface ModelHyperparameters {
+  lambda?: number;
+  alpha?: number;
+  degree?: number;
+  /** Tuning constant of robust fits, in units of the residual scale. */
+  tuning?: number;
+}
+
+/** Plain, serializable description of a fitted linear-in-parameters model. */
+export interface LinearModelParams {
+  type: ModelType;
+  intercept: number;
+  /** One per entry of `termNames` (expanded terms for polynomial models). */
+  coefficients: number[];
+  termNames: string[];
+  hyperparameters: ModelHyperparameters;
+}
+
+export interface TrainedModel extends LinearModelParams {
+  /** Predicts from raw values of the independent variables, in training order. */
+  predict(x: number[]): number;
+}
+
+export interface TrainingMetadata {
+  fileName: string | null;
+  /** Rows available to training after exclusions, before dropping incomplete ones. */
+  rowCount: number;
+  trainedAt: string;
+  /** Raw numeric inputs over the training rows; absent in models saved before it was recorded. */
+  inputStats?: DescriptiveStats;
+  /** Row filters in force when training, including the segment of per-segment models. */
+  filters?: FilterCondition[];
+}
+
+export interface ModelArtifact {
+  format: 'regresion-multiple/model';
+  version: number;
+  dependentVar: string;
+  independentVars: string[];
+  model: LinearModelParams;
+  featureSteps: FeatureStep[];
+  results: ModelResults;
+  metadata: TrainingMetadata;
+}
+
+export interface VariableSuggestion {
+  dependentVar: string;
+  independentVars: string[];
+}
+
+export type AiProviderKind = 'heuristic' | 'gemini' | 'openai';
+
+export interface AiProviderConfig {
+  kind: AiProviderKind;
+  /** Empty for the heuristic provider and for local servers that need no key. */
+  apiKey: string;
+  model: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for a local server. */
+  baseUrl: string;
+}
+
+/** What the remote AI providers may see: sample rows (filtered) or only the schema and aggregates. */
+export type AiPayloadMode = 'samples' | 'aggregates';
+
+export type ColumnPrivacy = 'send' | 'mask' | 'hash';
+
+export interface AiPrivacyPolicy {
+  mode: AiPayloadMode;
+  /** Cap on sample rows sent in 'samples' mode. */
+  maxSampleRows: number;
+  /** Columns absent from the map are sent as is. */
+  columnRules: Record<string, ColumnPrivacy>;
+}
+
+export interface CoefficientInterpretation {
+  term: string;
+  /** What a one-unit change means in units of the dependent variable. */
+  meaning: string;
+}
+
+export interface ModelInterpretation {
+  summary: string;
+  coefficients: CoefficientInterpretation[];
+  caveats: string[];
+  nextSteps: string[];
+}